@@ -3,6 +3,7 @@ export const TRACKEDEXTENSION = [
     '.js', '.mjs', '.cjs',
     '.ts', '.tsx', '.jsx',
     '.py',
+    '.ipynb',
     '.java',
     '.c', '.h',
     '.cpp', '.cc', '.cxx', '.hpp',
@@ -0,0 +1,201 @@
+/**
+ * ActivityTracker.ts
+ *
+ * Measures focused coding time for the time-based earning mode.
+ * Edits, selection changes, scrolling and debugger activity all count as
+ * activity. Time between two activities counts as focused as long as the
+ * window keeps focus and the gap is shorter than the idle timeout, so
+ * refactoring, reviewing and debugging earn as much as typing new lines.
+ */
+
+import * as vscode from 'vscode';
+import { ActivityConfig } from './types';
+
+/**
+ * Milliseconds in a minute
+ */
+const MINUTE = 60 * 1000;
+
+/**
+ * Document schemes whose changes are not the user's activity
+ */
+const IGNORED_SCHEMES = ['output', 'debug', 'git'];
+
+/**
+ * Measures active coding time from editor and debugger activity
+ */
+export class ActivityTracker implements vscode.Disposable {
+    /**
+     * Disposables for cleanup
+     */
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Event emitter for completed active minutes
+     */
+    private onActiveMinutesEmitter = new vscode.EventEmitter<number>();
+
+    /**
+     * Fires with the number of whole minutes of focused activity just completed
+     */
+    public readonly onActiveMinutes = this.onActiveMinutesEmitter.event;
+
+    /**
+     * When the last activity happened, or undefined after idling or losing focus
+     */
+    private lastActivityAt: number | undefined;
+
+    /**
+     * Whether the VS Code window has focus
+     */
+    private focused: boolean;
+
+    /**
+     * Active time not yet reported as a whole minute (milliseconds)
+     */
+    private pendingMs = 0;
+
+    /**
+     * Creates a new ActivityTracker instance
+     *
+     * @param config - Activity configuration
+     */
+    constructor(private config: ActivityConfig) {
+        this.focused = vscode.window.state.focused;
+        this.setupListeners();
+    }
+
+    // ========================================
+    // INITIALIZATION
+    // ========================================
+
+    /**
+     * Sets up listeners for everything that counts as activity
+     *
+     * @private
+     */
+    private setupListeners(): void {
+        const record = () => this.recordActivity();
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.contentChanges.length > 0 && !IGNORED_SCHEMES.includes(event.document.uri.scheme)) {
+                    record();
+                }
+            }),
+            vscode.window.onDidChangeTextEditorSelection(event => {
+                if (!IGNORED_SCHEMES.includes(event.textEditor.document.uri.scheme)) {
+                    record();
+                }
+            }),
+            vscode.window.onDidChangeTextEditorVisibleRanges(record),
+            vscode.window.onDidChangeActiveTextEditor(record),
+            vscode.window.onDidChangeWindowState(state => this.setFocused(state.focused)),
+            vscode.debug.onDidStartDebugSession(record),
+            vscode.debug.onDidChangeActiveStackItem(record),
+            vscode.debug.onDidChangeBreakpoints(record)
+        );
+    }
+
+    // ========================================
+    // ACTIVITY
+    // ========================================
+
+    /**
+     * Records an activity, counting the time since the previous one if it was not idle
+     *
+     * @param now - Time of the activity
+     * @private
+     */
+    private recordActivity(now: number = Date.now()): void {
+        // Events that reach an unfocused window are not the user at work
+        if (!this.focused) {
+            return;
+        }
+
+        if (this.lastActivityAt !== undefined) {
+            const gap = now - this.lastActivityAt;
+            if (gap > 0 && gap < this.config.idleTimeout) {
+                this.addActiveTime(gap);
+            }
+        }
+
+        this.lastActivityAt = now;
+    }
+
+    /**
+     * Records the window gaining or losing focus
+     * Time up to losing focus still counts if the user was active just before
+     *
+     * @param focused - Whether the window has focus
+     * @param now - Time of the change
+     * @private
+     */
+    private setFocused(focused: boolean, now: number = Date.now()): void {
+        if (focused === this.focused) {
+            return;
+        }
+
+        if (focused) {
+            this.focused = true;
+            this.recordActivity(now);
+        } else {
+            this.recordActivity(now);
+            this.focused = false;
+            this.lastActivityAt = undefined;
+        }
+    }
+
+    /**
+     * Adds active time and reports each whole minute completed
+     *
+     * @param ms - Active time to add
+     * @private
+     */
+    private addActiveTime(ms: number): void {
+        this.pendingMs += ms;
+
+        const minutes = Math.floor(this.pendingMs / MINUTE);
+        if (minutes > 0) {
+            this.pendingMs -= minutes * MINUTE;
+            this.onActiveMinutesEmitter.fire(minutes);
+        }
+    }
+
+    // ========================================
+    // PUBLIC API
+    // ========================================
+
+    /**
+     * Whether the user is currently active
+     *
+     * @returns True if the window has focus and the last activity is within the idle timeout
+     */
+    isActive(): boolean {
+        return this.focused
+            && this.lastActivityAt !== undefined
+            && Date.now() - this.lastActivityAt < this.config.idleTimeout;
+    }
+
+    /**
+     * Updates the configuration
+     *
+     * @param config - New activity configuration
+     */
+    updateConfig(config: ActivityConfig): void {
+        this.config = config;
+    }
+
+    // ========================================
+    // CLEANUP
+    // ========================================
+
+    /**
+     * Disposes of all resources
+     */
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.onActiveMinutesEmitter.dispose();
+    }
+}
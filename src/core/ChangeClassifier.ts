@@ -0,0 +1,209 @@
+/**
+ * ChangeClassifier.ts
+ *
+ * Classifies the raw content changes behind a code change as typed text,
+ * pastes, snippet expansions, completion acceptances or large insertions,
+ * and works out how many lines the configured credit policies withhold.
+ */
+
+import * as vscode from 'vscode';
+import {
+    ChangeClassification,
+    CreditPolicy,
+    InsertionConfig,
+    InsertionKind
+} from './types';
+import { CommentLexer } from './CommentLexer';
+
+/**
+ * Classifies insertions and applies the per-kind credit policies
+ */
+export class ChangeClassifier {
+    /**
+     * Creates a new ChangeClassifier instance
+     *
+     * @param config - Insertion detection and policy configuration
+     */
+    constructor(private config: InsertionConfig) { }
+
+    /**
+     * Updates the configuration used by the classifier
+     *
+     * @param config - New insertion configuration
+     */
+    updateConfig(config: InsertionConfig): void {
+        this.config = config;
+    }
+
+    // ========================================
+    // CLASSIFICATION
+    // ========================================
+
+    /**
+     * Classifies a batch of content changes queued for one document
+     *
+     * @param changes - Content changes in the order they happened
+     * @param languageId - Programming language identifier
+     * @param clipboardText - Clipboard contents at the time of the changes
+     * @param measure - Credit an inserted text is worth, meaningful lines by default
+     * @returns Classification with the number of lines withheld from credit
+     */
+    classify(
+        changes: readonly vscode.TextDocumentContentChangeEvent[],
+        languageId: string,
+        clipboardText?: string,
+        measure: (text: string) => number = text => this.countInsertedLines(text, languageId)
+    ): ChangeClassification {
+        const linesByKind: Partial<Record<InsertionKind, number>> = {};
+        let withheldLines = 0;
+
+        for (const change of changes) {
+            const lines = measure(change.text);
+            if (lines === 0) {
+                continue;
+            }
+
+            const kind = this.classifyInsertion(change, lines, clipboardText);
+            linesByKind[kind] = (linesByKind[kind] ?? 0) + lines;
+
+            // Policies apply per insertion, so each paste is capped separately
+            withheldLines += lines - this.applyPolicy(this.config.policies[kind], lines);
+        }
+
+        return {
+            kind: this.getDominantKind(linesByKind),
+            linesByKind,
+            withheldLines
+        };
+    }
+
+    /**
+     * Decides what produced a single insertion
+     *
+     * @param change - Content change to classify
+     * @param lines - Meaningful lines the change inserts
+     * @param clipboardText - Clipboard contents at the time of the change
+     * @returns Insertion kind
+     * @private
+     */
+    private classifyInsertion(
+        change: vscode.TextDocumentContentChangeEvent,
+        lines: number,
+        clipboardText?: string
+    ): InsertionKind {
+        // Anything that stays on one line is ordinary typing
+        if (!change.text.includes('\n')) {
+            return InsertionKind.TYPED;
+        }
+
+        if (clipboardText && normalize(change.text) === normalize(clipboardText)) {
+            return InsertionKind.PASTE;
+        }
+
+        // A short word replaced by a multi-line block is a snippet expansion
+        if (
+            change.rangeLength > 0 &&
+            change.rangeLength <= this.config.snippetPrefixMaxLength &&
+            change.range.isSingleLine
+        ) {
+            return InsertionKind.SNIPPET;
+        }
+
+        if (lines >= this.config.largeInsertionLines) {
+            return InsertionKind.LARGE_INSERTION;
+        }
+
+        // Multi-line code appearing in one step without a paste is a completion
+        if (change.rangeLength === 0 && lines > 1) {
+            return InsertionKind.COMPLETION;
+        }
+
+        return InsertionKind.TYPED;
+    }
+
+    // ========================================
+    // CREDIT POLICY
+    // ========================================
+
+    /**
+     * Applies a credit policy to an insertion
+     *
+     * @param policy - Policy for the insertion's kind
+     * @param lines - Meaningful lines inserted
+     * @returns Lines that may be credited
+     * @private
+     */
+    private applyPolicy(policy: CreditPolicy | undefined, lines: number): number {
+        switch (policy?.mode) {
+            case 'capped':
+                return Math.min(lines, policy.cap ?? 0);
+
+            case 'partial':
+                return lines * Math.min(1, Math.max(0, policy.ratio ?? 0));
+
+            case 'none':
+                return 0;
+
+            default:
+                return lines;
+        }
+    }
+
+    // ========================================
+    // UTILITY METHODS
+    // ========================================
+
+    /**
+     * Counts the meaningful lines in inserted text
+     *
+     * @param text - Inserted text
+     * @param languageId - Programming language identifier
+     * @returns Number of meaningful lines
+     * @private
+     */
+    private countInsertedLines(text: string, languageId: string): number {
+        if (text.trim().length === 0) {
+            return 0;
+        }
+
+        return CommentLexer.forLanguage(languageId)
+            .scanLines(text.split('\n'))
+            .filter(Boolean)
+            .length;
+    }
+
+    /**
+     * Picks the kind that contributed the most lines, preferring limited kinds on ties
+     *
+     * @param linesByKind - Meaningful lines per kind
+     * @returns Dominant insertion kind
+     * @private
+     */
+    private getDominantKind(linesByKind: Partial<Record<InsertionKind, number>>): InsertionKind {
+        let dominant = InsertionKind.TYPED;
+        let most = 0;
+
+        for (const [kind, lines] of Object.entries(linesByKind) as [InsertionKind, number][]) {
+            if (lines > most || (lines === most && kind !== InsertionKind.TYPED)) {
+                dominant = kind;
+                most = lines;
+            }
+        }
+
+        return dominant;
+    }
+}
+
+/**
+ * Normalizes text for clipboard comparison (line endings and indentation)
+ *
+ * @param text - Text to normalize
+ * @returns Comparable form of the text
+ */
+function normalize(text: string): string {
+    return text
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .join('\n')
+        .trim();
+}
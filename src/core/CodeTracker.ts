@@ -6,8 +6,52 @@
  */
 
 import * as vscode from 'vscode';
-import { CodeChange, ExtensionConfig } from './types';
+import * as fs from 'fs';
+import { ChangeClassification, CodeChange, CreditBreakdown, ExtensionConfig } from './types';
 import { StorageManager } from './StorageManager';
+import { DiffHunk, diffLines } from './LineDiff';
+import { CommentLexer } from './CommentLexer';
+import { ChangeClassifier } from './ChangeClassifier';
+import { TrackingDecision, TrackingFilter } from './TrackingFilter';
+import { GitCreditSource } from './GitCreditSource';
+import { getGitApi, GitRepository, watchRepositories } from './GitIntegration';
+import { createSnapshot, DocumentSnapshot, SnapshotStats, SnapshotStore } from './SnapshotStore';
+import { languageProfiles } from './LanguageProfiles';
+import { HighWaterMarks, HighWaterMarkStats } from './HighWaterMarks';
+import { CreditMultipliers } from './CreditMultipliers';
+import { ProseTracker } from './ProseTracker';
+import { DiagnosticsEscrow, LineRange } from './DiagnosticsEscrow';
+
+/**
+ * Time after a git HEAD change during which changes that leave a document
+ * matching the file on disk or at HEAD are treated as reloads (milliseconds)
+ */
+const HEAD_CHANGE_WINDOW = 2000;
+
+/**
+ * URI scheme of the text documents behind notebook cells
+ */
+const NOTEBOOK_CELL_SCHEME = 'vscode-notebook-cell';
+
+/**
+ * Changes queued for a single document while its debounce timer runs
+ */
+interface PendingDocumentChange {
+    /** Document the changes belong to */
+    document: vscode.TextDocument;
+
+    /** Content changes in the order they were received */
+    changes: vscode.TextDocumentContentChangeEvent[];
+
+    /** Debounce timer for this document */
+    timer: NodeJS.Timeout;
+
+    /** Clipboard contents read when a multi-line change arrived */
+    clipboardText?: string;
+
+    /** Whether every queued change came from undo or redo */
+    undoRedo: boolean;
+}
 
 /**
  * Tracks user's coding activity to enable game unlocks
@@ -19,9 +63,10 @@ export class CodeTracker {
     private disposables: vscode.Disposable[] = [];
 
     /**
-     * Debounce timer to prevent counting rapid changes as multiple lines
+     * Pending changes per document URI, each with its own debounce timer
+     * so edits in one file never cancel the processing of another
      */
-    private debounceTimer: NodeJS.Timeout | null = null;
+    private pendingChanges = new Map<string, PendingDocumentChange>();
 
     /**
      * Event emitter for code change events
@@ -34,15 +79,75 @@ export class CodeTracker {
     public readonly onCodeWritten = this.onCodeWrittenEmitter.event;
 
     /**
-     * Cache of document content to compare changes
+     * Compact snapshots of each document's last seen version, to compare changes
      */
-    private documentCache = new Map<string, string>();
+    private snapshots: SnapshotStore;
+
+    /**
+     * Lines each document has already held this session, so they are paid for once
+     */
+    private marks: HighWaterMarks;
 
     /**
      * Current extension configuration
      */
     private config: ExtensionConfig;
 
+    /**
+     * Classifies pastes, snippets and completions to limit their credit
+     */
+    private classifier: ChangeClassifier;
+
+    /**
+     * Decides which documents earn credit (globs, ignores, generated files)
+     */
+    private filter: TrackingFilter;
+
+    /**
+     * Credits committed lines when the credit source is git
+     */
+    private gitCredits: GitCreditSource;
+
+    /**
+     * Language and path credit multipliers
+     */
+    private multipliers: CreditMultipliers;
+
+    /**
+     * Word and sentence counting for documentation files
+     */
+    private prose: ProseTracker;
+
+    /**
+     * Notebook markdown cells, which are credited as prose, by cell URI
+     */
+    private markupCells = new Set<string>();
+
+    /**
+     * Notebook each tracked cell belongs to, by cell URI
+     */
+    private cellNotebooks = new Map<string, vscode.NotebookDocument>();
+
+    /**
+     * Holds credit for lines with errors until they are fixed
+     */
+    private escrow: DiagnosticsEscrow;
+
+    /**
+     * Public event that fires with the number of lines waiting for their errors to be fixed
+     */
+    public readonly onPendingLinesChanged: vscode.Event<number>;
+
+    /**
+     * When a repository's HEAD last moved (checkout, pull, rebase)
+     */
+    private lastHeadChange = 0;
+
+    /**
+     * Text at the new HEAD of each dirty document, read when HEAD last moved
+     */
+    private headTexts = new Map<string, string>();
+
     /**
      * Creates a new CodeTracker instance
      * 
@@ -50,7 +155,19 @@ export class CodeTracker {
      */
     constructor(private storageManager: StorageManager) {
         this.config = storageManager.getConfig();
+        languageProfiles.configure(this.config.languageProfiles);
+        this.snapshots = new SnapshotStore(this.config.snapshotBudgetBytes);
+        this.marks = new HighWaterMarks(this.config.snapshotBudgetBytes);
+        this.classifier = new ChangeClassifier(this.config.insertion);
+        this.filter = new TrackingFilter(this.config);
+        this.multipliers = new CreditMultipliers(this.config.multipliers);
+        this.prose = new ProseTracker(this.config.prose);
+        this.gitCredits = new GitCreditSource(storageManager, this.filter, this.multipliers);
+        this.escrow = new DiagnosticsEscrow(this.config.diagnostics);
+        this.onPendingLinesChanged = this.escrow.onDidChange;
         this.setupListeners();
+        this.seedOpenDocuments();
+        this.applyCreditSource();
     }
 
     // ========================================
@@ -73,7 +190,83 @@ export class CodeTracker {
             this.handleDocumentSave.bind(this)
         );
 
-        this.disposables.push(changeDisposable, saveDisposable);
+        // Listen for document opens so the first edit has a baseline
+        const openDisposable = vscode.workspace.onDidOpenTextDocument(
+            this.handleDocumentOpen.bind(this)
+        );
+
+        // Listen for document closes so queued changes are not lost
+        const closeDisposable = vscode.workspace.onDidCloseTextDocument(
+            this.handleDocumentClose.bind(this)
+        );
+
+        // Commit credit goes out through the same event as keystroke credit
+        const gitCreditDisposable = this.gitCredits.onCredit(change => {
+            this.onCodeWrittenEmitter.fire(change);
+        });
+
+        // Held credit is paid out once its lines are error free
+        const releaseDisposable = this.escrow.onRelease(change => {
+            this.onCodeWrittenEmitter.fire(change);
+        });
+
+        // Notebook cells are tracked through their notebook, which knows each cell's kind
+        const notebookChangeDisposable = vscode.workspace.onDidChangeNotebookDocument(
+            this.handleNotebookChange.bind(this)
+        );
+        const notebookOpenDisposable = vscode.workspace.onDidOpenNotebookDocument(
+            this.handleNotebookOpen.bind(this)
+        );
+        const notebookCloseDisposable = vscode.workspace.onDidCloseNotebookDocument(
+            this.handleNotebookClose.bind(this)
+        );
+
+        this.disposables.push(
+            changeDisposable,
+            saveDisposable,
+            openDisposable,
+            closeDisposable,
+            gitCreditDisposable,
+            releaseDisposable,
+            notebookChangeDisposable,
+            notebookOpenDisposable,
+            notebookCloseDisposable
+        );
+
+        // Watch for checkouts and pulls, which reload documents from disk
+        getGitApi().then(api => {
+            if (api) {
+                this.disposables.push(watchRepositories(api, {
+                    onDidChangeHead: repository => this.handleHeadChange(repository)
+                }));
+            }
+        });
+    }
+
+    /**
+     * Takes a baseline of every document already open when the tracker starts
+     * 
+     * @private
+     */
+    private seedOpenDocuments(): void {
+        const documents = new Set<vscode.TextDocument>(vscode.workspace.textDocuments);
+        vscode.window.visibleTextEditors.forEach(editor => documents.add(editor.document));
+
+        documents.forEach(document => this.handleDocumentOpen(document));
+        vscode.workspace.notebookDocuments.forEach(notebook => this.handleNotebookOpen(notebook));
+    }
+
+    /**
+     * Starts or stops reading commits to match the configured credit source
+     * 
+     * @private
+     */
+    private applyCreditSource(): void {
+        if (this.config.creditSource === 'git') {
+            this.gitCredits.start();
+        } else {
+            this.gitCredits.stop();
+        }
     }
 
     // ========================================
@@ -100,19 +293,123 @@ export class CodeTracker {
             return;
         }
 
+        // Cells are tracked through their notebook, which knows each cell's kind
+        if (event.document.uri.scheme === NOTEBOOK_CELL_SCHEME) {
+            this.handleCellChange(event);
+            return;
+        }
+
         // Check if we should track this file type
         if (!this.shouldTrackDocument(event.document)) {
             return;
         }
 
-        // Debounce to avoid counting rapid typing as multiple lines
-        if (this.debounceTimer) {
-            clearTimeout(this.debounceTimer);
+        const key = event.document.uri.toString();
+
+        // Keep held lines pointing at the same text
+        this.escrow.shift(key, event.contentChanges);
+
+        // Reloads from disk (checkouts, pulls, external formatters) are not typing
+        if (this.isExternalChange(event)) {
+            this.rebaseline(key, event.document);
+            return;
         }
 
-        this.debounceTimer = setTimeout(() => {
-            this.processDocumentChange(event.document);
+        // Warm the git ignore cache before the debounce fires
+        this.filter.refreshGitIgnore(event.document);
+
+        this.queueChange(key, event.document, event.contentChanges, isUndoRedo(event));
+    }
+
+    /**
+     * Handles changes to a notebook cell's text
+     * Cells of untracked notebooks were never seeded and are ignored
+     * 
+     * @param event - Cell document change event
+     * @private
+     */
+    private handleCellChange(event: vscode.TextDocumentChangeEvent): void {
+        const key = event.document.uri.toString();
+
+        // Keep held lines pointing at the same text
+        this.escrow.shift(key, event.contentChanges);
+
+        // Typing always leaves the notebook dirty; reloads are re-baselined by
+        // the notebook's change event
+        const notebook = this.cellNotebooks.get(key);
+        if (!notebook?.isDirty) {
+            return;
+        }
+
+        this.queueChange(key, event.document, event.contentChanges, isUndoRedo(event));
+    }
+
+    /**
+     * Queues changes to a document and restarts its debounce timer
+     * 
+     * @param key - Document URI string
+     * @param document - Changed document
+     * @param changes - Content changes, empty if unknown
+     * @param undoRedo - Whether the changes only undid or redid earlier edits
+     * @private
+     */
+    private queueChange(
+        key: string,
+        document: vscode.TextDocument,
+        changes: readonly vscode.TextDocumentContentChangeEvent[],
+        undoRedo: boolean
+    ): void {
+        const timer = setTimeout(() => {
+            this.flushDocument(key);
         }, this.config.debounceTime);
+
+        let pending = this.pendingChanges.get(key);
+        if (pending) {
+            clearTimeout(pending.timer);
+            pending.document = document;
+            pending.changes.push(...changes);
+            pending.timer = timer;
+            pending.undoRedo = pending.undoRedo && undoRedo;
+        } else {
+            pending = {
+                document,
+                changes: [...changes],
+                timer,
+                undoRedo
+            };
+            this.pendingChanges.set(key, pending);
+        }
+
+        // Capture the clipboard now so pastes can be recognised at flush time
+        if (changes.some(change => change.text.includes('\n'))) {
+            const entry = pending;
+            vscode.env.clipboard.readText().then(
+                text => { entry.clipboardText = text; },
+                () => { entry.clipboardText = undefined; }
+            );
+        }
+    }
+
+    /**
+     * Handles document open events
+     * Records the opened text as the baseline later edits are diffed against
+     * 
+     * @param document - Opened document
+     * @private
+     */
+    private handleDocumentOpen(document: vscode.TextDocument): void {
+        if (document.isUntitled || !this.shouldTrackDocument(document)) {
+            return;
+        }
+
+        const key = document.uri.toString();
+        if (!this.snapshots.has(key)) {
+            const text = document.getText();
+            const snapshot = createSnapshot(text, this.getSyntaxId(document));
+            this.snapshots.put(key, snapshot);
+            this.marks.advance(key, snapshot, true);
+            this.seedProse(key, document, text);
+        }
     }
 
     /**
@@ -128,14 +425,267 @@ export class CodeTracker {
             return;
         }
 
-        // Cancel any pending debounced change
-        if (this.debounceTimer) {
-            clearTimeout(this.debounceTimer);
-            this.debounceTimer = null;
+        // Process the final saved state, including anything still queued
+        this.flushDocument(document.uri.toString(), document);
+    }
+
+    /**
+     * Handles document close events
+     * Flushes queued changes immediately instead of waiting for the timer,
+     * then forgets the document's baseline
+     * 
+     * @param document - Closed document
+     * @private
+     */
+    private handleDocumentClose(document: vscode.TextDocument): void {
+        const key = document.uri.toString();
+
+        if (this.pendingChanges.has(key)) {
+            this.flushDocument(key);
+        }
+
+        this.snapshots.delete(key);
+        this.prose.delete(key);
+        this.filter.forget(key);
+        this.escrow.settle(key);
+    }
+
+    /**
+     * Handles notebook open events
+     * Records every cell as a baseline and remembers which cells are markdown
+     * 
+     * @param notebook - Opened notebook
+     * @private
+     */
+    private handleNotebookOpen(notebook: vscode.NotebookDocument): void {
+        if (!this.shouldTrackNotebook(notebook)) {
+            return;
+        }
+
+        notebook.getCells().forEach(cell => this.seedCell(cell));
+    }
+
+    /**
+     * Handles notebook change events
+     * Only cell text counts; outputs, metadata and execution counts are ignored,
+     * and edits to the text are queued by the cell's own change event
+     * 
+     * @param event - Notebook change event
+     * @private
+     */
+    private handleNotebookChange(event: vscode.NotebookDocumentChangeEvent): void {
+        if (!this.shouldTrackNotebook(event.notebook)) {
+            return;
+        }
+
+        // Added cells start as a baseline, so pasted or duplicated cells are not typing
+        for (const change of event.contentChanges) {
+            change.removedCells.forEach(cell => this.forgetCell(cell));
+            change.addedCells.forEach(cell => this.seedCell(cell));
+        }
+
+        for (const cellChange of event.cellChanges) {
+            const document = cellChange.document;
+            if (!document) {
+                continue;
+            }
+
+            // Typing always leaves the notebook dirty; a clean notebook was reloaded
+            if (!event.notebook.isDirty) {
+                this.rebaseline(document.uri.toString(), document);
+            }
+        }
+    }
+
+    /**
+     * Handles notebook close events
+     * 
+     * @param notebook - Closed notebook
+     * @private
+     */
+    private handleNotebookClose(notebook: vscode.NotebookDocument): void {
+        // Cells are seeded again as a baseline when the notebook reopens
+        notebook.getCells().forEach(cell => {
+            this.forgetCell(cell);
+            this.marks.delete(cell.document.uri.toString());
+            this.prose.delete(cell.document.uri.toString());
+        });
+    }
+
+    /**
+     * Records a notebook cell's text as its baseline
+     * 
+     * @param cell - Notebook cell
+     * @private
+     */
+    private seedCell(cell: vscode.NotebookCell): void {
+        const key = cell.document.uri.toString();
+
+        this.cellNotebooks.set(key, cell.notebook);
+
+        if (cell.kind === vscode.NotebookCellKind.Markup) {
+            this.markupCells.add(key);
+        } else {
+            this.markupCells.delete(key);
+        }
+
+        this.rebaseline(key, cell.document);
+    }
+
+    /**
+     * Flushes a notebook cell's queued changes and forgets it
+     * 
+     * @param cell - Removed or closed notebook cell
+     * @private
+     */
+    private forgetCell(cell: vscode.NotebookCell): void {
+        this.handleDocumentClose(cell.document);
+        this.markupCells.delete(cell.document.uri.toString());
+        this.cellNotebooks.delete(cell.document.uri.toString());
+    }
+
+    /**
+     * Handles a repository HEAD moving to another commit
+     * Credits typing queued so far before git rewrites any files, and reads
+     * the new HEAD text of dirty documents so reloads can be recognised
+     * 
+     * @param repository - Repository whose HEAD moved
+     * @private
+     */
+    private async handleHeadChange(repository?: GitRepository): Promise<void> {
+        this.lastHeadChange = Date.now();
+        this.headTexts.clear();
+
+        for (const key of Array.from(this.pendingChanges.keys())) {
+            this.flushDocument(key);
+        }
+
+        if (!repository) {
+            return;
+        }
+
+        const root = repository.rootUri.fsPath;
+        const documents = vscode.workspace.textDocuments.filter(document =>
+            document.isDirty
+            && document.uri.scheme === 'file'
+            && document.uri.fsPath.startsWith(root)
+            && this.snapshots.has(document.uri.toString())
+        );
+
+        await Promise.all(documents.map(async document => {
+            try {
+                this.headTexts.set(document.uri.toString(), await repository.show('HEAD', document.uri.fsPath));
+            } catch {
+                // The file is new or was deleted at HEAD
+            }
+        }));
+    }
+
+    /**
+     * Decides whether a change was made outside the editor and only reloaded here
+     * 
+     * @param event - Document change event
+     * @returns True if the change should never earn credit
+     * @private
+     */
+    private isExternalChange(event: vscode.TextDocumentChangeEvent): boolean {
+        // Undo and redo are user actions, even when they return to the saved text
+        if (event.reason !== undefined) {
+            return false;
+        }
+
+        // Typing always leaves the document dirty; a clean document matches disk
+        if (!event.document.isDirty) {
+            return true;
+        }
+
+        if (Date.now() - this.lastHeadChange >= HEAD_CHANGE_WINDOW) {
+            this.headTexts.clear();
+            return false;
+        }
+
+        // Right after a commit or checkout, only text git wrote is a reload
+        const text = event.document.getText();
+        return text === this.headTexts.get(event.document.uri.toString())
+            || text === readDiskText(event.document.uri);
+    }
+
+    /**
+     * Takes a document's current text as the new baseline
+     * Queued changes are dropped: the document already holds the reloaded
+     * text, so flushing them would credit the reload. Typing never survives a
+     * reload unsaved, saves flush it, and HEAD moves flush it before the reload
+     * 
+     * @param key - Document URI string
+     * @param document - Document to re-baseline
+     * @private
+     */
+    private rebaseline(key: string, document: vscode.TextDocument): void {
+        const pending = this.pendingChanges.get(key);
+        if (pending) {
+            clearTimeout(pending.timer);
+            this.pendingChanges.delete(key);
+        }
+
+        const text = document.getText();
+        const snapshot = createSnapshot(text, this.getSyntaxId(document));
+        this.snapshots.put(key, snapshot);
+        this.marks.advance(key, snapshot, true);
+        this.seedProse(key, document, text);
+    }
+
+    /**
+     * Records a documentation file's prose as its baseline
+     * 
+     * @param key - Document URI string
+     * @param document - Document being baselined
+     * @param text - Document text
+     * @private
+     */
+    private seedProse(key: string, document: vscode.TextDocument, text: string): void {
+        if (this.isProse(key, document)) {
+            this.prose.seed(key, text);
+        }
+    }
+
+    /**
+     * Whether a document is credited for prose rather than lines
+     * 
+     * @param key - Document URI string
+     * @param document - Document to check
+     * @returns True for documentation files in documentation mode and notebook markdown cells
+     * @private
+     */
+    private isProse(key: string, document: vscode.TextDocument): boolean {
+        return this.markupCells.has(key) || this.prose.handles(document.fileName);
+    }
+
+    /**
+     * Processes all queued changes for a document and clears its timer
+     * 
+     * @param key - Document URI string
+     * @param document - Document to process when nothing is queued
+     * @private
+     */
+    private flushDocument(key: string, document?: vscode.TextDocument): void {
+        const pending = this.pendingChanges.get(key);
+
+        if (pending) {
+            clearTimeout(pending.timer);
+            this.pendingChanges.delete(key);
+        }
+
+        const target = pending?.document ?? document;
+        if (!target) {
+            return;
         }
 
-        // Process the final saved state
-        this.processDocumentChange(document);
+        this.processDocumentChange(
+            target,
+            pending?.changes ?? [],
+            pending?.clipboardText,
+            pending?.undoRedo ?? false
+        );
     }
 
     // ========================================
@@ -146,34 +696,232 @@ export class CodeTracker {
      * Processes a document change to count meaningful lines
      * 
      * @param document - Changed document
+     * @param changes - Content changes queued since the last flush
+     * @param clipboardText - Clipboard contents captured with the changes
+     * @param undoRedo - Whether the changes only undid or redid earlier edits
      * @private
      */
-    private processDocumentChange(document: vscode.TextDocument): void {
-        const currentContent = document.getText();
-        const cachedContent = this.documentCache.get(document.uri.toString());
+    private processDocumentChange(
+        document: vscode.TextDocument,
+        changes: readonly vscode.TextDocumentContentChangeEvent[] = [],
+        clipboardText?: string,
+        undoRedo = false
+    ): void {
+        const key = document.uri.toString();
+        const previous = this.snapshots.get(key);
+        const syntaxId = this.getSyntaxId(document);
+        const text = document.getText();
+        const current = createSnapshot(text, syntaxId);
 
-        // If no cached content, this is the first time seeing this document
-        if (!cachedContent) {
-            this.documentCache.set(document.uri.toString(), currentContent);
+        // Update cache
+        this.snapshots.put(key, current);
+
+        // Documents are seeded on open, so this only happens if the open was missed
+        // or the snapshot was evicted
+        if (!previous) {
+            this.marks.advance(key, current, true);
+            this.seedProse(key, document, text);
             return;
         }
 
+        // The baseline was never paid for, so it starts the mark
+        if (!this.marks.has(key)) {
+            this.marks.advance(key, previous, true);
+        }
+
         // Calculate line changes
-        const change = this.calculateLineChanges(
-            cachedContent,
-            currentContent,
-            document.languageId
-        );
+        const hunks = diffLines(previous.hashes, current.hashes);
+        const change = this.compareSnapshots(previous, current, document.languageId, hunks);
+        const freshLines = this.marks.advance(key, current);
+        const deletedLines = this.marks.retire(key, current);
 
-        // Update cache
-        this.documentCache.set(document.uri.toString(), currentContent);
+        // In git mode, credit only arrives with commits
+        if (this.config.creditSource === 'git') {
+            return;
+        }
+
+        // Undo and redo only bring back text that was already there
+        if (undoRedo) {
+            return;
+        }
+
+        // Documentation files earn for the prose written instead of lines
+        if (this.isProse(key, document)) {
+            const proseChange = this.prose.measure(key, text, document.languageId);
+
+            // Pastes and snippets are limited by the prose they insert
+            if (changes.length > 0) {
+                this.applyInsertionPolicy(
+                    proseChange,
+                    this.classifier.classify(
+                        changes,
+                        syntaxId,
+                        clipboardText,
+                        inserted => this.prose.measureText(inserted)
+                    )
+                );
+                proseChange.credit = { added: proseChange.netChange, modified: 0, deleted: 0 };
+            }
+
+            if (proseChange.isMeaningful && proseChange.netChange > 0) {
+                this.emitChange(document, proseChange, hunks);
+            }
+            return;
+        }
+
+        const deletionCredit = this.applyDeletionPolicy(change, deletedLines);
+        const modificationCredit = this.applyModificationPolicy(change, deletedLines);
+
+        // Limit credit for pastes, snippets and completions
+        if (changes.length > 0) {
+            this.applyInsertionPolicy(
+                change,
+                this.classifier.classify(changes, syntaxId, clipboardText)
+            );
+        }
+
+        // Lines the document already held this session are not paid for again
+        this.applyHighWaterMark(change, freshLines);
+
+        // Deleted lines were never in the document's mark, so they are paid after it
+        change.netChange += deletionCredit;
 
         // Only emit if there's a meaningful change
-        if (change.isMeaningful && change.netChange > 0) {
+        if (!change.isMeaningful || change.netChange <= 0) {
+            return;
+        }
+
+        change.credit = this.describeCredit(change, deletionCredit, modificationCredit);
+        this.emitChange(document, change, hunks);
+    }
+
+    /**
+     * Applies the multipliers to a credited change and pays it out,
+     * or holds it until its lines are error free
+     * 
+     * @param document - Changed document
+     * @param change - Credited change
+     * @param hunks - Line diff of the change
+     * @private
+     */
+    private emitChange(document: vscode.TextDocument, change: CodeChange, hunks: DiffHunk[]): void {
+        this.multipliers.apply(change, document.fileName);
+
+        if (this.escrow.isEnabled()) {
+            this.escrow.hold(document.uri, change, getInsertedRanges(hunks));
+        } else {
             this.onCodeWrittenEmitter.fire(change);
         }
     }
 
+    /**
+     * Records the insertion classification on a change and withholds credit
+     * for lines the policies do not pay for
+     * 
+     * @param change - Change to adjust
+     * @param classification - Classification of the queued content changes
+     * @private
+     */
+    private applyInsertionPolicy(
+        change: CodeChange,
+        classification: ChangeClassification
+    ): void {
+        // Never withhold more than the change would have credited
+        const withheld = Math.min(
+            Math.max(0, change.netChange),
+            classification.withheldLines
+        );
+
+        change.netChange -= withheld;
+        change.classification = { ...classification, withheldLines: withheld };
+    }
+
+    /**
+     * Stops credited deletions from cancelling out new lines when deletions earn credit
+     * Only baseline lines deleted for the first time count
+     * 
+     * @param change - Change to adjust
+     * @param deletedLines - Baseline lines the change deleted for the first time
+     * @returns Weighted credit for the deleted lines, added once the other policies ran
+     * @private
+     */
+    private applyDeletionPolicy(change: CodeChange, deletedLines: number): number {
+        if (!this.config.unlock.creditDeletions) {
+            return 0;
+        }
+
+        // Lines rewritten in place are modifications, not deletions
+        const credited = Math.min(change.meaningfulLinesDeleted, deletedLines);
+        if (credited <= 0) {
+            return 0;
+        }
+
+        change.netChange += credited;
+        change.isMeaningful = true;
+
+        return credited * Math.max(0, this.config.unlock.deletedLineWeight);
+    }
+
+    /**
+     * Only pays for modifications that rewrite baseline lines, each line once
+     * Lines typed this session are rewritten on every flush while they are
+     * being written, so paying for those would credit one line many times
+     * 
+     * @param change - Change to adjust
+     * @param deletedLines - Baseline lines the change removed for the first time
+     * @returns Weighted credit for the modified lines that were paid for
+     * @private
+     */
+    private applyModificationPolicy(change: CodeChange, deletedLines: number): number {
+        const weight = this.config.unlock.modifiedLineWeight;
+        const modifiedLines = this.config.unlock.countMeaningfulLinesOnly
+            ? change.meaningfulLinesModified
+            : change.linesModified;
+
+        // Baseline lines that were deleted outright are not modifications
+        const rewritten = Math.max(0, deletedLines - change.meaningfulLinesDeleted);
+        const paid = Math.min(modifiedLines, rewritten);
+
+        change.netChange -= (modifiedLines - paid) * weight;
+        return paid * weight;
+    }
+
+    /**
+     * Splits a change's credit into added, modified and deleted lines
+     * Withheld credit comes out of added lines first, then modified lines
+     * 
+     * @param change - Change whose credit is final
+     * @param deletionCredit - Weighted credit for deleted lines
+     * @param modificationCredit - Weighted credit for modified lines
+     * @returns Credit per kind of edit
+     * @private
+     */
+    private describeCredit(
+        change: CodeChange,
+        deletionCredit: number,
+        modificationCredit: number
+    ): CreditBreakdown {
+        const deleted = Math.min(deletionCredit, change.netChange);
+        const modified = Math.min(modificationCredit, change.netChange - deleted);
+
+        return { added: change.netChange - deleted - modified, modified, deleted };
+    }
+
+    /**
+     * Withholds credit beyond the lines that are new to the document this session
+     * 
+     * @param change - Change to adjust
+     * @param freshLines - Meaningful lines above the document's high-water mark
+     * @private
+     */
+    private applyHighWaterMark(change: CodeChange, freshLines: number): void {
+        const repeated = Math.max(0, change.netChange - freshLines);
+        if (repeated > 0) {
+            change.netChange -= repeated;
+            change.repeatedLines = repeated;
+        }
+    }
+
     /**
      * Calculates the meaningful line changes between two versions of content
      * 
@@ -188,30 +936,72 @@ export class CodeTracker {
         newContent: string,
         languageId: string
     ): CodeChange {
-        const oldLines = oldContent.split('\n');
-        const newLines = newContent.split('\n');
-
-        // Count meaningful lines in each version
-        const oldMeaningfulCount = this.countMeaningfulLines(
-            oldLines,
-            languageId
-        );
-        const newMeaningfulCount = this.countMeaningfulLines(
-            newLines,
+        return this.compareSnapshots(
+            createSnapshot(oldContent, languageId),
+            createSnapshot(newContent, languageId),
             languageId
         );
+    }
+
+    /**
+     * Calculates the meaningful line changes between two document snapshots
+     * Uses a line diff so rewrites and delete-one-add-one edits are seen as
+     * modifications instead of cancelling out
+     * 
+     * @param previous - Snapshot of the previous version
+     * @param current - Snapshot of the current version
+     * @param languageId - Programming language identifier
+     * @param hunks - Line diff between the snapshots, computed if not given
+     * @returns CodeChange object with details about the change
+     * @private
+     */
+    private compareSnapshots(
+        previous: DocumentSnapshot,
+        current: DocumentSnapshot,
+        languageId: string,
+        hunks: DiffHunk[] = diffLines(previous.hashes, current.hashes)
+    ): CodeChange {
+        // Snapshots hash trimmed lines, so re-indenting never shows up in the hunks
+        // Flags come from lexing whole documents, so block comments spanning a hunk are detected
+        const oldFlags = previous.flags;
+        const newFlags = current.flags;
+
+        let linesAdded = 0;
+        let linesDeleted = 0;
+        let linesModified = 0;
+        let meaningfulLinesAdded = 0;
+        let meaningfulLinesDeleted = 0;
+        let meaningfulLinesModified = 0;
+
+        for (const hunk of hunks) {
+            // Within a hunk, removed lines paired with inserted lines are modifications
+            const modified = Math.min(hunk.oldCount, hunk.newCount);
+            linesModified += modified;
+            linesAdded += hunk.newCount - modified;
+            linesDeleted += hunk.oldCount - modified;
+
+            const meaningfulRemoved = countFlags(oldFlags, hunk.oldStart, hunk.oldCount);
+            const meaningfulInserted = countFlags(newFlags, hunk.newStart, hunk.newCount);
+            const meaningfulModified = Math.min(meaningfulRemoved, meaningfulInserted);
+            meaningfulLinesModified += meaningfulModified;
+            meaningfulLinesAdded += meaningfulInserted - meaningfulModified;
+            meaningfulLinesDeleted += meaningfulRemoved - meaningfulModified;
+        }
 
-        // Calculate changes
-        const netChange = newLines.length - oldLines.length;
-        const meaningfulNetChange = newMeaningfulCount - oldMeaningfulCount;
+        const modifiedWeight = this.config.unlock.modifiedLineWeight;
+        const netChange = this.config.unlock.countMeaningfulLinesOnly
+            ? meaningfulLinesAdded - meaningfulLinesDeleted + meaningfulLinesModified * modifiedWeight
+            : linesAdded - linesDeleted + linesModified * modifiedWeight;
 
         return {
-            linesAdded: Math.max(0, netChange),
-            linesDeleted: Math.max(0, -netChange),
-            netChange: this.config.unlock.countMeaningfulLinesOnly
-                ? meaningfulNetChange
-                : netChange,
-            isMeaningful: meaningfulNetChange > 0,
+            linesAdded,
+            linesDeleted,
+            linesModified,
+            meaningfulLinesAdded,
+            meaningfulLinesDeleted,
+            meaningfulLinesModified,
+            netChange,
+            isMeaningful: meaningfulLinesAdded + meaningfulLinesModified > 0,
             languageId,
             timestamp: Date.now()
         };
@@ -227,19 +1017,24 @@ export class CodeTracker {
      * @private
      */
     private countMeaningfulLines(lines: string[], languageId: string): number {
-        let count = 0;
-
-        for (const line of lines) {
-            if (this.isLineMeaningful(line.trim(), languageId)) {
-                count++;
-            }
-        }
+        return countFlags(this.getMeaningfulFlags(lines, languageId), 0, lines.length);
+    }
 
-        return count;
+    /**
+     * Lexes lines in order, carrying comment and string state between them
+     * 
+     * @param lines - Array of code lines
+     * @param languageId - Programming language identifier
+     * @returns Meaningful flag per line
+     * @private
+     */
+    private getMeaningfulFlags(lines: readonly string[], languageId: string): boolean[] {
+        return CommentLexer.forLanguage(languageId).scanLines(lines);
     }
 
     /**
      * Determines if a single line is meaningful (not comment/whitespace)
+     * The line is lexed on its own, with no surrounding block comment
      * 
      * @param line - Trimmed line of code
      * @param languageId - Programming language identifier
@@ -247,143 +1042,32 @@ export class CodeTracker {
      * @private
      */
     private isLineMeaningful(line: string, languageId: string): boolean {
-        // Empty lines are not meaningful
-        if (line.length === 0) {
-            return false;
-        }
-
-        // Single character lines are usually not meaningful (just braces, etc.)
-        if (line.length === 1 && /[{}\[\]();,]/.test(line)) {
-            return false;
-        }
-
-        // Check for comments based on language
-        const commentPatterns = this.getCommentPatterns(languageId);
-        for (const pattern of commentPatterns) {
-            if (pattern.test(line)) {
-                return false;
-            }
-        }
+        return CommentLexer.forLanguage(languageId).scanLine(line);
+    }
 
-        // Line passed all checks, it's meaningful
-        return true;
-    }
-
-    /**
-     * Map of language IDs to their comment regex patterns
-     */
-    private readonly commentPatternMap: Record<string, RegExp[]> = {
-        // ---------- C-style + JSDoc ----------
-        javascript: [
-            /^\/\/.*/,   // single-line
-            /^\/\*\*/,   // JSDoc block start
-            /^\/\*/,     // normal block start
-            /^\*/        // block / JSDoc continuation
-        ],
-        javascriptreact: [
-            /^\/\/.*/,
-            /^\/\*\*/,
-            /^\/\*/,
-            /^\*/
-        ],
-        typescript: [
-            /^\/\/.*/,
-            /^\/\*\*/,
-            /^\/\*/,
-            /^\*/
-        ],
-        typescriptreact: [
-            /^\/\/.*/,
-            /^\/\*\*/,
-            /^\/\*/,
-            /^\*/
-        ],
-        java: [
-            /^\/\/.*/,
-            /^\/\*\*/,
-            /^\/\*/,
-            /^\*/
-        ],
-        c: [/^\/\/.*/, /^\/\*/, /^\*/],
-        cpp: [/^\/\/.*/, /^\/\*/, /^\*/],
-        csharp: [/^\/\/.*/, /^\/\*/, /^\*/],
-        go: [/^\/\/.*/, /^\/\*/, /^\*/],
-        rust: [/^\/\/.*/, /^\/\*/, /^\*/],
-        php: [/^\/\/.*/, /^\/\*/, /^\*/],
-        swift: [/^\/\/.*/, /^\/\*/, /^\*/],
-        kotlin: [/^\/\/.*/, /^\/\*/, /^\*/],
-        scala: [/^\/\/.*/, /^\/\*/, /^\*/],
-        'objective-c': [/^\/\/.*/, /^\/\*/, /^\*/],
-        zig: [/^\/\/.*/, /^\/\*/, /^\*/],
-
-        // ---------- Hash-style ----------
-        python: [/^#.*/],
-        ruby: [/^#.*/],
-        shellscript: [/^#.*/],
-        bash: [/^#.*/],
-        zsh: [/^#.*/],
-        powershell: [/^#.*/],
-        makefile: [/^#.*/],
-        perl: [/^#.*/],
-        r: [/^#.*/],
-        julia: [/^#.*/],
-        yaml: [/^#.*/],
-        toml: [/^#.*/],
-
-        // ---------- HTML / XML ----------
-        html: [/^<!--/],
-        xml: [/^<!--/],
-        markdown: [/^<!--/],
-        mdx: [/^<!--/],
-        xhtml: [/^<!--/],
-        svg: [/^<!--/],
-
-        // ---------- CSS ----------
-        css: [/^\/\*/, /^\*/],
-        scss: [/^\/\*/, /^\*/],
-        sass: [/^\/\*/, /^\*/],
-        less: [/^\/\*/, /^\*/],
-        stylus: [/^\/\*/, /^\*/],
-        postcss: [/^\/\*/, /^\*/],
-
-        // ---------- Lua ----------
-        lua: [/^--/, /^--\[\[/],
-
-        // ---------- SQL ----------
-        sql: [/^--/, /^\/\*/],
-        mysql: [/^--/, /^\/\*/],
-        postgresql: [/^--/, /^\/\*/],
-        sqlite: [/^--/, /^\/\*/],
-
-        // ---------- Haskell / Elm ----------
-        haskell: [/^--/, /^{-/],
-        elm: [/^--/, /^{-/],
-
-        // ---------- Lisp family ----------
-        lisp: [/^;/],
-        scheme: [/^;/],
-        clojure: [/^;/],
-
-        // ---------- Assembly ----------
-        asm: [/^;/, /^#/],
-        assembly: [/^;/, /^#/],
-
-        // ---------- MATLAB / Octave ----------
-        matlab: [/^%/],
-        octave: [/^%/]
-    };
-
-    /**
-     * Gets regex patterns for comments in different languages
+    /**
+     * Picks the language profile used to lex a document
+     * Falls back to the file extension when the editor does not know the language
      * 
-     * @param languageId - Programming language identifier
-     * @returns Array of regex patterns matching comments
+     * @param document - Document to lex
+     * @returns Language profile ID, or the document's language ID if none matches
      * @private
      */
-    private getCommentPatterns(languageId: string): RegExp[] {
-        return this.commentPatternMap[languageId] ?? [];
+    private getSyntaxId(document: vscode.TextDocument): string {
+        return languageProfiles.resolve(document.languageId, document.fileName)?.id
+            ?? document.languageId;
     }
 
+    /**
+     * Determines if a notebook's cells should be tracked based on config
+     * 
+     * @param notebook - Notebook to check
+     * @returns True if the notebook file passes the path-based tracking rules
+     * @private
+     */
+    private shouldTrackNotebook(notebook: vscode.NotebookDocument): boolean {
+        return !notebook.isUntitled && this.filter.evaluateFile(notebook.uri).tracked;
+    }
 
     /**
      * Determines if a document should be tracked based on config
@@ -393,16 +1077,7 @@ export class CodeTracker {
      * @private
      */
     private shouldTrackDocument(document: vscode.TextDocument): boolean {
-        // Always track if trackAllFiles is enabled
-        if (this.config.trackAllFiles) {
-            return true;
-        }
-
-        // Check if file extension is in tracked list
-        const fileName = document.fileName;
-        return this.config.trackedExtensions.some(ext =>
-            fileName.endsWith(ext)
-        );
+        return this.filter.evaluate(document).tracked;
     }
 
     // ========================================
@@ -416,6 +1091,25 @@ export class CodeTracker {
      */
     updateConfig(config: ExtensionConfig): void {
         this.config = config;
+        languageProfiles.configure(config.languageProfiles);
+        this.classifier.updateConfig(config.insertion);
+        this.filter.updateConfig(config);
+        this.multipliers.updateConfig(config.multipliers);
+        this.prose.updateConfig(config.prose);
+        this.snapshots.setBudget(config.snapshotBudgetBytes);
+        this.marks.setBudget(config.snapshotBudgetBytes);
+        this.escrow.updateConfig(config.diagnostics);
+        this.applyCreditSource();
+    }
+
+    /**
+     * Explains whether a document is tracked and why
+     * 
+     * @param document - Document to check
+     * @returns Tracking decision with its reason
+     */
+    explainTracking(document: vscode.TextDocument): Promise<TrackingDecision> {
+        return this.filter.explain(document);
     }
 
     /**
@@ -424,7 +1118,43 @@ export class CodeTracker {
      * @returns Number of documents being tracked
      */
     getTrackedDocumentCount(): number {
-        return this.documentCache.size;
+        return this.snapshots.size;
+    }
+
+    /**
+     * Reports how much memory the document snapshots use
+     * 
+     * @returns Snapshot memory statistics
+     */
+    getSnapshotStats(): SnapshotStats {
+        return this.snapshots.getStats();
+    }
+
+    /**
+     * Reports how much memory the high-water marks use
+     * 
+     * @returns High-water mark memory statistics
+     */
+    getHighWaterMarkStats(): HighWaterMarkStats {
+        return this.marks.getStats();
+    }
+
+    /**
+     * Gets the number of lines waiting for their errors to be fixed
+     * 
+     * @returns Held line credit
+     */
+    getPendingLines(): number {
+        return this.escrow.getPendingLines();
+    }
+
+    /**
+     * Gets the number of documents with changes waiting to be processed
+     * 
+     * @returns Number of documents with a pending debounce
+     */
+    getPendingDocumentCount(): number {
+        return this.pendingChanges.size;
     }
 
     /**
@@ -432,7 +1162,9 @@ export class CodeTracker {
      * Useful for testing or resetting state
      */
     clearCache(): void {
-        this.documentCache.clear();
+        this.snapshots.clear();
+        this.marks.clear();
+        this.prose.clear();
     }
 
     /**
@@ -451,12 +1183,16 @@ export class CodeTracker {
         const lines = content.split('\n');
         const meaningfulCount = this.countMeaningfulLines(
             lines,
-            document.languageId
+            this.getSyntaxId(document)
         );
 
         return {
             linesAdded: meaningfulCount,
             linesDeleted: 0,
+            linesModified: 0,
+            meaningfulLinesAdded: meaningfulCount,
+            meaningfulLinesDeleted: 0,
+            meaningfulLinesModified: 0,
             netChange: meaningfulCount,
             isMeaningful: meaningfulCount > 0,
             languageId: document.languageId,
@@ -473,19 +1209,85 @@ export class CodeTracker {
      * Call when extension is deactivated
      */
     dispose(): void {
-        // Clear debounce timer
-        if (this.debounceTimer) {
-            clearTimeout(this.debounceTimer);
+        // Clear debounce timers
+        for (const pending of this.pendingChanges.values()) {
+            clearTimeout(pending.timer);
         }
+        this.pendingChanges.clear();
 
         // Dispose all event listeners
         this.disposables.forEach(d => d.dispose());
         this.disposables = [];
+        this.gitCredits.dispose();
+        this.escrow.dispose();
 
         // Clear cache
-        this.documentCache.clear();
+        this.snapshots.clear();
+        this.marks.clear();
+        this.prose.clear();
+        this.markupCells.clear();
+        this.cellNotebooks.clear();
 
         // Dispose event emitter
         this.onCodeWrittenEmitter.dispose();
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Collects the lines a diff inserted into the new version
+ * 
+ * @param hunks - Line diff between two versions
+ * @returns Inserted line ranges in the new version
+ */
+function getInsertedRanges(hunks: DiffHunk[]): LineRange[] {
+    return hunks
+        .filter(hunk => hunk.newCount > 0)
+        .map(hunk => ({ start: hunk.newStart, end: hunk.newStart + hunk.newCount }));
+}
+
+/**
+ * Whether a change event came from undo or redo
+ * 
+ * @param event - Document change event
+ * @returns True for undo and redo
+ */
+function isUndoRedo(event: vscode.TextDocumentChangeEvent): boolean {
+    return event.reason === vscode.TextDocumentChangeReason.Undo
+        || event.reason === vscode.TextDocumentChangeReason.Redo;
+}
+
+/**
+ * Reads a file's text from disk the way the editor would show it
+ * 
+ * @param uri - File to read
+ * @returns File text without a byte order mark, or undefined if it cannot be read
+ */
+function readDiskText(uri: vscode.Uri): string | undefined {
+    if (uri.scheme !== 'file') {
+        return undefined;
+    }
+
+    try {
+        return fs.readFileSync(uri.fsPath, 'utf8').replace(/^\uFEFF/, '');
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Counts the true flags in a range
+ * 
+ * @param flags - Meaningful flag per line
+ * @param start - First index to count
+ * @param count - Number of flags to count
+ * @returns Number of meaningful lines in the range
+ */
+function countFlags(flags: ArrayLike<boolean | number>, start: number, count: number): number {
+    let total = 0;
+    for (let i = start; i < start + count; i++) {
+        if (flags[i]) {
+            total++;
+        }
+    }
+    return total;
+}
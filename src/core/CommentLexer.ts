@@ -0,0 +1,361 @@
+/**
+ * CommentLexer.ts
+ *
+ * Small comment- and string-aware lexer used to decide which lines contain
+ * meaningful code. Carries block comment and multi-line string state across
+ * lines so comment bodies, docstrings and similar blocks are never counted.
+ * Per-language syntax comes from the LanguageProfiles registry.
+ */
+
+import { languageProfiles } from './LanguageProfiles';
+
+/**
+ * A block comment delimiter pair (e.g. slash-star ... star-slash)
+ */
+export interface BlockCommentDelimiter {
+    /** Token that opens the comment */
+    open: string;
+
+    /** Token that closes the comment */
+    close: string;
+
+    /** Whether comments of this kind can nest (e.g. Haskell, Rust) */
+    nested?: boolean;
+}
+
+/**
+ * A string literal delimiter pair
+ */
+export interface StringDelimiter {
+    /** Token that opens the string */
+    open: string;
+
+    /** Token that closes the string */
+    close: string;
+
+    /** Whether the string may span multiple lines */
+    multiline?: boolean;
+
+    /** Whether a backslash escapes the next character */
+    escapes?: boolean;
+}
+
+/**
+ * Comment and string syntax for a language
+ */
+export interface CommentSyntax {
+    /** Tokens that start a comment running to the end of the line */
+    lineComments: string[];
+
+    /** Block comment delimiters */
+    blockComments: BlockCommentDelimiter[];
+
+    /** String literal delimiters */
+    strings: StringDelimiter[];
+
+    /** String delimiters treated as comments when they open a line (e.g. Python docstrings) */
+    docStrings?: string[];
+
+    /** Trimmed lines matching these outside any block are not meaningful */
+    trivialLinePatterns?: RegExp[];
+}
+
+/**
+ * State carried from one line to the next
+ */
+interface LexerState {
+    /** Open block comment, if any */
+    block: { delimiter: BlockCommentDelimiter; depth: number } | null;
+
+    /** Open multi-line string, if any */
+    string: { delimiter: StringDelimiter; isDocString: boolean } | null;
+}
+
+/**
+ * Candidate token at the current scan position
+ */
+type Token =
+    | { kind: 'line'; text: string }
+    | { kind: 'block'; text: string; delimiter: BlockCommentDelimiter }
+    | { kind: 'string'; text: string; delimiter: StringDelimiter; isDocString: boolean };
+
+/**
+ * Gets the comment syntax for a language
+ *
+ * @param languageId - Programming language identifier
+ * @param filePath - File path, used when the language has no profile
+ * @returns Comment syntax, or undefined if the language is unknown
+ */
+export function getCommentSyntax(languageId: string, filePath?: string): CommentSyntax | undefined {
+    return languageProfiles.resolve(languageId, filePath);
+}
+
+// ========================================
+// LEXER
+// ========================================
+
+/**
+ * Scans lines one at a time, remembering open block comments and
+ * multi-line strings between calls
+ */
+export class CommentLexer {
+    /**
+     * Candidate tokens, longest first so e.g. "--[[" wins over "--"
+     */
+    private tokens: Token[];
+
+    /**
+     * State carried over from the previous line
+     */
+    private state: LexerState = { block: null, string: null };
+
+    /**
+     * Creates a new lexer
+     *
+     * @param syntax - Comment syntax of the language (undefined for plain text)
+     */
+    constructor(private syntax: CommentSyntax | undefined) {
+        this.tokens = CommentLexer.buildTokens(syntax);
+    }
+
+    /**
+     * Creates a lexer for a language ID
+     *
+     * @param languageId - Programming language identifier
+     * @param filePath - File path, used when the language has no profile
+     * @returns Lexer using that language's syntax
+     */
+    static forLanguage(languageId: string, filePath?: string): CommentLexer {
+        return new CommentLexer(getCommentSyntax(languageId, filePath));
+    }
+
+    /**
+     * Resets the lexer to the start-of-file state
+     */
+    reset(): void {
+        this.state = { block: null, string: null };
+    }
+
+    /**
+     * Scans a single line and reports whether it contains meaningful code
+     *
+     * @param line - Line of text (with or without indentation)
+     * @returns True if the line has code outside comments and whitespace
+     */
+    scanLine(line: string): boolean {
+        const trimmed = line.trim();
+
+        // Continuation lines like " * text" only make sense inside a comment
+        if (!this.state.block && !this.state.string) {
+            const patterns = this.syntax?.trivialLinePatterns ?? [];
+            if (patterns.some(pattern => pattern.test(trimmed))) {
+                return false;
+            }
+        }
+
+        let code = '';
+        let i = 0;
+
+        while (i < trimmed.length) {
+            if (this.state.block) {
+                i = this.skipBlockComment(trimmed, i);
+                continue;
+            }
+
+            if (this.state.string) {
+                const start = i;
+                const isDocString = this.state.string.isDocString;
+                i = this.skipString(trimmed, i);
+
+                // String content is code, docstring content is documentation
+                if (!isDocString) {
+                    code += trimmed.slice(start, i);
+                }
+                continue;
+            }
+
+            const token = this.matchToken(trimmed, i, code);
+
+            if (!token) {
+                code += trimmed[i];
+                i++;
+                continue;
+            }
+
+            i += token.text.length;
+
+            if (token.kind === 'line') {
+                break;
+            }
+
+            if (token.kind === 'block') {
+                this.state.block = { delimiter: token.delimiter, depth: 1 };
+                continue;
+            }
+
+            this.state.string = { delimiter: token.delimiter, isDocString: token.isDocString };
+            if (!token.isDocString) {
+                code += token.text;
+            }
+        }
+
+        // Single-line strings end with the line even if unterminated
+        if (this.state.string && !this.state.string.delimiter.multiline) {
+            this.state.string = null;
+        }
+
+        return CommentLexer.isMeaningfulCode(code.trim());
+    }
+
+    /**
+     * Scans several lines in order
+     *
+     * @param lines - Lines of text
+     * @returns Meaningful flag per line
+     */
+    scanLines(lines: readonly string[]): boolean[] {
+        return lines.map(line => this.scanLine(line));
+    }
+
+    // ========================================
+    // SCANNING HELPERS
+    // ========================================
+
+    /**
+     * Advances through an open block comment
+     *
+     * @param text - Line being scanned
+     * @param from - Position to resume from
+     * @returns Position after the consumed text
+     * @private
+     */
+    private skipBlockComment(text: string, from: number): number {
+        const block = this.state.block!;
+        const { open, close, nested } = block.delimiter;
+
+        let i = from;
+        while (i < text.length) {
+            if (text.startsWith(close, i)) {
+                block.depth--;
+                i += close.length;
+                if (block.depth === 0) {
+                    this.state.block = null;
+                    return i;
+                }
+            } else if (nested && text.startsWith(open, i)) {
+                block.depth++;
+                i += open.length;
+            } else {
+                i++;
+            }
+        }
+
+        return i;
+    }
+
+    /**
+     * Advances through an open string literal
+     *
+     * @param text - Line being scanned
+     * @param from - Position to resume from
+     * @returns Position after the consumed text
+     * @private
+     */
+    private skipString(text: string, from: number): number {
+        const { close, escapes } = this.state.string!.delimiter;
+
+        let i = from;
+        while (i < text.length) {
+            if (escapes && text[i] === '\\') {
+                i += 2;
+            } else if (text.startsWith(close, i)) {
+                this.state.string = null;
+                return i + close.length;
+            } else {
+                i++;
+            }
+        }
+
+        return text.length;
+    }
+
+    /**
+     * Finds the comment or string token starting at a position
+     *
+     * @param text - Line being scanned
+     * @param index - Position to test
+     * @param codeSoFar - Code already seen on this line
+     * @returns Matching token or null
+     * @private
+     */
+    private matchToken(text: string, index: number, codeSoFar: string): Token | null {
+        for (const token of this.tokens) {
+            if (!text.startsWith(token.text, index)) {
+                continue;
+            }
+
+            if (token.kind === 'string') {
+                // Docstrings only count when they start a statement line
+                const isDocString = token.isDocString && codeSoFar.trim().length === 0;
+                return { ...token, isDocString };
+            }
+
+            return token;
+        }
+
+        return null;
+    }
+
+    /**
+     * Builds the list of candidate tokens for a syntax, longest first
+     *
+     * @param syntax - Comment syntax of the language
+     * @returns Sorted tokens
+     * @private
+     */
+    private static buildTokens(syntax: CommentSyntax | undefined): Token[] {
+        if (!syntax) {
+            return [];
+        }
+
+        const docStrings = new Set(syntax.docStrings ?? []);
+        const tokens: Token[] = [
+            ...syntax.blockComments.map(delimiter => ({
+                kind: 'block' as const,
+                text: delimiter.open,
+                delimiter
+            })),
+            ...syntax.lineComments.map(text => ({ kind: 'line' as const, text })),
+            ...syntax.strings.map(delimiter => ({
+                kind: 'string' as const,
+                text: delimiter.open,
+                delimiter,
+                isDocString: docStrings.has(delimiter.open)
+            }))
+        ];
+
+        // Stable sort keeps block comments ahead of line comments of equal length
+        return tokens.sort((a, b) => b.text.length - a.text.length);
+    }
+
+    /**
+     * Decides whether the code left on a line is meaningful
+     *
+     * @param code - Trimmed code with comments removed
+     * @returns True if meaningful
+     * @private
+     */
+    private static isMeaningfulCode(code: string): boolean {
+        // Empty lines are not meaningful
+        if (code.length === 0) {
+            return false;
+        }
+
+        // Single character lines are usually not meaningful (just braces, etc.)
+        if (code.length === 1 && /[{}\[\]();,]/.test(code)) {
+            return false;
+        }
+
+        return true;
+    }
+}
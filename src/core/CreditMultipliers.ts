@@ -0,0 +1,111 @@
+/**
+ * CreditMultipliers.ts
+ *
+ * Scales the credit of code changes by language and by file path, so that
+ * test code or difficult languages can pay more and data or docs less.
+ * The unscaled credit is kept on the change so stats can report both.
+ */
+
+import { CodeChange, CreditMultiplierConfig } from './types';
+import { globToRegExp } from './TrackingFilter';
+
+/**
+ * Applies the configured language and path multipliers to code changes
+ */
+export class CreditMultipliers {
+    /**
+     * Compiled path patterns, keyed by pattern
+     */
+    private globCache = new Map<string, RegExp>();
+
+    /**
+     * Creates a new CreditMultipliers instance
+     *
+     * @param config - Multiplier configuration
+     */
+    constructor(private config: CreditMultiplierConfig) { }
+
+    /**
+     * Updates the configuration
+     *
+     * @param config - New multiplier configuration
+     */
+    updateConfig(config: CreditMultiplierConfig): void {
+        this.config = config;
+    }
+
+    /**
+     * Gets the multiplier for a file
+     * The language multiplier and the first matching path multiplier are combined
+     *
+     * @param languageId - Language of the file
+     * @param filePath - File system path of the file
+     * @returns Credit multiplier (1 when nothing matches)
+     */
+    getMultiplier(languageId: string, filePath: string): number {
+        const languageMultiplier = this.config.languages[languageId] ?? 1;
+        return Math.max(0, languageMultiplier * this.getPathMultiplier(filePath));
+    }
+
+    /**
+     * Scales a change's credit by its file's multiplier
+     * Keeps the unscaled credit in rawNetChange
+     *
+     * @param change - Change to adjust
+     * @param filePath - File system path of the changed file
+     */
+    apply(change: CodeChange, filePath: string): void {
+        const multiplier = this.getMultiplier(change.languageId, filePath);
+
+        change.rawNetChange = change.netChange;
+        if (multiplier === 1) {
+            return;
+        }
+
+        change.multiplier = multiplier;
+        change.netChange *= multiplier;
+
+        if (change.credit) {
+            change.credit = {
+                added: change.credit.added * multiplier,
+                modified: change.credit.modified * multiplier,
+                deleted: change.credit.deleted * multiplier
+            };
+        }
+    }
+
+    /**
+     * Gets the multiplier of the first path pattern matching a file
+     *
+     * @param filePath - File system path of the file
+     * @returns Path multiplier (1 when no pattern matches)
+     * @private
+     */
+    private getPathMultiplier(filePath: string): number {
+        const patterns = Object.keys(this.config.paths);
+        if (patterns.length === 0) {
+            return 1;
+        }
+
+        const normalized = filePath.replace(/\\/g, '/');
+        const match = patterns.find(pattern => this.compileGlob(pattern).test(normalized));
+
+        return match !== undefined ? this.config.paths[match] : 1;
+    }
+
+    /**
+     * Compiles a glob into a regular expression, with caching
+     *
+     * @param glob - Glob pattern
+     * @returns Compiled expression
+     * @private
+     */
+    private compileGlob(glob: string): RegExp {
+        let compiled = this.globCache.get(glob);
+        if (!compiled) {
+            compiled = globToRegExp(glob);
+            this.globCache.set(glob, compiled);
+        }
+        return compiled;
+    }
+}
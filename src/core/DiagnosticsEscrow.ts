@@ -0,0 +1,374 @@
+/**
+ * DiagnosticsEscrow.ts
+ *
+ * Holds credited changes until the lines they added are free of errors.
+ * Each held change remembers the line ranges it inserted, which follow later
+ * edits, and is released once the language server reports no error-level
+ * diagnostics on those lines. Errors elsewhere in the file never hold credit.
+ */
+
+import * as vscode from 'vscode';
+import { CodeChange, DiagnosticsConfig } from './types';
+
+/**
+ * Half-open range of document lines [start, end)
+ */
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * A change waiting for its lines to be error free
+ */
+interface HeldChange {
+    /** Change to release */
+    change: CodeChange;
+
+    /** Lines the change inserted, in current document coordinates */
+    ranges: LineRange[];
+
+    /** When the change entered escrow */
+    heldAt: number;
+}
+
+/**
+ * Held changes for one document
+ */
+interface HeldDocument {
+    /** Document the changes were made in */
+    uri: vscode.Uri;
+
+    /** Changes in the order they were held */
+    changes: HeldChange[];
+
+    /** Timer for the next check once language servers have settled */
+    timer?: NodeJS.Timeout;
+}
+
+/**
+ * Escrow for credit from lines that may not compile yet
+ */
+export class DiagnosticsEscrow {
+    /**
+     * Held changes per document URI
+     */
+    private held = new Map<string, HeldDocument>();
+
+    /**
+     * Disposables for cleanup
+     */
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Event emitter for released changes
+     */
+    private onReleaseEmitter = new vscode.EventEmitter<CodeChange>();
+
+    /**
+     * Fires when a held change has no errors left and can be credited
+     */
+    public readonly onRelease = this.onReleaseEmitter.event;
+
+    /**
+     * Event emitter for changes to the held line count
+     */
+    private onDidChangeEmitter = new vscode.EventEmitter<number>();
+
+    /**
+     * Fires with the new pending line count whenever it changes
+     */
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    /**
+     * Creates a new DiagnosticsEscrow instance
+     *
+     * @param config - Diagnostics configuration
+     */
+    constructor(private config: DiagnosticsConfig) {
+        this.disposables.push(
+            vscode.languages.onDidChangeDiagnostics(this.handleDiagnosticsChange.bind(this))
+        );
+    }
+
+    // ========================================
+    // PUBLIC API
+    // ========================================
+
+    /**
+     * Whether credited changes should be held
+     *
+     * @returns True when holding until error free is enabled
+     */
+    isEnabled(): boolean {
+        return this.config.holdUntilErrorFree;
+    }
+
+    /**
+     * Updates the configuration
+     * Turning holding off releases everything still held
+     *
+     * @param config - New diagnostics configuration
+     */
+    updateConfig(config: DiagnosticsConfig): void {
+        this.config = config;
+
+        if (!config.holdUntilErrorFree) {
+            for (const key of [...this.held.keys()]) {
+                this.releaseAll(key);
+            }
+        }
+    }
+
+    /**
+     * Holds a credited change until its lines are error free
+     *
+     * @param uri - Document the change was made in
+     * @param change - Credited change
+     * @param ranges - Lines the change inserted
+     */
+    hold(uri: vscode.Uri, change: CodeChange, ranges: LineRange[]): void {
+        const key = uri.toString();
+        let document = this.held.get(key);
+        if (!document) {
+            document = { uri, changes: [] };
+            this.held.set(key, document);
+        }
+
+        document.changes.push({ change, ranges, heldAt: Date.now() });
+        this.scheduleCheck(key, document);
+        this.onDidChangeEmitter.fire(this.getPendingLines());
+    }
+
+    /**
+     * Moves held line ranges to follow edits made after they were held
+     *
+     * @param key - Document URI string
+     * @param changes - Content changes applied to the document
+     */
+    shift(key: string, changes: readonly vscode.TextDocumentContentChangeEvent[]): void {
+        const document = this.held.get(key);
+        if (!document) {
+            return;
+        }
+
+        for (const change of changes) {
+            const startLine = change.range.start.line;
+            const endLine = change.range.end.line;
+            const delta = countNewlines(change.text) - (endLine - startLine);
+
+            for (const held of document.changes) {
+                held.ranges = held.ranges.map(range => shiftRange(range, startLine, endLine, delta));
+            }
+        }
+    }
+
+    /**
+     * Settles a document that is closing
+     * Error-free changes are released and the rest are forfeited, since
+     * language servers drop the diagnostics of closed files
+     *
+     * @param key - Document URI string
+     */
+    settle(key: string): void {
+        const document = this.held.get(key);
+        if (!document) {
+            return;
+        }
+
+        this.check(key, true);
+        clearTimeout(document.timer);
+        this.held.delete(key);
+        this.onDidChangeEmitter.fire(this.getPendingLines());
+    }
+
+    /**
+     * Gets the number of lines waiting for their errors to be fixed
+     *
+     * @returns Held line credit across all documents
+     */
+    getPendingLines(): number {
+        let total = 0;
+        for (const document of this.held.values()) {
+            for (const held of document.changes) {
+                total += held.change.netChange;
+            }
+        }
+        return total;
+    }
+
+    // ========================================
+    // DIAGNOSTICS CHECKS
+    // ========================================
+
+    /**
+     * Re-checks held documents whose diagnostics changed
+     *
+     * @param event - Diagnostics change event
+     * @private
+     */
+    private handleDiagnosticsChange(event: vscode.DiagnosticChangeEvent): void {
+        for (const uri of event.uris) {
+            const key = uri.toString();
+            if (this.held.has(key)) {
+                this.check(key);
+            }
+        }
+    }
+
+    /**
+     * Checks a document once language servers have had time to report on its new lines
+     *
+     * @param key - Document URI string
+     * @param document - Held document
+     * @private
+     */
+    private scheduleCheck(key: string, document: HeldDocument): void {
+        clearTimeout(document.timer);
+        document.timer = setTimeout(() => this.check(key), this.config.settleTime);
+    }
+
+    /**
+     * Releases held changes whose lines have no errors
+     *
+     * @param key - Document URI string
+     * @param force - Check changes even if they were held too recently to be settled
+     * @private
+     */
+    private check(key: string, force = false): void {
+        const document = this.held.get(key);
+        if (!document) {
+            return;
+        }
+
+        const errors = this.readErrors(document.uri);
+        const settledBefore = Date.now() - this.config.settleTime;
+        const released: CodeChange[] = [];
+
+        document.changes = document.changes.filter(held => {
+            // Diagnostics for lines this new may still describe the text before them
+            if (!force && held.heldAt > settledBefore) {
+                return true;
+            }
+
+            if (errors.some(error => touches(error, held.ranges))) {
+                return true;
+            }
+
+            released.push(held.change);
+            return false;
+        });
+
+        if (document.changes.length === 0) {
+            clearTimeout(document.timer);
+            this.held.delete(key);
+        }
+
+        if (released.length > 0) {
+            released.forEach(change => this.onReleaseEmitter.fire(change));
+            this.onDidChangeEmitter.fire(this.getPendingLines());
+        }
+    }
+
+    /**
+     * Releases every change held for a document
+     *
+     * @param key - Document URI string
+     * @private
+     */
+    private releaseAll(key: string): void {
+        const document = this.held.get(key);
+        if (!document) {
+            return;
+        }
+
+        clearTimeout(document.timer);
+        this.held.delete(key);
+        document.changes.forEach(held => this.onReleaseEmitter.fire(held.change));
+        this.onDidChangeEmitter.fire(this.getPendingLines());
+    }
+
+    /**
+     * Reads the error-level diagnostics for a document
+     *
+     * @param uri - Document URI
+     * @returns Error diagnostics
+     * @private
+     */
+    private readErrors(uri: vscode.Uri): vscode.Diagnostic[] {
+        return vscode.languages.getDiagnostics(uri).filter(
+            diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Error
+        );
+    }
+
+    // ========================================
+    // CLEANUP
+    // ========================================
+
+    /**
+     * Disposes of all resources
+     * Changes still held are dropped
+     */
+    dispose(): void {
+        for (const document of this.held.values()) {
+            clearTimeout(document.timer);
+        }
+        this.held.clear();
+
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.onReleaseEmitter.dispose();
+        this.onDidChangeEmitter.dispose();
+    }
+}
+
+/**
+ * Whether a diagnostic lies on any of the given lines
+ *
+ * @param diagnostic - Diagnostic to test
+ * @param ranges - Line ranges
+ * @returns True if the diagnostic overlaps a range
+ */
+function touches(diagnostic: vscode.Diagnostic, ranges: LineRange[]): boolean {
+    return ranges.some(range =>
+        diagnostic.range.start.line < range.end && diagnostic.range.end.line >= range.start
+    );
+}
+
+/**
+ * Moves a line range to account for an edit
+ * Ranges below the edit move with it, ranges the edit touches grow or shrink with it
+ *
+ * @param range - Range to move
+ * @param startLine - First line the edit replaced
+ * @param endLine - Last line the edit replaced
+ * @param delta - Lines the edit added (negative when it removed lines)
+ * @returns Range in the edited document
+ */
+function shiftRange(range: LineRange, startLine: number, endLine: number, delta: number): LineRange {
+    if (range.start > endLine) {
+        return { start: range.start + delta, end: range.end + delta };
+    }
+
+    if (range.end <= startLine) {
+        return range;
+    }
+
+    return { start: range.start, end: Math.max(range.start + 1, range.end + delta) };
+}
+
+/**
+ * Counts line breaks in inserted text
+ *
+ * @param text - Inserted text
+ * @returns Number of line breaks
+ */
+function countNewlines(text: string): number {
+    let count = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) === 10) {
+            count++;
+        }
+    }
+    return count;
+}
@@ -8,15 +8,37 @@
 import * as vscode from 'vscode';
 import {
     IGame,
-    GameState,
     GlobalPlayState,
     PlayAttemptResult,
+    PlaySession,
+    PlayTransaction,
     GameEvent,
     CodeChange,
-    ExtensionConfig
+    ExtensionConfig,
+    ProblemCredit,
+    TaskReward
 } from './types';
 import { StorageManager } from './StorageManager';
 import { CodeTracker } from './CodeTracker';
+import { ProblemTracker } from './ProblemTracker';
+import { ActivityTracker } from './ActivityTracker';
+import { matchesTask, WaitingRoom, WaitingRoomChange } from './WaitingRoom';
+import { transactionBetween } from './PlayLedger';
+
+/**
+ * Shortest time between two rewards for the same task (milliseconds)
+ */
+const TASK_REWARD_COOLDOWN = 5 * 60 * 1000;
+
+/**
+ * Describes a number of plays
+ * 
+ * @param plays - Number of plays
+ * @returns e.g. "1 play" or "3 plays"
+ */
+function describePlays(plays: number): string {
+    return `${plays} ${plays === 1 ? 'play' : 'plays'}`;
+}
 
 /**
  * Manages all game-related logic and state
@@ -46,18 +68,50 @@ export class GameManager {
      */
     private config: ExtensionConfig;
 
+    /**
+     * Disposables for cleanup
+     */
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Exit code of each rewarded task's last run, by task key
+     */
+    private taskResults = new Map<string, number>();
+
+    /**
+     * When each task was last rewarded, by task key
+     */
+    private taskRewardedAt = new Map<string, number>();
+
+    /**
+     * Play sessions that have not ended yet, by session ID
+     */
+    private sessions = new Map<string, PlaySession>();
+
+    /**
+     * Sessions opened so far, used to keep session IDs unique
+     */
+    private sessionCount = 0;
+
     /**
      * Creates a new GameManager instance
      * 
      * @param storageManager - Storage manager for persistence
      * @param codeTracker - Code tracker for monitoring code changes
+     * @param problemTracker - Problem tracker for crediting fixed problems (optional)
+     * @param waitingRoom - Waiting room that makes plays free during builds (optional)
+     * @param activityTracker - Activity tracker measuring focused coding time (optional)
      */
     constructor(
         private storageManager: StorageManager,
-        private codeTracker: CodeTracker
+        private codeTracker: CodeTracker,
+        private problemTracker?: ProblemTracker,
+        private waitingRoom?: WaitingRoom,
+        private activityTracker?: ActivityTracker
     ) {
         this.config = storageManager.getConfig();
         this.setupCodeTracking();
+        this.setupTaskTracking();
     }
 
     // ========================================
@@ -74,6 +128,55 @@ export class GameManager {
         this.codeTracker.onCodeWritten(async (change: CodeChange) => {
             await this.handleCodeWritten(change);
         });
+
+        // Let the UI show lines held until their errors are fixed
+        this.codeTracker.onPendingLinesChanged(pendingLines => {
+            this.eventEmitter.fire({
+                event: GameEvent.CREDIT_PENDING,
+                gameId: '__global__',
+                data: { pendingLines }
+            });
+        });
+
+        // Fixing problems earns progress too
+        this.problemTracker?.onCredit(async (credit: ProblemCredit) => {
+            await this.handleProblemsFixed(credit);
+        });
+
+        // Focused minutes earn progress in time mode
+        if (this.activityTracker) {
+            this.disposables.push(
+                this.activityTracker.onActiveMinutes(async minutes => {
+                    await this.handleActiveMinutes(minutes);
+                })
+            );
+        }
+    }
+
+    /**
+     * Sets up task event handlers
+     * 
+     * @private
+     */
+    private setupTaskTracking(): void {
+        this.disposables.push(
+            vscode.tasks.onDidEndTaskProcess(async event => {
+                await this.handleTaskEnd(event);
+            })
+        );
+
+        // Let the UI know when free waiting room plays start and stop
+        if (this.waitingRoom) {
+            this.disposables.push(
+                this.waitingRoom.onDidChange((change: WaitingRoomChange) => {
+                    this.eventEmitter.fire({
+                        event: change.open ? GameEvent.WAITING_ROOM_OPENED : GameEvent.WAITING_ROOM_CLOSED,
+                        gameId: '__global__',
+                        data: change
+                    });
+                })
+            );
+        }
     }
 
     /**
@@ -108,14 +211,14 @@ export class GameManager {
     // ========================================
 
     /**
-     * Attempts to start a play session for a game
-     * Checks if games are unlocked and has plays remaining
-     * NOTE: Does NOT decrement plays - that happens in endPlay()
+     * Checks whether a game can be played right now
+     * Does not open a session or charge a play, see requestPlay()
      * 
      * @param gameId - ID of game to play
+     * @param mode - Mode or difficulty to play in (optional)
      * @returns Result indicating success or failure
      */
-    async attemptPlay(gameId: string): Promise<PlayAttemptResult> {
+    async attemptPlay(gameId: string, mode?: string): Promise<PlayAttemptResult> {
         const game = this.games.get(gameId);
 
         // Validate game exists
@@ -126,6 +229,14 @@ export class GameManager {
             };
         }
 
+        // Plays are free while a build, test or debug session runs
+        if (this.waitingRoom?.isOpen()) {
+            return {
+                success: true,
+                free: true
+            };
+        }
+
         // Get global play state
         const globalState = this.storageManager.getGlobalPlayState();
 
@@ -133,7 +244,7 @@ export class GameManager {
         if (!globalState.isUnlocked) {
             return {
                 success: false,
-                reason: `Games locked. Write ${this.getRemainingLinesToUnlock()} more lines to unlock.`
+                reason: `Games locked. ${this.describeUnlockGoal(this.getRemainingLinesToUnlock(), true)}`
             };
         }
 
@@ -141,68 +252,389 @@ export class GameManager {
         if (globalState.playsRemaining <= 0) {
             return {
                 success: false,
-                reason: `No plays remaining. Write ${this.config.unlock.linesToUnlock} lines to unlock.`
+                reason: `No plays remaining. ${this.describeUnlockGoal(this.getProgressTarget())}`
+            };
+        }
+
+        // Check if enough plays remain to pay for the game
+        const cost = this.getPlayCost(gameId, mode);
+        if (globalState.playsRemaining < cost) {
+            return {
+                success: false,
+                reason: `${game.name} costs ${describePlays(cost)} and you have ${describePlays(globalState.playsRemaining)} left.`
             };
         }
 
-        // Allow play (don't decrement here - happens in endPlay)
         return {
             success: true
         };
     }
 
     /**
-     * Records that a play session has ended
-     * THIS is where we decrement the play counter
+     * Gets how many plays a play of a game costs
+     * A cost set for the mode overrides the game's cost
      * 
-     * @param gameId - ID of game that was played
-     * @param score - Final score achieved (optional)
+     * @param gameId - ID of the game
+     * @param mode - Mode or difficulty to play in (optional)
+     * @returns Plays charged per play (1 unless the game sets a cost)
      */
-    async endPlay(gameId: string, score?: number): Promise<void> {
-        const gameState = this.storageManager.getGameState(gameId);
-        const globalState = this.storageManager.getGlobalPlayState();
+    getPlayCost(gameId: string, mode?: string): number {
+        const game = this.games.get(gameId);
+        const modeCost = mode !== undefined ? game?.modeCosts?.[mode] : undefined;
 
-        // Update game-specific stats
-        const updates: Partial<GameState> = {
-            totalPlays: gameState.totalPlays + 1,
-            lastPlayed: Date.now()
-        };
+        return Math.max(0, Math.floor(modeCost ?? game?.playCost ?? 1));
+    }
+
+    /**
+     * Requests a play of a game, opening a session if the game can be played
+     * The play is charged when the session starts
+     * 
+     * @param gameId - ID of game to play
+     * @param mode - Mode or difficulty to play in (optional)
+     * @returns Result with the new session's ID on success
+     */
+    async requestPlay(gameId: string, mode?: string): Promise<PlayAttemptResult> {
+        const result = await this.attemptPlay(gameId, mode);
+        if (!result.success) {
+            return result;
+        }
+
+        const session = this.openSession(gameId, result.free === true, mode);
+        return { ...result, sessionId: session.id };
+    }
+
+    /**
+     * Starts a requested session, charging its play unless it is free
+     * 
+     * @param sessionId - ID of the session to start
+     * @returns True if the session was waiting to start
+     */
+    async startSession(sessionId: string): Promise<boolean> {
+        const session = this.sessions.get(sessionId);
+        if (!session || session.status !== 'requested') {
+            return false;
+        }
+
+        session.status = 'started';
+        session.startedAt = Date.now();
+
+        this.eventEmitter.fire({
+            event: GameEvent.PLAY_STARTED,
+            gameId: session.gameId,
+            data: { ...session }
+        });
+
+        await this.chargePlay(session.gameId, session.cost);
+
+        return true;
+    }
+
+    /**
+     * Handles a game panel opening for a requested session
+     * When plays are charged per panel the session starts now; when each round
+     * is charged it starts with its first round, so a panel closed unplayed is free
+     * 
+     * @param sessionId - ID of the panel's session
+     */
+    async openPanel(sessionId: string): Promise<void> {
+        if (this.config.unlock.chargePer === 'panel') {
+            await this.startSession(sessionId);
+        }
+    }
+
+    /**
+     * Starts a new round of a game in an open panel
+     * When each round is charged and the previous round's session has ended,
+     * a new session is requested and started for the round
+     * 
+     * @param gameId - ID of the game
+     * @param sessionId - ID of the panel's current session
+     * @param mode - Mode or difficulty the round is played in (optional)
+     * @returns Result with the ID of the session the round belongs to
+     */
+    async startRound(gameId: string, sessionId: string, mode?: string): Promise<PlayAttemptResult> {
+        const session = this.sessions.get(sessionId);
+
+        if (session) {
+            const repriced = await this.repriceSession(session, mode ?? session.mode);
+            if (!repriced.success) {
+                // Nothing was played for what the session paid, so give it back
+                if (session.status === 'started' && session.rounds === 0 && session.cost > 0) {
+                    await this.refundPlays(session.gameId, session.cost);
+                    session.cost = 0;
+                }
+                return repriced;
+            }
+
+            await this.startSession(sessionId);
+            return { success: true, free: session.free, sessionId };
+        }
+
+        // Plays are charged per panel, so later rounds are part of the same play
+        if (this.config.unlock.chargePer === 'panel') {
+            return { success: true, sessionId };
+        }
+
+        const result = await this.requestPlay(gameId, mode);
+        if (result.sessionId) {
+            await this.startSession(result.sessionId);
+        }
+        return result;
+    }
+
+    /**
+     * Prices a session for the mode its round is played in
+     * Before the first round is completed the session costs what the mode costs,
+     * charging or refunding the difference; after that it can only cost more
+     * 
+     * @param session - Session to price
+     * @param mode - Mode or difficulty of the round
+     * @returns Result indicating whether the round can be paid for
+     * @private
+     */
+    private async repriceSession(session: PlaySession, mode?: string): Promise<PlayAttemptResult> {
+        const price = session.free ? 0 : this.getPlayCost(session.gameId, mode);
+        const difference = session.rounds === 0
+            ? price - session.cost
+            : Math.max(0, price - session.cost);
+
+        // Requested sessions have not paid anything yet, so need the whole price
+        const needed = session.status === 'started' ? difference : price;
+        if (needed > this.storageManager.getGlobalPlayState().playsRemaining) {
+            const game = this.games.get(session.gameId);
+            return {
+                success: false,
+                reason: `${game?.name ?? session.gameId} costs ${describePlays(price)}${mode ? ` in ${mode} mode` : ''}.`
+            };
+        }
+
+        session.mode = mode;
+        session.cost += difference;
 
-        // Update high score if provided and higher than current
+        // Requested sessions are charged their price when they start
+        if (session.status !== 'started' || difference === 0) {
+            return { success: true };
+        }
+
+        if (difference > 0) {
+            await this.chargePlay(session.gameId, difference);
+        } else {
+            await this.refundPlays(session.gameId, -difference);
+        }
+
+        return { success: true };
+    }
+
+    /**
+     * Records a completed round of a session
+     * When each round is charged, completing the round ends the session
+     * 
+     * @param sessionId - ID of the session
+     * @param score - Final score of the round (optional)
+     */
+    async completeRound(sessionId: string, score?: number): Promise<void> {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            return;
+        }
+
+        // Games that only report game over still pay for the round they played
+        if (session.status === 'requested') {
+            await this.startSession(sessionId);
+        }
+
+        if (session.status !== 'started') {
+            return;
+        }
+
+        session.rounds++;
+        if (score !== undefined && (session.score === undefined || score > session.score)) {
+            session.score = score;
+        }
+
+        // Update high score if higher than current
+        const gameState = this.storageManager.getGameState(session.gameId);
         if (score !== undefined && score > gameState.highScore) {
-            updates.highScore = score;
+            await this.storageManager.updateGameState(session.gameId, { highScore: score });
         }
 
-        await this.storageManager.updateGameState(gameId, updates);
+        if (this.config.unlock.chargePer === 'round') {
+            await this.endSession(sessionId);
+        }
+    }
 
-        // Decrement global plays
-        const newPlaysRemaining = globalState.playsRemaining - 1;
-        const newGlobalState: GlobalPlayState = {
-            ...globalState,
-            playsRemaining: newPlaysRemaining
-        };
+    /**
+     * Ends a session, as finished if it completed a round or abandoned if not
+     * Ending a session that has already ended does nothing
+     * 
+     * @param sessionId - ID of the session
+     */
+    async endSession(sessionId: string): Promise<void> {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            return;
+        }
 
-        // Lock if no plays remaining
-        if (newPlaysRemaining === 0) {
-            newGlobalState.isUnlocked = false;
-            newGlobalState.linesWritten = 0; // Reset counter for unlock
+        this.sessions.delete(sessionId);
+        session.status = session.rounds > 0 ? 'finished' : 'abandoned';
+        session.endedAt = Date.now();
 
-            // Emit lock event
-            this.eventEmitter.fire({
-                event: GameEvent.LOCKED,
-                gameId: '__global__',
-                data: newGlobalState
+        // Only sessions that started count as plays
+        if (session.startedAt !== undefined) {
+            const gameState = this.storageManager.getGameState(session.gameId);
+            await this.storageManager.updateGameState(session.gameId, {
+                totalPlays: gameState.totalPlays + 1,
+                lastPlayed: session.endedAt
             });
         }
 
-        await this.storageManager.saveGlobalPlayState(newGlobalState);
+        await this.storageManager.addPlayHistory({
+            id: session.id,
+            gameId: session.gameId,
+            startedAt: session.startedAt ?? session.requestedAt,
+            endedAt: session.endedAt,
+            duration: session.startedAt !== undefined ? session.endedAt - session.startedAt : 0,
+            score: session.score,
+            rounds: session.rounds,
+            mode: session.mode,
+            free: session.free,
+            cost: session.startedAt !== undefined ? session.cost : 0,
+            status: session.status
+        });
 
-        // Emit play ended event
         this.eventEmitter.fire({
             event: GameEvent.PLAY_ENDED,
+            gameId: session.gameId,
+            data: { ...session }
+        });
+    }
+
+    /**
+     * Gets a session that has not ended yet
+     * 
+     * @param sessionId - ID of the session
+     * @returns The session, or undefined if it has ended or never existed
+     */
+    getSession(sessionId: string): PlaySession | undefined {
+        const session = this.sessions.get(sessionId);
+        return session ? { ...session } : undefined;
+    }
+
+    /**
+     * Records a whole play at once, for plays not tracked through a session
+     * 
+     * @param gameId - ID of game that was played
+     * @param score - Final score achieved (optional)
+     * @param free - Whether the play was a free waiting room play
+     * @param mode - Mode or difficulty that was played, which sets the cost (optional)
+     */
+    async endPlay(gameId: string, score?: number, free: boolean = false, mode?: string): Promise<void> {
+        const session = this.openSession(gameId, free, mode);
+        await this.startSession(session.id);
+        await this.completeRound(session.id, score);
+        await this.endSession(session.id);
+    }
+
+    /**
+     * Opens a session in the requested state
+     * 
+     * @param gameId - ID of the game
+     * @param free - Whether the play is free
+     * @param mode - Mode or difficulty to play in (optional)
+     * @returns The new session
+     * @private
+     */
+    private openSession(gameId: string, free: boolean, mode?: string): PlaySession {
+        const now = Date.now();
+        const session: PlaySession = {
+            id: `${now.toString(36)}-${(++this.sessionCount).toString(36)}`,
             gameId,
-            data: { score }
+            status: 'requested',
+            free,
+            requestedAt: now,
+            rounds: 0,
+            mode,
+            cost: free ? 0 : this.getPlayCost(gameId, mode)
+        };
+
+        this.sessions.set(session.id, session);
+        return session;
+    }
+
+    /**
+     * Charges plays, locking games when the last play is used
+     * 
+     * @param gameId - ID of the game being played
+     * @param plays - Plays to charge
+     * @private
+     */
+    private async chargePlay(gameId: string, plays: number): Promise<void> {
+        if (plays <= 0) {
+            return;
+        }
+
+        const globalState = this.storageManager.getGlobalPlayState();
+
+        // Decrement global plays, locking if no plays remaining
+        const spend: PlayTransaction = { type: 'spend', source: `play:${gameId}`, plays: -plays, progress: 0 };
+        if (globalState.playsRemaining - plays <= 0) {
+            spend.unlocked = false;
+        }
+
+        let newGlobalState = await this.storageManager.recordPlayTransaction(spend);
+
+        if (spend.unlocked !== false) {
+            return;
+        }
+
+        // Banked progress carries over toward the next unlock, up to the cap
+        const overCap = newGlobalState.linesWritten - this.config.unlock.bankCap;
+        if (overCap > 0) {
+            newGlobalState = await this.storageManager.recordPlayTransaction({
+                type: 'expire',
+                source: 'bank-cap',
+                plays: 0,
+                progress: -overCap
+            });
+        }
+
+        // Emit lock event
+        this.eventEmitter.fire({
+            event: GameEvent.LOCKED,
+            gameId: '__global__',
+            data: newGlobalState
+        });
+
+        // A full bank unlocks the next batch of plays straight away
+        if (newGlobalState.linesWritten >= this.getProgressTarget()) {
+            await this.updateGlobalProgress(0, 'bank');
+        }
+    }
+
+    /**
+     * Gives plays back, unlocking games if charging them locked games
+     * 
+     * @param gameId - ID of the game the plays were charged for
+     * @param plays - Plays to give back
+     * @private
+     */
+    private async refundPlays(gameId: string, plays: number): Promise<void> {
+        const globalState = this.storageManager.getGlobalPlayState();
+        const newState = await this.storageManager.recordPlayTransaction({
+            type: 'refund',
+            source: `play:${gameId}`,
+            plays,
+            progress: 0,
+            unlocked: true
         });
+
+        if (!globalState.isUnlocked) {
+            this.eventEmitter.fire({
+                event: GameEvent.UNLOCKED,
+                gameId: '__global__',
+                data: newState
+            });
+        }
     }
 
     // ========================================
@@ -217,11 +649,13 @@ export class GameManager {
      * @private
      */
     private async handleCodeWritten(change: CodeChange): Promise<void> {
-        // Add to total lines written
-        await this.storageManager.addLinesWritten(change.netChange);
+        // Add to total lines written, before and after multipliers
+        await this.storageManager.addLinesWritten(change.rawNetChange ?? change.netChange, change.netChange);
 
-        // Update global unlock progress
-        await this.updateGlobalProgress(change.netChange);
+        // Update global unlock progress (time mode earns from minutes instead)
+        if (this.config.unlock.earningMode === 'lines') {
+            await this.updateGlobalProgress(change.netChange, 'code');
+        }
 
         // Emit code written event
         this.eventEmitter.fire({
@@ -231,32 +665,225 @@ export class GameManager {
         });
     }
 
+    /**
+     * Handles fixed problems from ProblemTracker
+     * Counts toward unlocks without adding to the lines written
+     * 
+     * @param credit - Problems fixed and the progress they earned
+     * @private
+     */
+    private async handleProblemsFixed(credit: ProblemCredit): Promise<void> {
+        await this.updateGlobalProgress(credit.lines, 'problems');
+
+        this.eventEmitter.fire({
+            event: GameEvent.PROBLEMS_FIXED,
+            gameId: '__global__',
+            data: credit
+        });
+    }
+
+    /**
+     * Handles focused minutes from ActivityTracker
+     * Always adds to the total, counts toward unlocks only in time mode
+     * 
+     * @param minutes - Whole minutes of focused coding just completed
+     * @private
+     */
+    private async handleActiveMinutes(minutes: number): Promise<void> {
+        await this.storageManager.addActiveMinutes(minutes);
+
+        if (this.config.unlock.earningMode !== 'time') {
+            return;
+        }
+
+        await this.updateGlobalProgress(minutes, 'time');
+
+        this.eventEmitter.fire({
+            event: GameEvent.ACTIVE_TIME_RECORDED,
+            gameId: '__global__',
+            data: { minutes }
+        });
+    }
+
+    /**
+     * Gets the progress needed to unlock in the current earning mode
+     * 
+     * @returns Lines in lines mode, minutes in time mode
+     * @private
+     */
+    private getProgressTarget(): number {
+        return this.config.unlock.earningMode === 'time'
+            ? this.config.unlock.minutesToUnlock
+            : this.config.unlock.linesToUnlock;
+    }
+
+    /**
+     * Describes what the user has to do to unlock games
+     * 
+     * @param amount - Lines or minutes still needed
+     * @param more - Whether the user has already made some progress
+     * @returns Sentence telling the user how to unlock
+     * @private
+     */
+    private describeUnlockGoal(amount: number, more: boolean = false): string {
+        const extra = more ? ' more' : '';
+        return this.config.unlock.earningMode === 'time'
+            ? `Code for ${amount}${extra} minutes to unlock.`
+            : `Write ${amount}${extra} lines to unlock.`;
+    }
+
+    // ========================================
+    // TASK REWARDS
+    // ========================================
+
+    /**
+     * Handles a task process ending
+     * Rewards tests and builds that pass after having failed
+     * 
+     * @param event - Task process end event
+     * @private
+     */
+    private async handleTaskEnd(event: vscode.TaskProcessEndEvent): Promise<void> {
+        const task = event.execution.task;
+
+        // Cancelled and terminated tasks have no exit code and say nothing about the code
+        if (!this.config.tasks.enabled || event.exitCode === undefined || !this.isRewardedTask(task)) {
+            return;
+        }
+
+        const key = `${task.source}:${task.name}`;
+        const previousExitCode = this.taskResults.get(key);
+        this.taskResults.set(key, event.exitCode);
+
+        // Only a red to green transition earns a reward
+        if (event.exitCode !== 0 || previousExitCode === undefined || previousExitCode === 0) {
+            return;
+        }
+
+        const now = Date.now();
+        if (now - (this.taskRewardedAt.get(key) ?? 0) < TASK_REWARD_COOLDOWN) {
+            return;
+        }
+        this.taskRewardedAt.set(key, now);
+
+        await this.grantTaskReward({
+            taskName: task.name,
+            group: task.group?.id,
+            lines: Math.max(0, this.config.tasks.progressLines),
+            plays: Math.max(0, Math.floor(this.config.tasks.plays)),
+            timestamp: now
+        });
+    }
+
+    /**
+     * Checks whether a task is in a rewarded group or matches a rewarded name
+     * 
+     * @param task - Task that ended
+     * @returns True if the task can earn rewards
+     * @private
+     */
+    private isRewardedTask(task: vscode.Task): boolean {
+        return matchesTask(task, this.config.tasks.groups, this.config.tasks.namePatterns);
+    }
+
+    /**
+     * Grants the progress and plays for a task going green
+     * 
+     * @param reward - Reward to grant
+     * @private
+     */
+    private async grantTaskReward(reward: TaskReward): Promise<void> {
+        if (reward.lines > 0) {
+            await this.updateGlobalProgress(reward.lines, `task:${reward.taskName}`);
+        }
+
+        if (reward.plays > 0) {
+            await this.addPlays(reward.plays, `task:${reward.taskName}`);
+        }
+
+        await this.storageManager.addTaskReward(reward.lines, reward.plays);
+
+        this.eventEmitter.fire({
+            event: GameEvent.TASK_SUCCEEDED,
+            gameId: '__global__',
+            data: reward
+        });
+    }
+
+    /**
+     * Adds plays, unlocking games if they were locked
+     * 
+     * @param plays - Number of plays to add
+     * @param source - What earned the plays
+     * @private
+     */
+    private async addPlays(plays: number, source: string): Promise<void> {
+        const globalState = this.storageManager.getGlobalPlayState();
+        const newState = await this.storageManager.recordPlayTransaction({
+            type: 'grant',
+            source,
+            plays: Math.max(0, globalState.playsRemaining) + plays - globalState.playsRemaining,
+            progress: 0,
+            unlocked: true
+        });
+
+        if (!globalState.isUnlocked) {
+            this.eventEmitter.fire({
+                event: GameEvent.UNLOCKED,
+                gameId: '__global__',
+                data: newState
+            });
+        }
+    }
+
     /**
      * Updates progress toward unlocking games globally
+     * In time mode the progress counter holds minutes rather than lines
+     * While games are unlocked, progress is banked toward the next unlock
      * 
-     * @param linesWritten - Number of lines written
+     * @param linesWritten - Number of lines written (minutes in time mode)
+     * @param source - What earned the progress
      * @private
      */
-    private async updateGlobalProgress(linesWritten: number): Promise<void> {
+    private async updateGlobalProgress(linesWritten: number, source: string): Promise<void> {
         const globalState = this.storageManager.getGlobalPlayState();
 
-        // Only update if games are locked
         if (globalState.isUnlocked) {
+            await this.bankProgress(globalState, linesWritten, source);
             return;
         }
 
         const newLinesWritten = globalState.linesWritten + linesWritten;
 
+        if (linesWritten !== 0) {
+            await this.storageManager.recordPlayTransaction({
+                type: 'earn',
+                source,
+                plays: 0,
+                progress: linesWritten
+            });
+        }
+
         // Check if enough lines to unlock
-        if (newLinesWritten >= this.config.unlock.linesToUnlock) {
-            // Unlock all games!
-            const newState: GlobalPlayState = {
-                isUnlocked: true,
-                playsRemaining: this.config.unlock.playsPerUnlock,
-                linesWritten: 0 // Reset counter
-            };
+        if (newLinesWritten >= this.getProgressTarget()) {
+            // Unlock all games! Progress beyond the target stays in the bank
+            let newState = await this.storageManager.recordPlayTransaction({
+                type: 'grant',
+                source: 'unlock',
+                plays: this.config.unlock.playsPerUnlock - globalState.playsRemaining,
+                progress: -this.getProgressTarget(),
+                unlocked: true
+            });
 
-            await this.storageManager.saveGlobalPlayState(newState);
+            const overCap = newState.linesWritten - this.config.unlock.bankCap;
+            if (overCap > 0) {
+                newState = await this.storageManager.recordPlayTransaction({
+                    type: 'expire',
+                    source: 'bank-cap',
+                    plays: 0,
+                    progress: -overCap
+                });
+            }
 
             // Emit unlock event
             this.eventEmitter.fire({
@@ -272,24 +899,57 @@ export class GameManager {
                 );
             }
         } else {
-            // Update progress
-            await this.storageManager.updateGlobalPlayState({
-                linesWritten: newLinesWritten
-            });
-
             // Emit progress event
             this.eventEmitter.fire({
                 event: GameEvent.PROGRESS_UPDATED,
                 gameId: '__global__',
                 data: {
                     linesWritten: newLinesWritten,
-                    linesRequired: this.config.unlock.linesToUnlock,
-                    progress: newLinesWritten / this.config.unlock.linesToUnlock
+                    linesRequired: this.getProgressTarget(),
+                    progress: newLinesWritten / this.getProgressTarget()
                 }
             });
         }
     }
 
+    /**
+     * Banks progress made while games are unlocked, up to the configured cap
+     * 
+     * @param globalState - Current global play state
+     * @param linesWritten - Number of lines written (minutes in time mode)
+     * @param source - What earned the progress
+     * @private
+     */
+    private async bankProgress(globalState: GlobalPlayState, linesWritten: number, source: string): Promise<void> {
+        // Lowering the cap never takes away progress that is already banked
+        const banked = Math.max(
+            globalState.linesWritten,
+            Math.min(globalState.linesWritten + linesWritten, this.config.unlock.bankCap)
+        );
+
+        if (banked === globalState.linesWritten) {
+            return;
+        }
+
+        await this.storageManager.recordPlayTransaction({
+            type: 'earn',
+            source,
+            plays: 0,
+            progress: banked - globalState.linesWritten
+        });
+
+        this.eventEmitter.fire({
+            event: GameEvent.PROGRESS_UPDATED,
+            gameId: '__global__',
+            data: {
+                linesWritten: banked,
+                linesRequired: this.getProgressTarget(),
+                progress: banked / this.getProgressTarget(),
+                banked: true
+            }
+        });
+    }
+
     // ========================================
     // QUERY METHODS
     // ========================================
@@ -359,7 +1019,7 @@ export class GameManager {
      * Gets remaining lines needed to unlock games (global)
      * 
      * @param gameId - ID of game to check (ignored, kept for compatibility)
-     * @returns Lines remaining (0 if already unlocked)
+     * @returns Lines remaining, minutes in time mode (0 if already unlocked)
      */
     getRemainingLinesToUnlock(gameId?: string): number {
         const globalState = this.storageManager.getGlobalPlayState();
@@ -368,12 +1028,41 @@ export class GameManager {
             return 0;
         }
 
+        // Weighted modifications can leave fractional progress, round up for display
         return Math.max(
             0,
-            this.config.unlock.linesToUnlock - globalState.linesWritten
+            Math.ceil(this.getProgressTarget() - globalState.linesWritten)
         );
     }
 
+    /**
+     * Gets progress banked toward the next unlock while games are unlocked
+     * 
+     * @returns Banked lines (minutes in time mode), 0 while games are locked
+     */
+    getBankedProgress(): number {
+        const globalState = this.storageManager.getGlobalPlayState();
+        return globalState.isUnlocked ? globalState.linesWritten : 0;
+    }
+
+    /**
+     * Gets the tasks and debug sessions that currently make plays free
+     * 
+     * @returns Names of running tasks and debug sessions, empty if plays are not free
+     */
+    getWaitingRoomActivity(): string[] {
+        return this.waitingRoom?.isOpen() ? this.waitingRoom.getActivity() : [];
+    }
+
+    /**
+     * Gets lines written but held until their errors are fixed
+     * 
+     * @returns Pending line credit
+     */
+    getPendingLines(): number {
+        return this.codeTracker.getPendingLines();
+    }
+
     /**
      * Gets unlock progress as percentage (0-100)
      * 
@@ -389,7 +1078,7 @@ export class GameManager {
 
         return Math.min(
             100,
-            (globalState.linesWritten / this.config.unlock.linesToUnlock) * 100
+            (globalState.linesWritten / this.getProgressTarget()) * 100
         );
     }
 
@@ -409,7 +1098,9 @@ export class GameManager {
             linesWritten: 0
         };
 
-        await this.storageManager.saveGlobalPlayState(globalState);
+        await this.storageManager.recordPlayTransaction(
+            transactionBetween(this.storageManager.getGlobalPlayState(), globalState, 'grant', 'admin')
+        );
 
         this.eventEmitter.fire({
             event: GameEvent.UNLOCKED,
@@ -430,7 +1121,7 @@ export class GameManager {
             linesWritten: 0
         };
 
-        await this.storageManager.saveGlobalPlayState(globalState);
+        await this.storageManager.resetGlobalPlayState(globalState, 'admin');
 
         this.eventEmitter.fire({
             event: GameEvent.LOCKED,
@@ -470,6 +1161,9 @@ export class GameManager {
         this.config = config;
         await this.storageManager.saveConfig(config);
         this.codeTracker.updateConfig(config);
+        this.problemTracker?.updateConfig(config.problems);
+        this.waitingRoom?.updateConfig(config.waitingRoom);
+        this.activityTracker?.updateConfig(config.activity);
     }
 
     // ========================================
@@ -480,6 +1174,8 @@ export class GameManager {
      * Disposes of all resources
      */
     dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
         this.eventEmitter.dispose();
         this.games.clear();
     }
@@ -0,0 +1,484 @@
+/**
+ * GitCreditSource.ts
+ *
+ * Alternative crediting source that pays for code once it is committed.
+ * Watches the workspace's git repositories, reads the lines each new local
+ * commit adds, filters out comments with the same lexer as CodeTracker and
+ * fingerprints credited lines so amended or rebased commits are not paid twice.
+ */
+
+import * as vscode from 'vscode';
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import { CodeChange, GitCreditState } from './types';
+import { StorageManager } from './StorageManager';
+import { CommentLexer } from './CommentLexer';
+import { languageProfiles } from './LanguageProfiles';
+import { TrackingFilter } from './TrackingFilter';
+import { CreditMultipliers } from './CreditMultipliers';
+import { getGitApi, GitRepository, watchRepositories } from './GitIntegration';
+
+/**
+ * Lines a commit adds to a single file
+ */
+export interface CommitFileDiff {
+    /** Path relative to the repository root */
+    path: string;
+
+    /** 1-based line numbers of added lines in the new version of the file */
+    addedLines: number[];
+
+    /** Number of lines removed from the file */
+    deletedCount: number;
+}
+
+/**
+ * Most recent commits inspected per scan
+ */
+const MAX_COMMITS_PER_SCAN = 100;
+
+/**
+ * Processed commit hashes kept in storage
+ */
+const MAX_STORED_COMMITS = 5000;
+
+/**
+ * Credited line fingerprints kept in storage
+ */
+const MAX_STORED_FINGERPRINTS = 50000;
+
+/**
+ * Largest git output read for a single command (bytes)
+ */
+const MAX_GIT_OUTPUT = 32 * 1024 * 1024;
+
+/**
+ * Credits meaningful lines from new local commits
+ */
+export class GitCreditSource implements vscode.Disposable {
+    /**
+     * Repository and API listeners, cleared when the source stops
+     */
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Event emitter for credited commits
+     */
+    private onCreditEmitter = new vscode.EventEmitter<CodeChange>();
+
+    /**
+     * Fires once per file for each commit that earns credit
+     */
+    public readonly onCredit = this.onCreditEmitter.event;
+
+    /**
+     * Scans run one after another so credit is never counted twice
+     */
+    private scanQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * Git executable reported by the git extension
+     */
+    private gitPath = 'git';
+
+    /**
+     * Whether the source is watching repositories
+     */
+    private started = false;
+
+    /**
+     * Creates a new GitCreditSource instance
+     *
+     * @param storageManager - Storage manager for the credited commit bookkeeping
+     * @param filter - Tracking rules applied to committed files
+     * @param multipliers - Language and path multipliers applied to credited files
+     */
+    constructor(
+        private storageManager: StorageManager,
+        private filter: TrackingFilter,
+        private multipliers: CreditMultipliers
+    ) { }
+
+    // ========================================
+    // LIFECYCLE
+    // ========================================
+
+    /**
+     * Starts watching the workspace's repositories for new commits
+     * Commits made before git crediting was first enabled are never credited
+     */
+    async start(): Promise<void> {
+        if (this.started) {
+            return;
+        }
+        this.started = true;
+
+        const api = await getGitApi();
+        if (!api || !this.started) {
+            return;
+        }
+
+        this.gitPath = api.git.path;
+
+        // Scan each repository once for commits made while the editor was closed,
+        // then again whenever HEAD moves
+        this.disposables.push(watchRepositories(api, {
+            onDidOpen: repository => this.queueScan(repository),
+            onDidChangeHead: repository => this.queueScan(repository)
+        }));
+    }
+
+    /**
+     * Stops watching repositories
+     */
+    stop(): void {
+        this.started = false;
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    // ========================================
+    // SCANNING
+    // ========================================
+
+    /**
+     * Queues a scan of a repository behind any scan already running
+     *
+     * @param repository - Repository to scan
+     * @private
+     */
+    private queueScan(repository: GitRepository): void {
+        this.scanQueue = this.scanQueue
+            .then(() => this.scanRepository(repository))
+            .catch(error => {
+                console.warn('Code to Play: could not read git history', error);
+            });
+    }
+
+    /**
+     * Credits every new commit by the local user reachable from HEAD
+     *
+     * @param repository - Repository to scan
+     * @private
+     */
+    private async scanRepository(repository: GitRepository): Promise<void> {
+        if (!this.started) {
+            return;
+        }
+
+        const state = await this.loadState();
+        const cwd = repository.rootUri.fsPath;
+        const credited = new Set(state.creditedCommits);
+        const fingerprints = new Set(state.lineFingerprints);
+
+        const email = (await this.runGit(cwd, ['config', 'user.email']).catch(() => '')).trim();
+        const log = await this.runGit(cwd, [
+            'log',
+            '--no-merges',
+            '--format=%H %ct',
+            `-n${MAX_COMMITS_PER_SCAN}`,
+            ...(email ? ['--fixed-strings', `--author=${email}`] : []),
+            'HEAD'
+        ]);
+
+        // Oldest first, so a line is credited to the commit that introduced it
+        const commits = log
+            .split('\n')
+            .map(line => line.trim().split(' '))
+            .filter(([hash, time]) => hash && Number(time) * 1000 >= state.since && !credited.has(hash))
+            .map(([hash]) => hash)
+            .reverse();
+
+        for (const commit of commits) {
+            // A commit that cannot be read is skipped for good, so it never
+            // holds back the commits after it
+            const changes = await this.creditCommit(repository, commit, fingerprints)
+                .catch(error => {
+                    console.warn(`Code to Play: could not read commit ${commit}`, error);
+                    return [] as CodeChange[];
+                });
+            credited.add(commit);
+
+            await this.storageManager.saveGitCreditState({
+                since: state.since,
+                creditedCommits: [...credited].slice(-MAX_STORED_COMMITS),
+                lineFingerprints: [...fingerprints].slice(-MAX_STORED_FINGERPRINTS)
+            });
+
+            changes.forEach(change => this.onCreditEmitter.fire(change));
+        }
+    }
+
+    /**
+     * Works out the credit for each tracked file a commit touches
+     *
+     * @param repository - Repository the commit belongs to
+     * @param commit - Commit hash
+     * @param fingerprints - Fingerprints of lines already credited (updated in place)
+     * @returns One change per file that earned credit
+     * @private
+     */
+    private async creditCommit(
+        repository: GitRepository,
+        commit: string,
+        fingerprints: Set<string>
+    ): Promise<CodeChange[]> {
+        const cwd = repository.rootUri.fsPath;
+        const diff = await this.runGit(cwd, [
+            '-c', 'core.quotePath=off',
+            'show',
+            '--format=',
+            '--unified=0',
+            '--no-color',
+            '--no-renames',
+            '--no-ext-diff',
+            commit
+        ]);
+
+        const changes: CodeChange[] = [];
+
+        for (const file of parseCommitDiff(diff)) {
+            // Notebook files also hold outputs and execution counts, so their
+            // cells are only credited from the editor
+            if (file.addedLines.length === 0 || file.path.endsWith('.ipynb')) {
+                continue;
+            }
+
+            const uri = vscode.Uri.joinPath(repository.rootUri, file.path);
+            if (!this.filter.evaluateFile(uri).tracked) {
+                continue;
+            }
+
+            let content: string;
+            try {
+                content = await this.runGit(cwd, ['show', `${commit}:${file.path}`]);
+            } catch (error) {
+                console.warn(`Code to Play: could not read ${file.path} at ${commit}`, error);
+                continue;
+            }
+
+            const change = creditFile(file, content.split('\n'), fingerprints);
+            change.commit = commit;
+
+            if (change.isMeaningful && change.netChange > 0) {
+                this.multipliers.apply(change, uri.fsPath);
+                changes.push(change);
+            }
+        }
+
+        return changes;
+    }
+
+    // ========================================
+    // UTILITY METHODS
+    // ========================================
+
+    /**
+     * Loads the saved bookkeeping, starting it now if git crediting never ran here
+     *
+     * @returns Git credit state
+     * @private
+     */
+    private async loadState(): Promise<GitCreditState> {
+        const saved = this.storageManager.getGitCreditState();
+        if (saved) {
+            return saved;
+        }
+
+        const state: GitCreditState = {
+            since: Date.now(),
+            creditedCommits: [],
+            lineFingerprints: []
+        };
+        await this.storageManager.saveGitCreditState(state);
+        return state;
+    }
+
+    /**
+     * Runs a git command and returns its output
+     *
+     * @param cwd - Repository root
+     * @param args - Git arguments
+     * @returns Standard output
+     * @private
+     */
+    private runGit(cwd: string, args: string[]): Promise<string> {
+        return new Promise((resolve, reject) => {
+            execFile(this.gitPath, args, { cwd, maxBuffer: MAX_GIT_OUTPUT }, (error, stdout) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+
+    // ========================================
+    // CLEANUP
+    // ========================================
+
+    /**
+     * Disposes of all resources
+     */
+    dispose(): void {
+        this.stop();
+        this.onCreditEmitter.dispose();
+    }
+}
+
+/**
+ * Parses `git show --unified=0` output into the lines each file gains
+ *
+ * @param diff - Diff text
+ * @returns Added line numbers and deletion counts per file
+ */
+export function parseCommitDiff(diff: string): CommitFileDiff[] {
+    const files: CommitFileDiff[] = [];
+    let current: CommitFileDiff | null = null;
+
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('diff --git ')) {
+            current = null;
+        } else if (line.startsWith('+++ ')) {
+            // Deleted files have no new version to credit
+            const path = parseDiffPath(line.slice('+++ '.length));
+            current = path?.startsWith('b/')
+                ? { path: path.slice('b/'.length), addedLines: [], deletedCount: 0 }
+                : null;
+            if (current) {
+                files.push(current);
+            }
+        } else if (current && line.startsWith('@@')) {
+            const match = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+            if (match) {
+                const deleted = match[1] === undefined ? 1 : Number(match[1]);
+                const start = Number(match[2]);
+                const added = match[3] === undefined ? 1 : Number(match[3]);
+
+                current.deletedCount += deleted;
+                for (let i = 0; i < added; i++) {
+                    current.addedLines.push(start + i);
+                }
+            }
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Reads the path from a `---` or `+++` diff header
+ * Git ends paths containing spaces with a tab, and quotes paths with special
+ * characters C-style even when core.quotePath is off
+ *
+ * @param header - Header text after the `+++ ` marker
+ * @returns Path with its `a/` or `b/` prefix, or null for /dev/null
+ */
+function parseDiffPath(header: string): string | null {
+    const raw = header.endsWith('\t') ? header.slice(0, -1) : header;
+    if (raw === '/dev/null') {
+        return null;
+    }
+    if (!raw.startsWith('"') || !raw.endsWith('"') || raw.length < 2) {
+        return raw;
+    }
+
+    // Escapes stand for bytes, so non-ASCII characters are decoded as UTF-8 at the end
+    const escapes: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+    const bytes: number[] = [];
+    const body = raw.slice(1, -1);
+
+    for (let i = 0; i < body.length; i++) {
+        if (body[i] !== '\\' || i + 1 >= body.length) {
+            const char = String.fromCodePoint(body.codePointAt(i)!);
+            bytes.push(...Buffer.from(char, 'utf8'));
+            i += char.length - 1;
+            continue;
+        }
+
+        const octal = /^[0-7]{3}/.exec(body.slice(i + 1));
+        if (octal) {
+            bytes.push(parseInt(octal[0], 8));
+            i += 3;
+        } else {
+            const next = body[++i];
+            bytes.push(escapes[next] ?? next.charCodeAt(0));
+        }
+    }
+
+    return Buffer.from(bytes).toString('utf8');
+}
+
+/**
+ * Credits the meaningful added lines of a file that have not been credited before
+ *
+ * @param file - Lines the commit adds to the file
+ * @param contentLines - Lines of the file as committed
+ * @param fingerprints - Fingerprints of lines already credited (updated in place)
+ * @returns Change describing the credit
+ */
+export function creditFile(
+    file: CommitFileDiff,
+    contentLines: readonly string[],
+    fingerprints: Set<string>
+): CodeChange {
+    const languageId = languageProfiles.getProfileForPath(file.path)?.id ?? 'plaintext';
+    const lines = contentLines.map(line => line.trim());
+
+    // Lex the whole file so comment blocks around the added lines are respected
+    const flags = CommentLexer.forLanguage(languageId).scanLines(lines);
+
+    // Repeated lines are told apart by how many identical lines precede them
+    const occurrences = new Map<string, number>();
+    const occurrenceIndex = lines.map(line => {
+        const index = occurrences.get(line) ?? 0;
+        occurrences.set(line, index + 1);
+        return index;
+    });
+
+    let meaningful = 0;
+    let credited = 0;
+
+    for (const lineNumber of file.addedLines) {
+        const index = lineNumber - 1;
+        if (!flags[index]) {
+            continue;
+        }
+        meaningful++;
+
+        const fingerprint = fingerprintLine(file.path, lines[index], occurrenceIndex[index]);
+        if (!fingerprints.has(fingerprint)) {
+            fingerprints.add(fingerprint);
+            credited++;
+        }
+    }
+
+    return {
+        linesAdded: file.addedLines.length,
+        linesDeleted: file.deletedCount,
+        linesModified: 0,
+        meaningfulLinesAdded: meaningful,
+        meaningfulLinesDeleted: 0,
+        meaningfulLinesModified: 0,
+        netChange: credited,
+        isMeaningful: meaningful > 0,
+        languageId,
+        timestamp: Date.now()
+    };
+}
+
+/**
+ * Builds a short, stable fingerprint for a credited line
+ *
+ * @param filePath - Path relative to the repository root
+ * @param text - Trimmed line text
+ * @param occurrence - Number of identical lines above it in the file
+ * @returns Fingerprint string
+ */
+function fingerprintLine(filePath: string, text: string, occurrence: number): string {
+    return createHash('sha1')
+        .update(`${filePath}\0${text}\0${occurrence}`)
+        .digest('hex')
+        .slice(0, 16);
+}
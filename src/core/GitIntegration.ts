@@ -0,0 +1,149 @@
+/**
+ * GitIntegration.ts
+ *
+ * Thin access layer over VS Code's built-in git extension.
+ * Declares only the parts of its API the extension uses.
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * HEAD reference of a repository
+ */
+export interface GitHead {
+    /** Branch name, if HEAD is on a branch */
+    name?: string;
+
+    /** Commit hash HEAD points to */
+    commit?: string;
+}
+
+/**
+ * A repository opened by the git extension
+ */
+export interface GitRepository {
+    /** Root folder of the repository */
+    readonly rootUri: vscode.Uri;
+
+    /** Live repository state */
+    readonly state: {
+        readonly HEAD: GitHead | undefined;
+        readonly onDidChange: vscode.Event<void>;
+    };
+
+    /**
+     * Checks which of the given absolute paths are ignored by git
+     */
+    checkIgnore(paths: string[]): Promise<Set<string>>;
+
+    /**
+     * Reads a file's contents at a ref (e.g. 'HEAD')
+     */
+    show(ref: string, path: string): Promise<string>;
+}
+
+/**
+ * Version 1 of the git extension API
+ */
+export interface GitAPI {
+    /** Git executable used by the extension */
+    readonly git: {
+        readonly path: string;
+    };
+
+    /** Repositories currently open */
+    readonly repositories: GitRepository[];
+
+    /** Fires when a repository is opened */
+    readonly onDidOpenRepository: vscode.Event<GitRepository>;
+
+    /**
+     * Gets the repository containing a URI
+     */
+    getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+/**
+ * Gets the git extension API, activating the extension if needed
+ *
+ * @returns The API, or undefined if git is disabled or unavailable
+ */
+export async function getGitApi(): Promise<GitAPI | undefined> {
+    const extension = vscode.extensions.getExtension<{
+        enabled: boolean;
+        getAPI(version: 1): GitAPI;
+    }>('vscode.git');
+
+    if (!extension) {
+        return undefined;
+    }
+
+    try {
+        const exports = extension.isActive
+            ? extension.exports
+            : await extension.activate();
+
+        return exports.enabled ? exports.getAPI(1) : undefined;
+    } catch (error) {
+        console.warn('Code to Play: git extension unavailable', error);
+        return undefined;
+    }
+}
+
+/**
+ * Handlers for repository events
+ */
+export interface RepositoryWatchHandlers {
+    /** Called once for every repository, including those already open */
+    onDidOpen?(repository: GitRepository): void;
+
+    /** Called when a repository's HEAD moves to another commit */
+    onDidChangeHead?(repository: GitRepository): void;
+}
+
+/**
+ * Watches all open and future repositories for HEAD changes
+ * (checkouts, pulls, commits, rebases and resets)
+ *
+ * @param api - Git extension API
+ * @param handlers - Repository event handlers
+ * @returns Disposable that stops watching
+ */
+export function watchRepositories(
+    api: GitAPI,
+    handlers: RepositoryWatchHandlers
+): vscode.Disposable {
+    const heads = new Map<string, string | undefined>();
+    const disposables: vscode.Disposable[] = [];
+
+    const watch = (repository: GitRepository) => {
+        const root = repository.rootUri.toString();
+        if (heads.has(root)) {
+            return;
+        }
+
+        heads.set(root, repository.state.HEAD?.commit);
+        disposables.push(
+            repository.state.onDidChange(() => {
+                const head = repository.state.HEAD?.commit;
+                if (head !== heads.get(root)) {
+                    heads.set(root, head);
+                    handlers.onDidChangeHead?.(repository);
+                }
+            })
+        );
+
+        handlers.onDidOpen?.(repository);
+    };
+
+    api.repositories.forEach(watch);
+    disposables.push(api.onDidOpenRepository(watch));
+
+    return {
+        dispose: () => {
+            disposables.forEach(d => d.dispose());
+            disposables.length = 0;
+            heads.clear();
+        }
+    };
+}
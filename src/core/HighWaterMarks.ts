@@ -0,0 +1,294 @@
+/**
+ * HighWaterMarks.ts
+ *
+ * Per-document record of the meaningful lines that have already been seen or
+ * credited this session. For each line hash the mark keeps the highest number
+ * of copies the document has held, so undoing and redoing a block, or cutting
+ * and pasting it back, never earns the same lines twice.
+ *
+ * Alongside the mark, each document keeps the baseline lines that may still
+ * earn credit by being deleted. Lines typed this session never join it, and a
+ * baseline line leaves it the first time it disappears, so deleting a line
+ * never pays twice and never pays for a line that was already paid for.
+ *
+ * Marks outlive closed documents, so closing and reopening a file does not
+ * reset them. To keep memory bounded, the least recently used documents'
+ * marks are dropped once a byte budget is exceeded; a dropped document starts
+ * again from its next baseline, so lines it held before can earn once more.
+ */
+
+import { DocumentSnapshot } from './SnapshotStore';
+
+/**
+ * Memory usage of the high-water marks
+ */
+export interface HighWaterMarkStats {
+    /** Number of documents with a mark */
+    documents: number;
+
+    /** Approximate bytes used by all marks */
+    bytes: number;
+
+    /** Byte budget before marks are dropped */
+    budgetBytes: number;
+
+    /** Documents whose marks were dropped to stay within the budget */
+    evictions: number;
+}
+
+/**
+ * Fixed per-document cost (map entries and typed array headers)
+ */
+const MARK_OVERHEAD_BYTES = 192;
+
+/**
+ * Highest line counts seen per document this session, within a memory budget
+ */
+export class HighWaterMarks {
+    /**
+     * Sorted meaningful line hashes per document URI, one entry per copy,
+     * in least to most recently used order
+     */
+    private marks = new Map<string, Uint32Array>();
+
+    /**
+     * Sorted hashes of baseline lines not yet deleted, per document URI
+     */
+    private removable = new Map<string, Uint32Array>();
+
+    /**
+     * Approximate bytes used by all marks
+     */
+    private bytes = 0;
+
+    /**
+     * Documents dropped since the marks were created
+     */
+    private evictions = 0;
+
+    /**
+     * Creates a new HighWaterMarks instance
+     *
+     * @param budgetBytes - Approximate memory budget for all marks
+     */
+    constructor(private budgetBytes: number) { }
+
+    /**
+     * Changes the memory budget, dropping marks if it shrank
+     *
+     * @param budgetBytes - New memory budget
+     */
+    setBudget(budgetBytes: number): void {
+        this.budgetBytes = budgetBytes;
+        this.evict();
+    }
+
+    /**
+     * Raises a document's mark to cover a snapshot
+     *
+     * @param key - Document URI string
+     * @param snapshot - Snapshot of the document's current version
+     * @param baseline - Whether the snapshot was loaded rather than typed
+     * @returns Number of meaningful lines the mark did not cover before
+     */
+    advance(key: string, snapshot: DocumentSnapshot, baseline: boolean = false): number {
+        const current = meaningfulHashes(snapshot);
+        const mark = this.marks.get(key) ?? EMPTY;
+        let removable = this.removable.get(key) ?? EMPTY;
+
+        // Loaded lines the mark did not cover can be deleted for credit later
+        if (baseline) {
+            removable = mergeCounts(
+                [removable, mark, current],
+                ([left, marked, present]) => Math.min(present, left + Math.max(0, present - marked))
+            );
+        }
+
+        let fresh = 0;
+        const merged = mergeCounts([mark, current], ([marked, present]) => {
+            fresh += Math.max(0, present - marked);
+            return Math.max(marked, present);
+        });
+
+        this.store(key, merged, removable);
+        return fresh;
+    }
+
+    /**
+     * Removes baseline lines a snapshot no longer holds
+     *
+     * @param key - Document URI string
+     * @param snapshot - Snapshot of the document's current version
+     * @returns Number of baseline lines deleted for the first time
+     */
+    retire(key: string, snapshot: DocumentSnapshot): number {
+        const removable = this.removable.get(key);
+        if (!removable) {
+            return 0;
+        }
+
+        let deleted = 0;
+        const remaining = mergeCounts(
+            [removable, meaningfulHashes(snapshot)],
+            ([left, present]) => {
+                deleted += Math.max(0, left - present);
+                return Math.min(left, present);
+            }
+        );
+
+        this.store(key, this.marks.get(key) ?? EMPTY, remaining);
+        return deleted;
+    }
+
+    /**
+     * Whether a document has a mark
+     *
+     * @param key - Document URI string
+     * @returns True if the document has been seen this session
+     */
+    has(key: string): boolean {
+        return this.marks.has(key);
+    }
+
+    /**
+     * Forgets a document's mark
+     *
+     * @param key - Document URI string
+     */
+    delete(key: string): void {
+        const mark = this.marks.get(key);
+        if (mark) {
+            this.bytes -= sizeOf(key, mark, this.removable.get(key) ?? EMPTY);
+            this.marks.delete(key);
+            this.removable.delete(key);
+        }
+    }
+
+    /**
+     * Forgets every mark
+     */
+    clear(): void {
+        this.marks.clear();
+        this.removable.clear();
+        this.bytes = 0;
+    }
+
+    /**
+     * Reports how much memory the marks use
+     *
+     * @returns Memory usage statistics
+     */
+    getStats(): HighWaterMarkStats {
+        return {
+            documents: this.marks.size,
+            bytes: this.bytes,
+            budgetBytes: this.budgetBytes,
+            evictions: this.evictions
+        };
+    }
+
+    /**
+     * Stores a document's mark as the most recently used
+     *
+     * @param key - Document URI string
+     * @param mark - Sorted line hashes of the mark
+     * @param removable - Sorted hashes of baseline lines not yet deleted
+     * @private
+     */
+    private store(key: string, mark: Uint32Array, removable: Uint32Array): void {
+        this.delete(key);
+        this.marks.set(key, mark);
+        this.removable.set(key, removable);
+        this.bytes += sizeOf(key, mark, removable);
+        this.evict();
+    }
+
+    /**
+     * Drops least recently used marks until they fit the budget
+     * The most recent mark is always kept
+     *
+     * @private
+     */
+    private evict(): void {
+        for (const key of this.marks.keys()) {
+            if (this.bytes <= this.budgetBytes || this.marks.size <= 1) {
+                break;
+            }
+            this.delete(key);
+            this.evictions++;
+        }
+    }
+}
+
+/**
+ * Shared empty hash list
+ */
+const EMPTY = new Uint32Array(0);
+
+/**
+ * Walks sorted hash lists one distinct hash at a time and builds a new list
+ * holding each hash as many times as the combine function asks for
+ *
+ * @param lists - Sorted hash lists, one entry per copy
+ * @param combine - Copies to keep, given the copies in each list
+ * @returns Sorted merged list
+ */
+function mergeCounts(lists: Uint32Array[], combine: (counts: number[]) => number): Uint32Array {
+    const positions = lists.map(() => 0);
+    const merged: number[] = [];
+
+    for (;;) {
+        // Smallest hash not yet visited in any list
+        let hash = -1;
+        lists.forEach((list, index) => {
+            if (positions[index] < list.length && (hash < 0 || list[positions[index]] < hash)) {
+                hash = list[positions[index]];
+            }
+        });
+
+        if (hash < 0) {
+            return Uint32Array.from(merged);
+        }
+
+        const counts = lists.map((list, index) => {
+            let count = 0;
+            while (positions[index] < list.length && list[positions[index]] === hash) {
+                count++;
+                positions[index]++;
+            }
+            return count;
+        });
+
+        for (let copy = combine(counts); copy > 0; copy--) {
+            merged.push(hash);
+        }
+    }
+}
+
+/**
+ * Estimates the memory a document's mark uses
+ *
+ * @param key - Document URI string
+ * @param mark - Sorted line hashes of the mark
+ * @param removable - Sorted hashes of baseline lines not yet deleted
+ * @returns Approximate size in bytes
+ */
+function sizeOf(key: string, mark: Uint32Array, removable: Uint32Array): number {
+    return MARK_OVERHEAD_BYTES + key.length * 2 + mark.byteLength + removable.byteLength;
+}
+
+/**
+ * Collects the hashes of a snapshot's meaningful lines in ascending order
+ *
+ * @param snapshot - Snapshot to read
+ * @returns Sorted hashes, one per meaningful line
+ */
+function meaningfulHashes(snapshot: DocumentSnapshot): Uint32Array {
+    const hashes: number[] = [];
+    for (let i = 0; i < snapshot.hashes.length; i++) {
+        if (snapshot.flags[i]) {
+            hashes.push(snapshot.hashes[i]);
+        }
+    }
+    return Uint32Array.from(hashes).sort();
+}
@@ -0,0 +1,591 @@
+/**
+ * LanguageProfiles.ts
+ *
+ * Registry of language profiles: the comment, string and trivial-line syntax
+ * CommentLexer needs for each language, plus the file extensions used to pick
+ * a profile when the editor does not know a file's language. Built-in
+ * profiles cover every tracked extension and users can add or override
+ * profiles through the extension configuration.
+ */
+
+import {
+    BlockCommentDelimiter,
+    CommentSyntax,
+    StringDelimiter
+} from './CommentLexer';
+import { LanguageProfileSetting } from './types';
+
+/**
+ * Comment syntax for a language and the files it applies to
+ */
+export interface LanguageProfile extends CommentSyntax {
+    /** Language identifier, matching VS Code's languageId where one exists */
+    id: string;
+
+    /** Other language identifiers that share this profile */
+    aliases?: string[];
+
+    /** File extensions (with the dot) used when the language ID is unknown */
+    extensions: string[];
+}
+
+// ========================================
+// SHARED SYNTAX
+// ========================================
+
+const DOUBLE_QUOTE: StringDelimiter = { open: '"', close: '"', escapes: true };
+const SINGLE_QUOTE: StringDelimiter = { open: "'", close: "'", escapes: true };
+const BACKTICK: StringDelimiter = { open: '`', close: '`', multiline: true, escapes: true };
+const TRIPLE_DOUBLE: StringDelimiter = { open: '"""', close: '"""', multiline: true, escapes: true };
+const TRIPLE_SINGLE: StringDelimiter = { open: "'''", close: "'''", multiline: true, escapes: true };
+
+/** Quotes without backslash escapes (doubled quotes escape instead) */
+const PLAIN_DOUBLE_QUOTE: StringDelimiter = { open: '"', close: '"' };
+const PLAIN_SINGLE_QUOTE: StringDelimiter = { open: "'", close: "'" };
+
+const C_BLOCK: BlockCommentDelimiter = { open: '/*', close: '*/' };
+const C_BLOCK_NESTED: BlockCommentDelimiter = { open: '/*', close: '*/', nested: true };
+const ML_BLOCK_NESTED: BlockCommentDelimiter = { open: '(*', close: '*)', nested: true };
+
+/** Matches JSDoc-style continuation lines such as "* text" when seen on their own */
+const STAR_CONTINUATION = /^\*(\s|\/|$)/;
+
+const C_STYLE: CommentSyntax = {
+    lineComments: ['//'],
+    blockComments: [C_BLOCK],
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE],
+    trivialLinePatterns: [STAR_CONTINUATION]
+};
+
+const JS_STYLE: CommentSyntax = {
+    ...C_STYLE,
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE, BACKTICK]
+};
+
+const NESTED_C_STYLE: CommentSyntax = {
+    ...C_STYLE,
+    blockComments: [C_BLOCK_NESTED],
+    strings: [TRIPLE_DOUBLE, DOUBLE_QUOTE]
+};
+
+const HASH_STYLE: CommentSyntax = {
+    lineComments: ['#'],
+    blockComments: [],
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE]
+};
+
+const MARKUP_STYLE: CommentSyntax = {
+    lineComments: [],
+    blockComments: [{ open: '<!--', close: '-->' }],
+    strings: []
+};
+
+const CSS_STYLE: CommentSyntax = {
+    lineComments: [],
+    blockComments: [C_BLOCK],
+    strings: [DOUBLE_QUOTE, SINGLE_QUOTE],
+    trivialLinePatterns: [STAR_CONTINUATION]
+};
+
+const CSS_PREPROCESSOR_STYLE: CommentSyntax = {
+    ...CSS_STYLE,
+    lineComments: ['//']
+};
+
+const SQL_STYLE: CommentSyntax = {
+    lineComments: ['--'],
+    blockComments: [C_BLOCK],
+    strings: [PLAIN_SINGLE_QUOTE, PLAIN_DOUBLE_QUOTE]
+};
+
+const HASKELL_STYLE: CommentSyntax = {
+    lineComments: ['--'],
+    blockComments: [{ open: '{-', close: '-}', nested: true }],
+    strings: [DOUBLE_QUOTE]
+};
+
+const LISP_STYLE: CommentSyntax = {
+    lineComments: [';'],
+    blockComments: [{ open: '#|', close: '|#', nested: true }],
+    strings: [DOUBLE_QUOTE]
+};
+
+const ASSEMBLY_STYLE: CommentSyntax = {
+    lineComments: [';', '#'],
+    blockComments: [],
+    strings: [DOUBLE_QUOTE]
+};
+
+const MATLAB_STYLE: CommentSyntax = {
+    lineComments: ['%'],
+    blockComments: [{ open: '%{', close: '%}' }],
+    strings: [DOUBLE_QUOTE]
+};
+
+const FORTRAN_STYLE: CommentSyntax = {
+    lineComments: ['!'],
+    blockComments: [],
+    strings: [PLAIN_DOUBLE_QUOTE, PLAIN_SINGLE_QUOTE]
+};
+
+const DASH_STYLE: CommentSyntax = {
+    lineComments: ['--'],
+    blockComments: [],
+    strings: [PLAIN_DOUBLE_QUOTE]
+};
+
+const PLAIN_STYLE: CommentSyntax = {
+    lineComments: [],
+    blockComments: [],
+    strings: []
+};
+
+// ========================================
+// BUILT-IN PROFILES
+// ========================================
+
+/**
+ * Profiles shipped with the extension, covering every tracked file extension
+ */
+export const BUILT_IN_PROFILES: readonly LanguageProfile[] = [
+    // ---------- C-style + JSDoc ----------
+    { id: 'javascript', extensions: ['.js', '.mjs', '.cjs'], ...JS_STYLE },
+    { id: 'javascriptreact', extensions: ['.jsx'], ...JS_STYLE },
+    { id: 'typescript', extensions: ['.ts', '.mts', '.cts'], ...JS_STYLE },
+    { id: 'typescriptreact', extensions: ['.tsx'], ...JS_STYLE },
+    { id: 'java', extensions: ['.java'], ...C_STYLE, strings: [TRIPLE_DOUBLE, DOUBLE_QUOTE, SINGLE_QUOTE] },
+    { id: 'c', extensions: ['.c', '.h'], ...C_STYLE },
+    { id: 'cpp', extensions: ['.cpp', '.cc', '.cxx', '.hpp', '.hh'], ...C_STYLE },
+    { id: 'csharp', extensions: ['.cs'], ...C_STYLE },
+    { id: 'objective-c', extensions: [], ...C_STYLE },
+    {
+        id: 'go',
+        extensions: ['.go'],
+        ...C_STYLE,
+        strings: [DOUBLE_QUOTE, SINGLE_QUOTE, { open: '`', close: '`', multiline: true }]
+    },
+    { id: 'rust', extensions: ['.rs'], ...NESTED_C_STYLE, strings: [DOUBLE_QUOTE] },
+    { id: 'php', extensions: ['.php'], ...C_STYLE, lineComments: ['//', '#'] },
+    { id: 'swift', extensions: ['.swift'], ...NESTED_C_STYLE },
+    { id: 'kotlin', extensions: ['.kt', '.kts'], ...NESTED_C_STYLE },
+    { id: 'scala', extensions: ['.scala', '.sc'], ...NESTED_C_STYLE },
+    { id: 'zig', extensions: ['.zig'], ...C_STYLE, blockComments: [] },
+    {
+        id: 'dart',
+        extensions: ['.dart'],
+        ...NESTED_C_STYLE,
+        strings: [TRIPLE_DOUBLE, TRIPLE_SINGLE, DOUBLE_QUOTE, SINGLE_QUOTE]
+    },
+    {
+        id: 'groovy',
+        extensions: ['.groovy', '.gradle'],
+        ...C_STYLE,
+        strings: [TRIPLE_DOUBLE, TRIPLE_SINGLE, DOUBLE_QUOTE, SINGLE_QUOTE]
+    },
+    { id: 'solidity', extensions: ['.sol'], ...C_STYLE },
+    { id: 'verilog', aliases: ['systemverilog'], extensions: ['.v', '.sv', '.vh'], ...C_STYLE, strings: [DOUBLE_QUOTE] },
+    {
+        id: 'pony',
+        extensions: ['.pony'],
+        ...NESTED_C_STYLE,
+        docStrings: ['"""']
+    },
+    {
+        id: 'prolog',
+        extensions: ['.pro', '.prolog'],
+        lineComments: ['%'],
+        blockComments: [C_BLOCK],
+        strings: [DOUBLE_QUOTE, SINGLE_QUOTE]
+    },
+    {
+        id: 'jsonc',
+        extensions: ['.jsonc'],
+        lineComments: ['//'],
+        blockComments: [C_BLOCK],
+        strings: [DOUBLE_QUOTE]
+    },
+
+    // ---------- Hash-style ----------
+    {
+        id: 'python',
+        extensions: ['.py', '.pyw', '.pyi'],
+        ...HASH_STYLE,
+        strings: [TRIPLE_DOUBLE, TRIPLE_SINGLE, DOUBLE_QUOTE, SINGLE_QUOTE],
+        docStrings: ['"""', "'''"]
+    },
+    {
+        id: 'gdscript',
+        extensions: ['.gd'],
+        ...HASH_STYLE,
+        strings: [TRIPLE_DOUBLE, DOUBLE_QUOTE, SINGLE_QUOTE],
+        docStrings: ['"""']
+    },
+    { id: 'ruby', extensions: ['.rb'], ...HASH_STYLE, blockComments: [{ open: '=begin', close: '=end' }] },
+    { id: 'crystal', extensions: ['.cr'], ...HASH_STYLE },
+    {
+        id: 'elixir',
+        extensions: ['.ex', '.exs'],
+        ...HASH_STYLE,
+        strings: [TRIPLE_DOUBLE, TRIPLE_SINGLE, DOUBLE_QUOTE, SINGLE_QUOTE]
+    },
+    {
+        id: 'nim',
+        extensions: ['.nim', '.nims'],
+        ...HASH_STYLE,
+        blockComments: [{ open: '#[', close: ']#', nested: true }],
+        strings: [TRIPLE_DOUBLE, DOUBLE_QUOTE, SINGLE_QUOTE]
+    },
+    { id: 'shellscript', aliases: ['bash', 'zsh', 'sh'], extensions: ['.sh', '.bash', '.zsh'], ...HASH_STYLE },
+    {
+        id: 'powershell',
+        extensions: ['.ps1', '.psm1', '.psd1'],
+        ...HASH_STYLE,
+        blockComments: [{ open: '<#', close: '#>' }]
+    },
+    { id: 'makefile', extensions: ['.mk', '.mak'], ...HASH_STYLE, strings: [] },
+    { id: 'perl', extensions: ['.pl', '.pm'], ...HASH_STYLE, blockComments: [{ open: '=pod', close: '=cut' }] },
+    { id: 'r', extensions: ['.r'], ...HASH_STYLE },
+    {
+        id: 'julia',
+        extensions: ['.jl'],
+        ...HASH_STYLE,
+        blockComments: [{ open: '#=', close: '=#', nested: true }],
+        strings: [TRIPLE_DOUBLE, DOUBLE_QUOTE]
+    },
+    { id: 'awk', extensions: ['.awk'], ...HASH_STYLE, strings: [DOUBLE_QUOTE] },
+    {
+        id: 'tcl',
+        extensions: ['.tcl'],
+        // "#" only starts a comment where a command could start
+        lineComments: [';#'],
+        blockComments: [],
+        strings: [DOUBLE_QUOTE],
+        trivialLinePatterns: [/^#/]
+    },
+    { id: 'yaml', extensions: ['.yml', '.yaml'], ...HASH_STYLE },
+    {
+        id: 'toml',
+        extensions: ['.toml'],
+        ...HASH_STYLE,
+        strings: [TRIPLE_DOUBLE, TRIPLE_SINGLE, DOUBLE_QUOTE, SINGLE_QUOTE]
+    },
+    {
+        id: 'ini',
+        extensions: ['.ini', '.cfg', '.conf'],
+        // Comments only start at the beginning of a line, "#" may appear in values
+        ...PLAIN_STYLE,
+        trivialLinePatterns: [/^[;#]/]
+    },
+
+    // ---------- HTML / XML ----------
+    { id: 'html', extensions: ['.html', '.htm'], ...MARKUP_STYLE },
+    { id: 'xml', extensions: ['.xml', '.xaml', '.opml', '.plist'], ...MARKUP_STYLE },
+    { id: 'xhtml', extensions: ['.xhtml'], ...MARKUP_STYLE },
+    { id: 'svg', extensions: ['.svg'], ...MARKUP_STYLE },
+    { id: 'markdown', extensions: ['.md', '.markdown'], ...MARKUP_STYLE },
+    { id: 'mdx', extensions: ['.mdx'], ...MARKUP_STYLE },
+    { id: 'wikitext', extensions: ['.wiki', '.mediawiki'], ...MARKUP_STYLE },
+
+    // ---------- Documentation / text ----------
+    {
+        id: 'restructuredtext',
+        extensions: ['.rst'],
+        // ".." starts a comment unless it is a directive such as ".. code-block::"
+        ...PLAIN_STYLE,
+        trivialLinePatterns: [/^\.\.(?!.*::)(\s|$)/]
+    },
+    {
+        id: 'asciidoc',
+        extensions: ['.adoc', '.asciidoc'],
+        ...PLAIN_STYLE,
+        blockComments: [{ open: '////', close: '////' }],
+        trivialLinePatterns: [/^\/\/(?!\/\/)/]
+    },
+    { id: 'latex', aliases: ['tex'], extensions: ['.tex', '.sty', '.cls'], ...PLAIN_STYLE, lineComments: ['%'] },
+    { id: 'bibtex', extensions: ['.bib'], ...PLAIN_STYLE, lineComments: ['%'] },
+    {
+        id: 'org',
+        extensions: ['.org'],
+        ...PLAIN_STYLE,
+        blockComments: [
+            { open: '#+BEGIN_COMMENT', close: '#+END_COMMENT' },
+            { open: '#+begin_comment', close: '#+end_comment' }
+        ],
+        trivialLinePatterns: [/^#(\s|$)/]
+    },
+    { id: 'json', extensions: ['.json', '.ipynb'], ...PLAIN_STYLE, strings: [DOUBLE_QUOTE] },
+    { id: 'csv', extensions: ['.csv'], ...PLAIN_STYLE },
+    { id: 'tsv', extensions: ['.tsv'], ...PLAIN_STYLE },
+    { id: 'plaintext', extensions: ['.txt'], ...PLAIN_STYLE },
+
+    // ---------- CSS ----------
+    { id: 'css', extensions: ['.css'], ...CSS_STYLE },
+    { id: 'postcss', extensions: ['.pcss', '.postcss'], ...CSS_STYLE },
+    { id: 'scss', extensions: ['.scss'], ...CSS_PREPROCESSOR_STYLE },
+    { id: 'sass', extensions: ['.sass'], ...CSS_PREPROCESSOR_STYLE },
+    { id: 'less', extensions: ['.less'], ...CSS_PREPROCESSOR_STYLE },
+    { id: 'stylus', extensions: ['.styl'], ...CSS_PREPROCESSOR_STYLE },
+
+    // ---------- Lua ----------
+    {
+        id: 'lua',
+        extensions: ['.lua'],
+        lineComments: ['--'],
+        blockComments: [{ open: '--[[', close: ']]' }],
+        strings: [DOUBLE_QUOTE, SINGLE_QUOTE, { open: '[[', close: ']]', multiline: true }]
+    },
+
+    // ---------- SQL ----------
+    { id: 'sql', aliases: ['postgresql', 'sqlite'], extensions: ['.sql'], ...SQL_STYLE },
+    { id: 'mysql', extensions: [], ...SQL_STYLE, lineComments: ['--', '#'] },
+
+    // ---------- Ada / Eiffel ----------
+    { id: 'ada', extensions: ['.ada', '.adb', '.ads'], ...DASH_STYLE },
+    { id: 'eiffel', extensions: ['.e'], ...DASH_STYLE },
+
+    // ---------- Haskell / Elm ----------
+    { id: 'haskell', extensions: ['.hs', '.lhs'], ...HASKELL_STYLE },
+    { id: 'elm', extensions: ['.elm'], ...HASKELL_STYLE },
+
+    // ---------- ML family ----------
+    {
+        id: 'fsharp',
+        extensions: ['.fs', '.fsi', '.fsx'],
+        lineComments: ['//'],
+        blockComments: [ML_BLOCK_NESTED],
+        strings: [TRIPLE_DOUBLE, DOUBLE_QUOTE]
+    },
+    {
+        id: 'ocaml',
+        aliases: ['ocaml.interface'],
+        extensions: ['.ml', '.mli'],
+        lineComments: [],
+        blockComments: [ML_BLOCK_NESTED],
+        strings: [DOUBLE_QUOTE]
+    },
+
+    // ---------- Lisp family ----------
+    { id: 'lisp', aliases: ['commonlisp', 'elisp', 'emacs-lisp'], extensions: ['.lisp', '.lsp', '.el'], ...LISP_STYLE },
+    { id: 'scheme', extensions: ['.scm', '.ss'], ...LISP_STYLE },
+    { id: 'racket', extensions: ['.rkt'], ...LISP_STYLE },
+    { id: 'clojure', extensions: ['.clj', '.cljs', '.cljc', '.edn'], ...LISP_STYLE, blockComments: [] },
+
+    // ---------- Smalltalk ----------
+    {
+        id: 'smalltalk',
+        extensions: ['.smalltalk', '.st'],
+        // Comments are double-quoted, strings single-quoted
+        lineComments: [],
+        blockComments: [{ open: '"', close: '"' }],
+        strings: [PLAIN_SINGLE_QUOTE]
+    },
+
+    // ---------- Fortran / COBOL ----------
+    {
+        id: 'FortranFreeForm',
+        aliases: ['fortran', 'fortran90'],
+        extensions: ['.f90', '.f95', '.f03', '.f08'],
+        ...FORTRAN_STYLE
+    },
+    {
+        id: 'FortranFixedForm',
+        aliases: ['fortran_fixed-form'],
+        extensions: ['.f', '.for', '.f77'],
+        // "C" or "*" in the first column marks a comment line
+        ...FORTRAN_STYLE,
+        trivialLinePatterns: [/^[cC*](\s|$)/]
+    },
+    {
+        id: 'cobol',
+        aliases: ['COBOL'],
+        extensions: ['.cob', '.cbl', '.cpy'],
+        // "*" or "/" in the indicator column (after an optional sequence number) marks a comment
+        lineComments: ['*>'],
+        blockComments: [],
+        strings: [PLAIN_DOUBLE_QUOTE, PLAIN_SINGLE_QUOTE],
+        trivialLinePatterns: [/^(\d{6})?[*/]/]
+    },
+
+    // ---------- Assembly ----------
+    { id: 'asm', aliases: ['assembly'], extensions: ['.asm', '.s'], ...ASSEMBLY_STYLE },
+
+    // ---------- MATLAB / Octave ----------
+    { id: 'matlab', extensions: ['.m'], ...MATLAB_STYLE },
+    { id: 'octave', extensions: [], ...MATLAB_STYLE, lineComments: ['%', '#'] }
+];
+
+// ========================================
+// REGISTRY
+// ========================================
+
+/**
+ * Looks up language profiles by language ID or file extension,
+ * combining the built-in profiles with user settings
+ */
+export class LanguageProfileRegistry {
+    /**
+     * Profiles by language ID and alias
+     */
+    private byLanguage = new Map<string, LanguageProfile>();
+
+    /**
+     * Profiles by lower-case file extension
+     */
+    private byExtension = new Map<string, LanguageProfile>();
+
+    /**
+     * Creates a new LanguageProfileRegistry instance
+     *
+     * @param settings - User profiles that add to or override the built-in ones
+     */
+    constructor(settings: readonly LanguageProfileSetting[] = []) {
+        this.configure(settings);
+    }
+
+    /**
+     * Rebuilds the registry from the built-in profiles and user settings
+     * A setting whose id matches an existing profile overrides only the fields it sets
+     *
+     * @param settings - User profiles that add to or override the built-in ones
+     */
+    configure(settings: readonly LanguageProfileSetting[]): void {
+        const profiles = new Map<string, LanguageProfile>(
+            BUILT_IN_PROFILES.map(profile => [profile.id, profile])
+        );
+
+        for (const setting of settings) {
+            const base = profiles.get(setting.id)
+                ?? { id: setting.id, extensions: [], ...PLAIN_STYLE };
+            profiles.set(setting.id, applySetting(base, setting));
+        }
+
+        this.byLanguage.clear();
+        this.byExtension.clear();
+
+        for (const profile of profiles.values()) {
+            for (const languageId of [profile.id, ...(profile.aliases ?? [])]) {
+                this.byLanguage.set(languageId, profile);
+            }
+            for (const extension of profile.extensions) {
+                this.byExtension.set(extension.toLowerCase(), profile);
+            }
+        }
+    }
+
+    /**
+     * Gets the profile for a language ID or alias
+     *
+     * @param languageId - Programming language identifier
+     * @returns Profile, or undefined if the language is unknown
+     */
+    getProfile(languageId: string): LanguageProfile | undefined {
+        return this.byLanguage.get(languageId);
+    }
+
+    /**
+     * Gets the profile for a file from its extension
+     * Longer extensions win, so ".module.css" could be given its own profile
+     *
+     * @param filePath - File path or name
+     * @returns Profile, or undefined if no profile claims the extension
+     */
+    getProfileForPath(filePath: string): LanguageProfile | undefined {
+        const fileName = filePath.replace(/\\/g, '/').split('/').pop()!.toLowerCase();
+
+        for (let dot = fileName.indexOf('.'); dot !== -1; dot = fileName.indexOf('.', dot + 1)) {
+            const profile = this.byExtension.get(fileName.slice(dot));
+            if (profile) {
+                return profile;
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Picks the profile for a document, falling back to its file extension
+     * when the editor reports a language without a profile (e.g. plaintext)
+     *
+     * @param languageId - Language reported by the editor
+     * @param filePath - File path of the document
+     * @returns Profile, or undefined if neither matches
+     */
+    resolve(languageId: string, filePath?: string): LanguageProfile | undefined {
+        const profile = this.getProfile(languageId);
+        if (profile && (profile.id !== 'plaintext' || !filePath)) {
+            return profile;
+        }
+
+        return (filePath ? this.getProfileForPath(filePath) : undefined) ?? profile;
+    }
+
+    /**
+     * Gets every registered profile
+     *
+     * @returns Profiles, each listed once
+     */
+    getProfiles(): LanguageProfile[] {
+        return [...new Set(this.byLanguage.values())];
+    }
+}
+
+/**
+ * Registry shared by everything that lexes code; configured from user settings by CodeTracker
+ */
+export const languageProfiles = new LanguageProfileRegistry();
+
+/**
+ * Applies a user setting on top of a profile
+ *
+ * @param base - Profile to override
+ * @param setting - User setting
+ * @returns New profile
+ */
+function applySetting(base: LanguageProfile, setting: LanguageProfileSetting): LanguageProfile {
+    const profile: LanguageProfile = { ...base };
+
+    if (setting.aliases) {
+        profile.aliases = setting.aliases;
+    }
+    if (setting.extensions) {
+        profile.extensions = setting.extensions;
+    }
+    if (setting.lineComments) {
+        profile.lineComments = setting.lineComments;
+    }
+    if (setting.blockComments) {
+        profile.blockComments = setting.blockComments;
+    }
+    if (setting.strings) {
+        profile.strings = setting.strings;
+    }
+    if (setting.docStrings) {
+        profile.docStrings = setting.docStrings;
+    }
+    if (setting.trivialLinePatterns) {
+        profile.trivialLinePatterns = compilePatterns(setting.id, setting.trivialLinePatterns);
+    }
+
+    return profile;
+}
+
+/**
+ * Compiles user-supplied regular expressions, skipping invalid ones
+ *
+ * @param profileId - Profile the patterns belong to (for warnings)
+ * @param patterns - Regular expression sources
+ * @returns Compiled patterns
+ */
+function compilePatterns(profileId: string, patterns: readonly string[]): RegExp[] {
+    const compiled: RegExp[] = [];
+
+    for (const pattern of patterns) {
+        try {
+            compiled.push(new RegExp(pattern));
+        } catch (error) {
+            console.warn(`Code to Play: invalid trivial line pattern for ${profileId}: ${pattern}`, error);
+        }
+    }
+
+    return compiled;
+}
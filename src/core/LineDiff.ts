@@ -0,0 +1,198 @@
+/**
+ * LineDiff.ts
+ *
+ * Line-level diffing used by CodeTracker to work out which lines were really
+ * added, modified or removed between two versions of a document.
+ * Implements Myers' O((N+M)D) algorithm after trimming the common prefix/suffix.
+ */
+
+/**
+ * A contiguous region where the old and new sequences differ
+ */
+export interface DiffHunk {
+    /** Index of the first removed element in the old sequence */
+    oldStart: number;
+
+    /** Number of elements removed from the old sequence */
+    oldCount: number;
+
+    /** Index of the first inserted element in the new sequence */
+    newStart: number;
+
+    /** Number of elements inserted into the new sequence */
+    newCount: number;
+}
+
+/**
+ * Maximum edit distance explored before giving up and treating the
+ * remaining middle section as one replaced block
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Computes the hunks needed to turn one sequence into another
+ * Elements are compared with strict equality, so lines or line hashes both work
+ *
+ * @param oldLines - Previous version of the sequence
+ * @param newLines - Current version of the sequence
+ * @returns Ordered list of differing regions
+ */
+export function diffLines<T>(
+    oldLines: ArrayLike<T>,
+    newLines: ArrayLike<T>
+): DiffHunk[] {
+    // Skip the unchanged head and tail, most edits are local
+    let prefix = 0;
+    const maxPrefix = Math.min(oldLines.length, newLines.length);
+    while (prefix < maxPrefix && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    const maxSuffix = maxPrefix - prefix;
+    while (
+        suffix < maxSuffix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    // Only the changed middle is copied, which also turns typed arrays into plain arrays
+    const a: T[] = Array.prototype.slice.call(oldLines, prefix, oldLines.length - suffix);
+    const b: T[] = Array.prototype.slice.call(newLines, prefix, newLines.length - suffix);
+
+    if (a.length === 0 && b.length === 0) {
+        return [];
+    }
+
+    const hunks = myersDiff(a, b);
+
+    // Shift hunks back into the coordinates of the full sequences
+    return hunks.map(hunk => ({
+        oldStart: hunk.oldStart + prefix,
+        oldCount: hunk.oldCount,
+        newStart: hunk.newStart + prefix,
+        newCount: hunk.newCount
+    }));
+}
+
+/**
+ * Runs Myers' shortest edit script search and groups the result into hunks
+ *
+ * @param a - Old sequence (already trimmed)
+ * @param b - New sequence (already trimmed)
+ * @returns Ordered list of differing regions
+ * @private
+ */
+function myersDiff<T>(a: readonly T[], b: readonly T[]): DiffHunk[] {
+    const n = a.length;
+    const m = b.length;
+
+    // Pure insertion or pure deletion needs no search
+    if (n === 0 || m === 0) {
+        return [{ oldStart: 0, oldCount: n, newStart: 0, newCount: m }];
+    }
+
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+
+    // trace[d] holds the furthest x per diagonal before step d, for k in -d..d
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+
+        for (let k = -d; k <= d; k += 2) {
+            let x: number;
+            if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+                x = v[offset + k + 1];
+            } else {
+                x = v[offset + k - 1] + 1;
+            }
+
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+
+            v[offset + k] = x;
+
+            if (x >= n && y >= m) {
+                return backtrack(trace, d, n, m);
+            }
+        }
+    }
+
+    // Too many differences to be worth the search, treat it as one block
+    return [{ oldStart: 0, oldCount: n, newStart: 0, newCount: m }];
+}
+
+/**
+ * Walks the Myers trace backwards to recover edits and groups them into hunks
+ *
+ * @param trace - Saved diagonal state for each edit distance
+ * @param distance - Edit distance at which the search finished
+ * @param n - Length of the old sequence
+ * @param m - Length of the new sequence
+ * @returns Ordered list of differing regions
+ * @private
+ */
+function backtrack(
+    trace: Int32Array[],
+    distance: number,
+    n: number,
+    m: number
+): DiffHunk[] {
+    // Each edit is recorded at the (x, y) position it starts from
+    const edits: { x: number; y: number; isInsert: boolean }[] = [];
+    let x = n;
+    let y = m;
+
+    for (let d = distance; d > 0; d--) {
+        const v = trace[d];
+        const k = x - y;
+        const at = (diagonal: number) => v[diagonal + d];
+
+        const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1)))
+            ? k + 1
+            : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+
+        // Follow the snake of equal elements back to the edit
+        while (x > prevX && y > prevY) {
+            x--;
+            y--;
+        }
+
+        edits.push({ x: prevX, y: prevY, isInsert: prevK === k + 1 });
+        x = prevX;
+        y = prevY;
+    }
+
+    edits.reverse();
+
+    const hunks: DiffHunk[] = [];
+    let current: DiffHunk | null = null;
+
+    for (const edit of edits) {
+        const continues = current !== null &&
+            current.oldStart + current.oldCount === edit.x &&
+            current.newStart + current.newCount === edit.y;
+
+        if (!continues) {
+            current = { oldStart: edit.x, oldCount: 0, newStart: edit.y, newCount: 0 };
+            hunks.push(current);
+        }
+
+        if (edit.isInsert) {
+            current!.newCount++;
+        } else {
+            current!.oldCount++;
+        }
+    }
+
+    return hunks;
+}
@@ -0,0 +1,165 @@
+/**
+ * PlayLedger.ts
+ *
+ * Append-only ledger behind the global play state. Every change to plays
+ * remaining, unlock progress or the lock is recorded as a transaction with
+ * its source and time, and the global play state is computed by replaying
+ * the ledger, so every balance can be traced back to what caused it.
+ *
+ * To keep storage bounded, progress earned in a row from the same source is
+ * merged into one entry until something else happens to the balance (such as
+ * the unlock it leads to), and the oldest entries are folded into the opening
+ * balance once the ledger grows past its limit.
+ */
+
+import { GlobalPlayState, LedgerEntry, PlayLedgerState, PlayTransaction, PlayTransactionType } from './types';
+
+/**
+ * Most entries kept before the oldest are folded into the opening balance
+ */
+const LEDGER_LIMIT = 1000;
+
+/**
+ * Precision progress is rounded to, so fractional credit does not drift
+ */
+const PROGRESS_PRECISION = 1e6;
+
+/**
+ * Creates an empty ledger
+ *
+ * @param opening - Balance the ledger starts from
+ * @returns Ledger with no entries
+ */
+export function openLedger(opening: GlobalPlayState): PlayLedgerState {
+    return { opening: { ...opening }, entries: [], nextId: 1 };
+}
+
+/**
+ * Records a transaction at the end of a ledger
+ *
+ * @param ledger - Ledger to append to (not modified)
+ * @param transaction - Transaction to record
+ * @param timestamp - When the transaction happened
+ * @returns New ledger holding the transaction
+ */
+export function appendTransaction(
+    ledger: PlayLedgerState,
+    transaction: PlayTransaction,
+    timestamp: number = Date.now()
+): PlayLedgerState {
+    const last = ledger.entries[ledger.entries.length - 1];
+    if (last && canMerge(last, transaction)) {
+        const merged: LedgerEntry = {
+            ...last,
+            plays: last.plays + transaction.plays,
+            progress: roundProgress(last.progress + transaction.progress),
+            timestamp,
+            count: (last.count ?? 1) + 1
+        };
+        return { ...ledger, entries: [...ledger.entries.slice(0, -1), merged] };
+    }
+
+    const entry: LedgerEntry = { ...transaction, id: ledger.nextId, timestamp };
+    let opening = ledger.opening;
+    let entries = [...ledger.entries, entry];
+
+    // Fold the oldest entries into the opening balance
+    if (entries.length > LEDGER_LIMIT) {
+        const folded = entries.slice(0, entries.length - LEDGER_LIMIT);
+        opening = folded.reduce(applyTransaction, opening);
+        entries = entries.slice(folded.length);
+    }
+
+    return { opening, entries, nextId: ledger.nextId + 1 };
+}
+
+/**
+ * Computes the current balance of a ledger
+ *
+ * @param ledger - Ledger to replay
+ * @returns Global play state after every entry
+ */
+export function projectLedger(ledger: PlayLedgerState): GlobalPlayState {
+    return ledger.entries.reduce(applyTransaction, { ...ledger.opening });
+}
+
+/**
+ * Computes the balance after each entry of a ledger
+ *
+ * @param ledger - Ledger to replay
+ * @returns Global play state after each entry, in entry order
+ */
+export function replayLedger(ledger: PlayLedgerState): GlobalPlayState[] {
+    const balances: GlobalPlayState[] = [];
+    ledger.entries.reduce((state, entry) => {
+        const next = applyTransaction(state, entry);
+        balances.push(next);
+        return next;
+    }, ledger.opening);
+    return balances;
+}
+
+/**
+ * Builds the transaction that takes one balance to another
+ *
+ * @param from - Current balance
+ * @param to - Balance wanted
+ * @param type - Kind of transaction to record
+ * @param source - What caused the change
+ * @returns Transaction that moves the balance from one state to the other
+ */
+export function transactionBetween(
+    from: GlobalPlayState,
+    to: GlobalPlayState,
+    type: PlayTransactionType,
+    source: string
+): PlayTransaction {
+    return {
+        type,
+        source,
+        plays: to.playsRemaining - from.playsRemaining,
+        progress: to.linesWritten - from.linesWritten,
+        unlocked: to.isUnlocked
+    };
+}
+
+/**
+ * Whether a transaction can be merged into the entry before it
+ * Only earnings from the same source that neither lock nor unlock games are merged
+ *
+ * @param entry - Latest ledger entry
+ * @param transaction - Transaction being recorded
+ * @returns True if the transaction only adds to the entry's earnings
+ */
+function canMerge(entry: LedgerEntry, transaction: PlayTransaction): boolean {
+    return entry.type === 'earn'
+        && transaction.type === 'earn'
+        && entry.source === transaction.source
+        && entry.unlocked === undefined
+        && transaction.unlocked === undefined;
+}
+
+/**
+ * Rounds progress so fractional credit does not drift
+ *
+ * @param progress - Progress to round
+ * @returns Progress rounded to the ledger's precision
+ */
+function roundProgress(progress: number): number {
+    return Math.round(progress * PROGRESS_PRECISION) / PROGRESS_PRECISION;
+}
+
+/**
+ * Applies a transaction to a balance
+ *
+ * @param state - Balance before the transaction
+ * @param transaction - Transaction to apply
+ * @returns Balance after the transaction
+ */
+function applyTransaction(state: GlobalPlayState, transaction: PlayTransaction): GlobalPlayState {
+    return {
+        playsRemaining: state.playsRemaining + transaction.plays,
+        linesWritten: roundProgress(state.linesWritten + transaction.progress),
+        isUnlocked: transaction.unlocked ?? state.isUnlocked
+    };
+}
@@ -0,0 +1,288 @@
+/**
+ * ProblemTracker.ts
+ *
+ * Second earning channel that pays for fixing problems instead of writing lines.
+ * Watches the workspace's diagnostics and keeps, per file, the fewest problems of
+ * each severity seen so far. Only edits to that file that take it below that
+ * low-water mark earn progress, so adding a problem and fixing it again never
+ * pays. Files first seen after they were edited (such as files created this
+ * session) have a baseline of problems the user just wrote, so they never pay
+ * until a later session.
+ */
+
+import * as vscode from 'vscode';
+import {
+    ProblemCredit,
+    ProblemCreditConfig,
+    ProblemCreditState,
+    ProblemSeverity
+} from './types';
+import { StorageManager } from './StorageManager';
+
+/**
+ * Time after an edit to a file during which its falling problem counts are credited (milliseconds)
+ */
+const EDIT_WINDOW = 10000;
+
+/**
+ * Files whose low-water marks are kept in storage
+ */
+const MAX_STORED_FILES = 5000;
+
+/**
+ * Severity names by vscode.DiagnosticSeverity value
+ */
+const SEVERITIES: ProblemSeverity[] = ['error', 'warning', 'information', 'hint'];
+
+/**
+ * Credits unlock progress for problems fixed in the workspace
+ */
+export class ProblemTracker implements vscode.Disposable {
+    /**
+     * Disposables for cleanup
+     */
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Event emitter for fixed problems
+     */
+    private onCreditEmitter = new vscode.EventEmitter<ProblemCredit>();
+
+    /**
+     * Fires when fixing problems in a file earns progress
+     */
+    public readonly onCredit = this.onCreditEmitter.event;
+
+    /**
+     * Current problem credit configuration
+     */
+    private config: ProblemCreditConfig;
+
+    /**
+     * Low-water marks per file, loaded from workspace storage
+     */
+    private state: ProblemCreditState;
+
+    /**
+     * When each open document was last edited, by URI
+     */
+    private lastEditAt = new Map<string, number>();
+
+    /**
+     * Files whose baseline was taken after they were edited this session
+     */
+    private lateBaselines = new Set<string>();
+
+    /**
+     * Creates a new ProblemTracker instance
+     *
+     * @param storageManager - Storage manager for persisting low-water marks
+     */
+    constructor(private storageManager: StorageManager) {
+        this.config = storageManager.getConfig().problems;
+        this.state = storageManager.getProblemCreditState() ?? { lowWaterMarks: {} };
+        this.setupListeners();
+    }
+
+    // ========================================
+    // INITIALIZATION
+    // ========================================
+
+    /**
+     * Sets up event listeners for diagnostics and edits
+     *
+     * @private
+     */
+    private setupListeners(): void {
+        this.disposables.push(
+            vscode.languages.onDidChangeDiagnostics(this.handleDiagnosticsChange.bind(this)),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.contentChanges.length > 0) {
+                    this.recordEdit(event.document.uri.toString());
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                this.lastEditAt.delete(document.uri.toString());
+            })
+        );
+    }
+
+    // ========================================
+    // EVENT HANDLERS
+    // ========================================
+
+    /**
+     * Records that a document was edited
+     *
+     * @param key - Document URI string
+     * @private
+     */
+    private recordEdit(key: string): void {
+        this.lastEditAt.set(key, Date.now());
+    }
+
+    /**
+     * Reviews every file whose diagnostics changed
+     *
+     * @param event - Diagnostics change event
+     * @private
+     */
+    private handleDiagnosticsChange(event: vscode.DiagnosticChangeEvent): void {
+        if (!this.config.enabled) {
+            return;
+        }
+
+        let changed = false;
+        for (const uri of event.uris) {
+            changed = this.review(uri) || changed;
+        }
+
+        if (changed) {
+            this.storageManager.saveProblemCreditState(this.state);
+        }
+    }
+
+    /**
+     * Compares a file's problem counts with its low-water mark and credits any fixes
+     *
+     * @param uri - File whose diagnostics changed
+     * @returns True if the low-water mark changed
+     * @private
+     */
+    private review(uri: vscode.Uri): boolean {
+        const key = uri.toString();
+        const counts = countProblems(this.readDiagnostics(uri));
+        const mark = this.state.lowWaterMarks[key];
+
+        // The first counts seen for a file are its baseline; if it was already
+        // edited, they may be problems the user just wrote
+        if (!mark) {
+            if (this.lastEditAt.has(key)) {
+                this.lateBaselines.add(key);
+            }
+            this.state.lowWaterMarks[key] = counts;
+            this.trimState();
+            return true;
+        }
+
+        // Problems also vanish when files close or language servers restart
+        if (!this.isFixFromEdit(key)) {
+            return false;
+        }
+
+        const fixed: Partial<Record<ProblemSeverity, number>> = {};
+        let lines = 0;
+        let changed = false;
+
+        for (const severity of SEVERITIES) {
+            if (counts[severity] < mark[severity]) {
+                const count = mark[severity] - counts[severity];
+                fixed[severity] = count;
+                lines += count * Math.max(0, this.config.rates[severity] ?? 0);
+                mark[severity] = counts[severity];
+                changed = true;
+            }
+        }
+
+        if (lines > 0) {
+            this.onCreditEmitter.fire({ uri: key, fixed, lines, timestamp: Date.now() });
+        }
+
+        return changed;
+    }
+
+    /**
+     * Whether falling problem counts in a file come from the user's editing
+     *
+     * @param key - File URI string
+     * @returns True if the file is open, was edited moments ago and had a baseline before that
+     * @private
+     */
+    private isFixFromEdit(key: string): boolean {
+        const lastEditAt = this.lastEditAt.get(key);
+        if (lastEditAt === undefined || this.lateBaselines.has(key)) {
+            return false;
+        }
+
+        return this.isOpen(key) && Date.now() - lastEditAt < EDIT_WINDOW;
+    }
+
+    /**
+     * Whether a file is open in the editor
+     *
+     * @param key - File URI string
+     * @returns True if a text document for the file is open
+     * @private
+     */
+    private isOpen(key: string): boolean {
+        return vscode.workspace.textDocuments.some(
+            document => document.uri.toString() === key
+        );
+    }
+
+    /**
+     * Reads a file's diagnostics
+     *
+     * @param uri - File URI
+     * @returns Diagnostics from every source
+     * @private
+     */
+    private readDiagnostics(uri: vscode.Uri): readonly vscode.Diagnostic[] {
+        return vscode.languages.getDiagnostics(uri);
+    }
+
+    /**
+     * Drops the oldest low-water marks once too many files are stored
+     *
+     * @private
+     */
+    private trimState(): void {
+        const keys = Object.keys(this.state.lowWaterMarks);
+        for (const key of keys.slice(0, Math.max(0, keys.length - MAX_STORED_FILES))) {
+            delete this.state.lowWaterMarks[key];
+        }
+    }
+
+    // ========================================
+    // PUBLIC API
+    // ========================================
+
+    /**
+     * Updates the configuration used by the tracker
+     *
+     * @param config - New problem credit configuration
+     */
+    updateConfig(config: ProblemCreditConfig): void {
+        this.config = config;
+    }
+
+    // ========================================
+    // CLEANUP
+    // ========================================
+
+    /**
+     * Disposes of all resources
+     */
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.onCreditEmitter.dispose();
+    }
+}
+
+/**
+ * Counts diagnostics per severity
+ *
+ * @param diagnostics - Diagnostics for one file
+ * @returns Problem count for each severity
+ */
+function countProblems(diagnostics: readonly vscode.Diagnostic[]): Record<ProblemSeverity, number> {
+    const counts: Record<ProblemSeverity, number> = { error: 0, warning: 0, information: 0, hint: 0 };
+    for (const diagnostic of diagnostics) {
+        const severity = SEVERITIES[diagnostic.severity];
+        if (severity) {
+            counts[severity]++;
+        }
+    }
+    return counts;
+}
@@ -0,0 +1,333 @@
+/**
+ * ProseTracker.ts
+ *
+ * Documentation mode for prose files such as Markdown, reStructuredText,
+ * AsciiDoc, LaTeX and plain text. Line counts mean little for wrapped prose,
+ * so these files earn credit for words or sentences written instead,
+ * converted to line-equivalents at a configurable ratio.
+ *
+ * Front matter and tables of contents never count. Fenced code blocks are
+ * counted as code lines rather than words. Like the line high-water marks,
+ * each document only earns for prose beyond the most it has held while open,
+ * so deleting and retyping a paragraph never pays twice.
+ */
+
+import { CodeChange, ProseConfig } from './types';
+
+/**
+ * Prose measured in a document
+ */
+export interface ProseCount {
+    /** Words outside front matter, tables of contents and code */
+    words: number;
+
+    /** Sentences outside front matter, tables of contents and code */
+    sentences: number;
+
+    /** Non-blank lines inside fenced code blocks */
+    codeLines: number;
+}
+
+/**
+ * Lines that start a fenced code block (``` or ~~~, indented up to three spaces)
+ */
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Lines that open front matter (YAML or TOML) on the first line of a file
+ */
+const FRONT_MATTER = /^(---|\+\+\+)\s*$/;
+
+/**
+ * Markers that open a generated table of contents block
+ */
+const TOC_START = /^\s*<!--\s*toc\s*-->\s*$/i;
+
+/**
+ * Markers that close a generated table of contents block
+ */
+const TOC_END = /^\s*<!--\s*(tocstop|\/toc)\s*-->\s*$/i;
+
+/**
+ * Single-line table of contents directives (Markdown, reStructuredText, AsciiDoc, LaTeX)
+ */
+const TOC_DIRECTIVES = [
+    /^\s*\[\[_TOC_\]\]\s*$/,
+    /^\s*\[TOC\]\s*$/i,
+    /^\s*\.\.\s+contents::/,
+    /^\s*:toc:/,
+    /^\s*toc::\[\]\s*$/,
+    /^\s*\\tableofcontents\b/
+];
+
+/**
+ * List items that only link to a heading in the same document
+ */
+const TOC_ENTRY = /^\s*(?:[-*+]|\d+\.)\s+\[[^\]]*\]\(#[^)]*\)\s*$/;
+
+/**
+ * Lines that start a new block of prose (headings and list items)
+ */
+const BLOCK_START = /^\s*(?:#{1,6}\s|[-*+]\s|\d+[.)]\s|=+\s*$|-+\s*$)/;
+
+/**
+ * Words: runs of letters and digits, with inner apostrophes and hyphens
+ */
+const WORD = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Text containing at least one letter or digit
+ */
+const HAS_WORD = /[\p{L}\p{N}]/u;
+
+/**
+ * Ends of sentences
+ */
+const SENTENCE_END = /[.!?]+(?=\s|$)/;
+
+/**
+ * Measures prose in documentation files and credits new writing
+ */
+export class ProseTracker {
+    /**
+     * Most prose each open document has held, by document URI
+     */
+    private marks = new Map<string, ProseCount>();
+
+    /**
+     * Creates a new ProseTracker instance
+     *
+     * @param config - Documentation mode configuration
+     */
+    constructor(private config: ProseConfig) { }
+
+    /**
+     * Updates the configuration
+     *
+     * @param config - New documentation mode configuration
+     */
+    updateConfig(config: ProseConfig): void {
+        this.config = config;
+    }
+
+    /**
+     * Whether a file is credited as prose
+     *
+     * @param fileName - File system path of the file
+     * @returns True if documentation mode is on and the file has a prose extension
+     */
+    handles(fileName: string): boolean {
+        if (!this.config.enabled) {
+            return false;
+        }
+
+        const lower = fileName.toLowerCase();
+        return this.config.extensions.some(ext => lower.endsWith(ext));
+    }
+
+    /**
+     * Records a document's text as its baseline without crediting it
+     *
+     * @param key - Document URI string
+     * @param text - Document text
+     */
+    seed(key: string, text: string): void {
+        this.raise(key, countProse(text));
+    }
+
+    /**
+     * Credits the prose a document gained beyond its mark
+     *
+     * @param key - Document URI string
+     * @param text - Current document text
+     * @param languageId - Language of the document
+     * @returns Change worth the new prose in line-equivalents
+     */
+    measure(key: string, text: string, languageId: string): CodeChange {
+        const count = countProse(text);
+        const mark = this.marks.get(key) ?? count;
+        const words = Math.max(0, count.words - mark.words);
+        const sentences = Math.max(0, count.sentences - mark.sentences);
+        const codeLines = Math.max(0, count.codeLines - mark.codeLines);
+
+        this.raise(key, count);
+
+        const netChange = this.toLines({ words, sentences, codeLines });
+
+        return {
+            linesAdded: codeLines,
+            linesDeleted: 0,
+            linesModified: 0,
+            meaningfulLinesAdded: codeLines,
+            meaningfulLinesDeleted: 0,
+            meaningfulLinesModified: 0,
+            netChange,
+            isMeaningful: netChange > 0,
+            credit: { added: netChange, modified: 0, deleted: 0 },
+            prose: { words, sentences },
+            languageId,
+            timestamp: Date.now()
+        };
+    }
+
+    /**
+     * Works out what a piece of inserted text is worth in line-equivalents
+     *
+     * @param text - Inserted text
+     * @returns Line-equivalents of the text's prose and code
+     */
+    measureText(text: string): number {
+        return this.toLines(countProse(text));
+    }
+
+    /**
+     * Whether a document has a mark
+     *
+     * @param key - Document URI string
+     * @returns True if the document has been seen this session
+     */
+    has(key: string): boolean {
+        return this.marks.has(key);
+    }
+
+    /**
+     * Forgets a document's mark
+     *
+     * @param key - Document URI string
+     */
+    delete(key: string): void {
+        this.marks.delete(key);
+    }
+
+    /**
+     * Forgets every mark
+     */
+    clear(): void {
+        this.marks.clear();
+    }
+
+    /**
+     * Converts prose to line-equivalents at the configured ratio
+     *
+     * @param count - Words, sentences and code lines to convert
+     * @returns Line-equivalents
+     * @private
+     */
+    private toLines(count: ProseCount): number {
+        const proseLines = this.config.unit === 'sentences'
+            ? count.sentences / Math.max(1, this.config.sentencesPerLine)
+            : count.words / Math.max(1, this.config.wordsPerLine);
+
+        return proseLines + count.codeLines;
+    }
+
+    /**
+     * Raises a document's mark to cover a count
+     *
+     * @param key - Document URI string
+     * @param count - Prose the document holds now
+     * @private
+     */
+    private raise(key: string, count: ProseCount): void {
+        const mark = this.marks.get(key);
+        this.marks.set(key, mark
+            ? {
+                words: Math.max(mark.words, count.words),
+                sentences: Math.max(mark.sentences, count.sentences),
+                codeLines: Math.max(mark.codeLines, count.codeLines)
+            }
+            : count);
+    }
+}
+
+/**
+ * Counts the words, sentences and fenced code lines in a prose document
+ *
+ * @param text - Document text
+ * @returns Prose count
+ */
+export function countProse(text: string): ProseCount {
+    const lines = text.split(/\r?\n/);
+    const count: ProseCount = { words: 0, sentences: 0, codeLines: 0 };
+
+    let block = '';
+    const endBlock = () => {
+        count.sentences += countSentences(block);
+        block = '';
+    };
+
+    let i = 0;
+
+    // Front matter only counts as such on the very first line
+    if (lines.length > 0 && FRONT_MATTER.test(lines[0])) {
+        const close = lines.findIndex((line, index) => index > 0 && line.trim() === lines[0].trim());
+        if (close > 0) {
+            i = close + 1;
+        }
+    }
+
+    let fence: string | null = null;
+    let inToc = false;
+
+    for (; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (fence) {
+            if (line.trim().startsWith(fence)) {
+                fence = null;
+            } else if (line.trim().length > 0) {
+                count.codeLines++;
+            }
+            continue;
+        }
+
+        const opening = FENCE.exec(line);
+        if (opening) {
+            endBlock();
+            fence = opening[1];
+            continue;
+        }
+
+        if (inToc) {
+            inToc = !TOC_END.test(line);
+            continue;
+        }
+
+        if (TOC_START.test(line)) {
+            endBlock();
+            inToc = true;
+            continue;
+        }
+
+        if (TOC_ENTRY.test(line) || TOC_DIRECTIVES.some(pattern => pattern.test(line))) {
+            endBlock();
+            continue;
+        }
+
+        if (line.trim().length === 0 || BLOCK_START.test(line)) {
+            endBlock();
+        }
+
+        // Link targets are not words the author wrote
+        const prose = line.replace(/\]\([^)]*\)/g, ']');
+        count.words += prose.match(WORD)?.length ?? 0;
+        block += ` ${prose}`;
+    }
+
+    endBlock();
+    return count;
+}
+
+/**
+ * Counts sentences in a block of prose
+ * Headings and list items without closing punctuation count as one sentence
+ *
+ * @param block - Text of a paragraph, heading or list item
+ * @returns Number of sentences
+ */
+function countSentences(block: string): number {
+    return block
+        .split(SENTENCE_END)
+        .filter(part => HAS_WORD.test(part))
+        .length;
+}
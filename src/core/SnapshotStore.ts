@@ -0,0 +1,257 @@
+/**
+ * SnapshotStore.ts
+ *
+ * Compact per-document snapshots used by CodeTracker to diff document versions.
+ * A snapshot keeps a 32-bit hash and a meaningful-line flag per line instead of
+ * the full text, and the store evicts the least recently used snapshots once
+ * a byte budget is exceeded.
+ */
+
+import { CommentLexer } from './CommentLexer';
+
+/**
+ * Compact representation of one version of a document
+ */
+export interface DocumentSnapshot {
+    /** FNV-1a hash of each trimmed line */
+    hashes: Uint32Array;
+
+    /** 1 for lines containing meaningful code, 0 otherwise */
+    flags: Uint8Array;
+
+    /** Language the flags were computed for */
+    languageId: string;
+}
+
+/**
+ * Memory usage of the snapshot store
+ */
+export interface SnapshotStats {
+    /** Number of documents with a snapshot */
+    documents: number;
+
+    /** Total lines across all snapshots */
+    lines: number;
+
+    /** Approximate bytes used by all snapshots */
+    bytes: number;
+
+    /** Byte budget before snapshots are evicted */
+    budgetBytes: number;
+
+    /** Snapshots evicted to stay within the budget */
+    evictions: number;
+}
+
+/**
+ * Fixed per-snapshot cost (map entry, object and typed array headers)
+ */
+const SNAPSHOT_OVERHEAD_BYTES = 128;
+
+/**
+ * Least recently used store of document snapshots
+ */
+export class SnapshotStore {
+    /**
+     * Snapshots by document URI, in least to most recently used order
+     */
+    private snapshots = new Map<string, DocumentSnapshot>();
+
+    /**
+     * Approximate bytes used by all snapshots
+     */
+    private bytes = 0;
+
+    /**
+     * Snapshots evicted since the store was created
+     */
+    private evictions = 0;
+
+    /**
+     * Creates a new SnapshotStore instance
+     *
+     * @param budgetBytes - Approximate memory budget for all snapshots
+     */
+    constructor(private budgetBytes: number) { }
+
+    /**
+     * Changes the memory budget, evicting snapshots if it shrank
+     *
+     * @param budgetBytes - New memory budget
+     */
+    setBudget(budgetBytes: number): void {
+        this.budgetBytes = budgetBytes;
+        this.evict();
+    }
+
+    // ========================================
+    // SNAPSHOT ACCESS
+    // ========================================
+
+    /**
+     * Gets a document's snapshot and marks it as recently used
+     *
+     * @param key - Document URI string
+     * @returns Snapshot, or undefined if none is stored
+     */
+    get(key: string): DocumentSnapshot | undefined {
+        const snapshot = this.snapshots.get(key);
+        if (snapshot) {
+            this.snapshots.delete(key);
+            this.snapshots.set(key, snapshot);
+        }
+        return snapshot;
+    }
+
+    /**
+     * Checks whether a document has a snapshot
+     *
+     * @param key - Document URI string
+     * @returns True if a snapshot is stored
+     */
+    has(key: string): boolean {
+        return this.snapshots.has(key);
+    }
+
+    /**
+     * Takes and stores a snapshot of a document's text
+     *
+     * @param key - Document URI string
+     * @param text - Full document text
+     * @param languageId - Programming language identifier
+     * @returns The stored snapshot
+     */
+    set(key: string, text: string, languageId: string): DocumentSnapshot {
+        const snapshot = createSnapshot(text, languageId);
+        this.put(key, snapshot);
+        return snapshot;
+    }
+
+    /**
+     * Stores an existing snapshot
+     *
+     * @param key - Document URI string
+     * @param snapshot - Snapshot to store
+     */
+    put(key: string, snapshot: DocumentSnapshot): void {
+        this.delete(key);
+        this.snapshots.set(key, snapshot);
+        this.bytes += sizeOf(key, snapshot);
+        this.evict();
+    }
+
+    /**
+     * Removes a document's snapshot
+     *
+     * @param key - Document URI string
+     */
+    delete(key: string): void {
+        const snapshot = this.snapshots.get(key);
+        if (snapshot) {
+            this.bytes -= sizeOf(key, snapshot);
+            this.snapshots.delete(key);
+        }
+    }
+
+    /**
+     * Removes every snapshot
+     */
+    clear(): void {
+        this.snapshots.clear();
+        this.bytes = 0;
+    }
+
+    /**
+     * Number of documents with a snapshot
+     */
+    get size(): number {
+        return this.snapshots.size;
+    }
+
+    /**
+     * Reports how much memory the snapshots use
+     *
+     * @returns Memory usage statistics
+     */
+    getStats(): SnapshotStats {
+        let lines = 0;
+        for (const snapshot of this.snapshots.values()) {
+            lines += snapshot.hashes.length;
+        }
+
+        return {
+            documents: this.snapshots.size,
+            lines,
+            bytes: this.bytes,
+            budgetBytes: this.budgetBytes,
+            evictions: this.evictions
+        };
+    }
+
+    /**
+     * Evicts least recently used snapshots until the store fits its budget
+     * The most recent snapshot is always kept
+     *
+     * @private
+     */
+    private evict(): void {
+        for (const key of this.snapshots.keys()) {
+            if (this.bytes <= this.budgetBytes || this.snapshots.size <= 1) {
+                break;
+            }
+            this.delete(key);
+            this.evictions++;
+        }
+    }
+}
+
+/**
+ * Builds a snapshot of a document's text
+ *
+ * @param text - Full document text
+ * @param languageId - Programming language identifier
+ * @returns Snapshot with a hash and meaningful flag per line
+ */
+export function createSnapshot(text: string, languageId: string): DocumentSnapshot {
+    // Trimmed lines, so re-indenting is not seen as a change
+    const lines = text.split('\n').map(line => line.trim());
+    const meaningful = CommentLexer.forLanguage(languageId).scanLines(lines);
+
+    const hashes = new Uint32Array(lines.length);
+    const flags = new Uint8Array(lines.length);
+    for (let i = 0; i < lines.length; i++) {
+        hashes[i] = hashLine(lines[i]);
+        flags[i] = meaningful[i] ? 1 : 0;
+    }
+
+    return { hashes, flags, languageId };
+}
+
+/**
+ * Hashes a line with 32-bit FNV-1a
+ *
+ * @param line - Trimmed line text
+ * @returns Unsigned 32-bit hash
+ */
+function hashLine(line: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < line.length; i++) {
+        hash ^= line.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Estimates the memory a stored snapshot uses
+ *
+ * @param key - Document URI string
+ * @param snapshot - Stored snapshot
+ * @returns Approximate size in bytes
+ */
+function sizeOf(key: string, snapshot: DocumentSnapshot): number {
+    return SNAPSHOT_OVERHEAD_BYTES
+        + key.length * 2
+        + snapshot.hashes.byteLength
+        + snapshot.flags.byteLength;
+}
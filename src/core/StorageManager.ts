@@ -13,8 +13,20 @@ import {
     DEFAULT_GAME_STATE,
     DEFAULT_CONFIG,
     DEFAULT_GLOBAL_PLAY_STATE,
-    GlobalPlayState
+    GitCreditState,
+    ProblemCreditState,
+    GlobalPlayState,
+    PlayHistoryEntry,
+    PlayLedgerState,
+    PlayTransaction,
+    TaskRewardStats
 } from './types';
+import { appendTransaction, openLedger, projectLedger, transactionBetween } from './PlayLedger';
+
+/**
+ * Milliseconds in a day
+ */
+const DAY = 24 * 60 * 60 * 1000;
 
 /**
  * Manages persistent storage for the extension
@@ -31,6 +43,16 @@ export class StorageManager implements vscode.Disposable {
      */
     private workspaceState: vscode.Memento;
 
+    /**
+     * Event emitter for changes to the play ledger
+     */
+    private onDidChangePlayLedgerEmitter = new vscode.EventEmitter<PlayLedgerState>();
+
+    /**
+     * Fires after every transaction recorded in the play ledger
+     */
+    public readonly onDidChangePlayLedger = this.onDidChangePlayLedgerEmitter.event;
+
     /**
      * Creates a new StorageManager instance
      * 
@@ -41,8 +63,8 @@ export class StorageManager implements vscode.Disposable {
         this.workspaceState = context.workspaceState;
     }
     dispose() {
-        // No resources need to be cleaned up as we're only using VS Code's Memento API
-        // which is managed by the extension context
+        // The Memento API is managed by the extension context, only the emitter needs disposing
+        this.onDidChangePlayLedgerEmitter.dispose();
     }
 
     // ========================================
@@ -133,49 +155,137 @@ export class StorageManager implements vscode.Disposable {
 
     /**
      * Gets the global play state (shared across all games)
-     * Returns default state if no saved state exists
+     * The state is the balance of the play ledger
      * 
      * @returns The global play state
      */
     getGlobalPlayState(): GlobalPlayState {
+        return projectLedger(this.getPlayLedger());
+    }
+
+    /**
+     * Gets the ledger of changes to the global play state
+     * Opens the ledger from the saved play state of older versions if there is none
+     * 
+     * @returns The play ledger
+     */
+    getPlayLedger(): PlayLedgerState {
+        const savedLedger = this.globalState.get<PlayLedgerState>(StorageKey.PLAY_LEDGER);
+        if (savedLedger) {
+            return savedLedger;
+        }
+
         const savedState = this.globalState.get<GlobalPlayState>(
             StorageKey.GLOBAL_PLAY_STATE
         );
 
-        return savedState || { ...DEFAULT_GLOBAL_PLAY_STATE };
+        return openLedger(savedState || DEFAULT_GLOBAL_PLAY_STATE);
     }
 
     /**
-     * Saves the global play state
+     * Records a change to the global play state in the ledger
      * 
-     * @param state - Global play state to save
-     * @returns Promise that resolves when save is complete
+     * @param transaction - Change to record
+     * @returns Global play state after the change
      */
-    async saveGlobalPlayState(state: GlobalPlayState): Promise<void> {
-        await this.globalState.update(StorageKey.GLOBAL_PLAY_STATE, state);
+    async recordPlayTransaction(transaction: PlayTransaction): Promise<GlobalPlayState> {
+        const ledger = appendTransaction(this.getPlayLedger(), transaction);
+        await this.globalState.update(StorageKey.PLAY_LEDGER, ledger);
+        this.onDidChangePlayLedgerEmitter.fire(ledger);
+        return projectLedger(ledger);
     }
 
     /**
-     * Updates specific properties of global play state
+     * Resets the global play state, recording the reset in the ledger
      * 
-     * @param updates - Partial state object with properties to update
-     * @returns Promise that resolves when update is complete
+     * @param state - State to reset to (defaults when omitted)
+     * @param source - What caused the reset
+     * @returns Promise that resolves when reset is complete
      */
-    async updateGlobalPlayState(
-        updates: Partial<GlobalPlayState>
+    async resetGlobalPlayState(
+        state: GlobalPlayState = DEFAULT_GLOBAL_PLAY_STATE,
+        source: string = 'reset'
     ): Promise<void> {
-        const currentState = this.getGlobalPlayState();
-        const newState = { ...currentState, ...updates };
-        await this.saveGlobalPlayState(newState);
+        await this.recordPlayTransaction(
+            transactionBetween(this.getGlobalPlayState(), state, 'reset', source)
+        );
     }
 
+    // ========================================
+    // PLAY HISTORY
+    // ========================================
+
     /**
-     * Resets global play state to default values
+     * Adds an ended session to the play history
+     * Drops sessions past the configured age and count limits
      * 
-     * @returns Promise that resolves when reset is complete
+     * @param entry - Session that ended
+     * @returns Promise that resolves when save is complete
+     */
+    async addPlayHistory(entry: PlayHistoryEntry): Promise<void> {
+        const { maxSessions, maxAgeDays } = this.getConfig().history;
+        let history = [...this.getStoredPlayHistory(), entry];
+
+        if (maxAgeDays > 0) {
+            const cutoff = entry.endedAt - maxAgeDays * DAY;
+            history = history.filter(session => session.endedAt >= cutoff);
+        }
+
+        history = history.slice(-Math.max(0, maxSessions));
+
+        await this.globalState.update(StorageKey.PLAY_HISTORY, history);
+    }
+
+    /**
+     * Gets the play history, newest first
+     * 
+     * @param gameId - Only return sessions of this game (optional)
+     * @param limit - Most sessions to return (optional)
+     * @returns Ended sessions, newest first
+     */
+    getPlayHistory(gameId?: string, limit?: number): PlayHistoryEntry[] {
+        const history = this.getStoredPlayHistory()
+            .filter(session => gameId === undefined || session.gameId === gameId)
+            .reverse();
+
+        return limit === undefined ? history : history.slice(0, limit);
+    }
+
+    /**
+     * Gets the sessions that ended within a date range, newest first
+     * 
+     * @param from - Start of the range (inclusive)
+     * @param to - End of the range (inclusive)
+     * @param gameId - Only return sessions of this game (optional)
+     * @returns Ended sessions in the range, newest first
+     */
+    getPlayHistoryBetween(from: Date | number, to: Date | number, gameId?: string): PlayHistoryEntry[] {
+        const start = from.valueOf();
+        const end = to.valueOf();
+
+        return this.getPlayHistory(gameId)
+            .filter(session => session.endedAt >= start && session.endedAt <= end);
+    }
+
+    /**
+     * Gets the total time spent playing
+     * 
+     * @param gameId - Only count sessions of this game (optional)
+     * @returns Total playtime in milliseconds over the kept history
+     */
+    getTotalPlaytime(gameId?: string): number {
+        return this.getPlayHistory(gameId)
+            .reduce((total, session) => total + session.duration, 0);
+    }
+
+    /**
+     * Gets the stored play history, oldest first
+     * 
+     * @returns Ended sessions, oldest first
+     * @private
      */
-    async resetGlobalPlayState(): Promise<void> {
-        await this.saveGlobalPlayState({ ...DEFAULT_GLOBAL_PLAY_STATE });
+    private getStoredPlayHistory(): PlayHistoryEntry[] {
+        return this.globalState.get<PlayHistoryEntry[]>(StorageKey.PLAY_HISTORY) ?? [];
     }
 
     // ========================================
@@ -184,7 +294,8 @@ export class StorageManager implements vscode.Disposable {
 
     /**
      * Gets the extension configuration
-     * Returns default config if none exists
+     * Returns default config if none exists, and fills in any settings
+     * added since the config was saved
      * 
      * @returns Current extension configuration
      */
@@ -192,7 +303,36 @@ export class StorageManager implements vscode.Disposable {
         const savedConfig = this.globalState.get<ExtensionConfig>(
             StorageKey.CONFIG
         );
-        return savedConfig || { ...DEFAULT_CONFIG };
+
+        if (!savedConfig) {
+            return { ...DEFAULT_CONFIG };
+        }
+
+        return {
+            ...DEFAULT_CONFIG,
+            ...savedConfig,
+            unlock: { ...DEFAULT_CONFIG.unlock, ...savedConfig.unlock },
+            insertion: {
+                ...DEFAULT_CONFIG.insertion,
+                ...savedConfig.insertion,
+                policies: {
+                    ...DEFAULT_CONFIG.insertion.policies,
+                    ...savedConfig.insertion?.policies
+                }
+            },
+            diagnostics: { ...DEFAULT_CONFIG.diagnostics, ...savedConfig.diagnostics },
+            problems: {
+                ...DEFAULT_CONFIG.problems,
+                ...savedConfig.problems,
+                rates: { ...DEFAULT_CONFIG.problems.rates, ...savedConfig.problems?.rates }
+            },
+            tasks: { ...DEFAULT_CONFIG.tasks, ...savedConfig.tasks },
+            waitingRoom: { ...DEFAULT_CONFIG.waitingRoom, ...savedConfig.waitingRoom },
+            activity: { ...DEFAULT_CONFIG.activity, ...savedConfig.activity },
+            multipliers: { ...DEFAULT_CONFIG.multipliers, ...savedConfig.multipliers },
+            prose: { ...DEFAULT_CONFIG.prose, ...savedConfig.prose },
+            history: { ...DEFAULT_CONFIG.history, ...savedConfig.history }
+        };
     }
 
     /**
@@ -243,17 +383,90 @@ export class StorageManager implements vscode.Disposable {
     }
 
     /**
-     * Increments the total lines written counter
+     * Gets the total lines credited after language and path multipliers
+     * Totals from before multipliers existed count at face value
+     * 
+     * @returns Total weighted line count
+     */
+    getTotalWeightedLines(): number {
+        return this.globalState.get<number>(
+            StorageKey.TOTAL_WEIGHTED_LINES,
+            this.getTotalLinesWritten()
+        );
+    }
+
+    /**
+     * Increments the total lines written counters
      * 
      * @param lines - Number of lines to add
+     * @param weightedLines - Lines after multipliers (defaults to lines)
      * @returns Promise that resolves when update is complete
      */
-    async addLinesWritten(lines: number): Promise<void> {
+    async addLinesWritten(lines: number, weightedLines: number = lines): Promise<void> {
         const current = this.getTotalLinesWritten();
+        const currentWeighted = this.getTotalWeightedLines();
         await this.globalState.update(
             StorageKey.TOTAL_LINES_WRITTEN,
             current + lines
         );
+        await this.globalState.update(
+            StorageKey.TOTAL_WEIGHTED_LINES,
+            currentWeighted + weightedLines
+        );
+    }
+
+    /**
+     * Gets the total minutes of focused coding across all time
+     * 
+     * @returns Total active minutes
+     */
+    getTotalActiveMinutes(): number {
+        return this.globalState.get<number>(
+            StorageKey.TOTAL_ACTIVE_MINUTES,
+            0
+        );
+    }
+
+    /**
+     * Increments the total active minutes counter
+     * 
+     * @param minutes - Number of minutes to add
+     * @returns Promise that resolves when update is complete
+     */
+    async addActiveMinutes(minutes: number): Promise<void> {
+        const current = this.getTotalActiveMinutes();
+        await this.globalState.update(
+            StorageKey.TOTAL_ACTIVE_MINUTES,
+            current + minutes
+        );
+    }
+
+    /**
+     * Gets the totals of task rewards across all time
+     * 
+     * @returns Task reward totals
+     */
+    getTaskRewardStats(): TaskRewardStats {
+        return this.globalState.get<TaskRewardStats>(
+            StorageKey.TASK_REWARD_STATS,
+            { tasksTurnedGreen: 0, linesEarned: 0, playsEarned: 0 }
+        );
+    }
+
+    /**
+     * Adds a task reward to the totals
+     * 
+     * @param lines - Unlock progress granted, in lines
+     * @param plays - Plays granted
+     * @returns Promise that resolves when update is complete
+     */
+    async addTaskReward(lines: number, plays: number): Promise<void> {
+        const current = this.getTaskRewardStats();
+        await this.globalState.update(StorageKey.TASK_REWARD_STATS, {
+            tasksTurnedGreen: current.tasksTurnedGreen + 1,
+            linesEarned: current.linesEarned + lines,
+            playsEarned: current.playsEarned + plays
+        });
     }
 
     /**
@@ -266,6 +479,52 @@ export class StorageManager implements vscode.Disposable {
         await this.globalState.update(StorageKey.TOTAL_LINES_WRITTEN, lines);
     }
 
+    // ========================================
+    // GIT CREDIT STATE
+    // ========================================
+
+    /**
+     * Gets the commits and lines already credited from git in this workspace
+     * 
+     * @returns Saved git credit state, or undefined if git crediting never ran here
+     */
+    getGitCreditState(): GitCreditState | undefined {
+        return this.workspaceState.get<GitCreditState>(StorageKey.GIT_CREDIT_STATE);
+    }
+
+    /**
+     * Saves the git credit state for this workspace
+     * 
+     * @param state - Git credit state to save
+     * @returns Promise that resolves when save is complete
+     */
+    async saveGitCreditState(state: GitCreditState): Promise<void> {
+        await this.workspaceState.update(StorageKey.GIT_CREDIT_STATE, state);
+    }
+
+    // ========================================
+    // PROBLEM CREDIT STATE
+    // ========================================
+
+    /**
+     * Gets the problem counts already credited in this workspace
+     * 
+     * @returns Saved problem credit state, or undefined if no problems were seen here
+     */
+    getProblemCreditState(): ProblemCreditState | undefined {
+        return this.workspaceState.get<ProblemCreditState>(StorageKey.PROBLEM_CREDIT_STATE);
+    }
+
+    /**
+     * Saves the problem credit state for this workspace
+     * 
+     * @param state - Problem credit state to save
+     * @returns Promise that resolves when save is complete
+     */
+    async saveProblemCreditState(state: ProblemCreditState): Promise<void> {
+        await this.workspaceState.update(StorageKey.PROBLEM_CREDIT_STATE, state);
+    }
+
     // ========================================
     // UTILITY METHODS
     // ========================================
@@ -326,6 +585,11 @@ export class StorageManager implements vscode.Disposable {
         try {
             const data = JSON.parse(jsonData);
 
+            // Exports from before the ledger only hold the play state
+            if (StorageKey.GLOBAL_PLAY_STATE in data && !(StorageKey.PLAY_LEDGER in data)) {
+                await this.globalState.update(StorageKey.PLAY_LEDGER, undefined);
+            }
+
             for (const [key, value] of Object.entries(data)) {
                 if (key.startsWith('codeToPlay.')) {
                     await this.globalState.update(key, value);
@@ -0,0 +1,367 @@
+/**
+ * TrackingFilter.ts
+ *
+ * Decides whether a document should earn credit. Combines the tracked
+ * extension list with include/exclude globs, files.exclude, .gitignore and
+ * heuristics for generated or minified files, and can explain its decision.
+ */
+
+import * as vscode from 'vscode';
+import { ExtensionConfig } from './types';
+import { getGitApi } from './GitIntegration';
+import { CommentLexer } from './CommentLexer';
+
+/**
+ * Outcome of checking a document against the tracking rules
+ */
+export interface TrackingDecision {
+    /** Whether the document earns credit */
+    tracked: boolean;
+
+    /** Human readable explanation of the decision */
+    reason: string;
+}
+
+/**
+ * Number of leading lines scanned for generated-file banners
+ */
+const BANNER_SCAN_LINES = 10;
+
+/**
+ * Lines longer than this near the top of a file mark it as minified
+ */
+const MINIFIED_LINE_LENGTH = 1000;
+
+/**
+ * Standard markers code generators put in the comments at the top of their
+ * output (including Go's "Code generated ... DO NOT EDIT."), matched with the
+ * exact case generators write them in
+ */
+const GENERATED_BANNERS = [
+    /@generated\b/,
+    /\bDO NOT EDIT\b/,
+    /<auto-generated\b/
+];
+
+/**
+ * Applies the configured tracking rules to documents
+ */
+export class TrackingFilter {
+    /**
+     * Compiled glob patterns, keyed by pattern
+     */
+    private globCache = new Map<string, RegExp>();
+
+    /**
+     * Git ignore results per document URI
+     */
+    private gitIgnoreCache = new Map<string, boolean>();
+
+    /**
+     * Creates a new TrackingFilter instance
+     *
+     * @param config - Extension configuration
+     */
+    constructor(private config: ExtensionConfig) { }
+
+    /**
+     * Updates the configuration used by the filter
+     *
+     * @param config - New configuration
+     */
+    updateConfig(config: ExtensionConfig): void {
+        this.config = config;
+        this.gitIgnoreCache.clear();
+    }
+
+    // ========================================
+    // DECISIONS
+    // ========================================
+
+    /**
+     * Checks a document against every rule that can be answered synchronously
+     * Git ignore status comes from the cache filled by refreshGitIgnore()
+     *
+     * @param document - Document to check
+     * @returns Tracking decision
+     */
+    evaluate(document: vscode.TextDocument): TrackingDecision {
+        const decision = this.evaluatePath(document.uri, document.fileName);
+
+        if (decision.tracked && this.config.skipGeneratedFiles) {
+            const generated = this.detectGenerated(document);
+            if (generated) {
+                return { tracked: false, reason: generated };
+            }
+        }
+
+        return decision;
+    }
+
+    /**
+     * Checks a file against the path-based rules only (globs, ignores, extensions)
+     * Used for files that are not open, such as those in a commit
+     *
+     * @param uri - File to check
+     * @returns Tracking decision
+     */
+    evaluateFile(uri: vscode.Uri): TrackingDecision {
+        return this.evaluatePath(uri, uri.fsPath);
+    }
+
+    /**
+     * Applies the path-based rules to a file
+     * Globs match the path relative to the workspace folder, as files.exclude
+     * does, so folders above the workspace (e.g. ~/build) never exclude a file
+     *
+     * @param uri - File URI, used for folder settings and the git ignore cache
+     * @param fileName - File system path of the file
+     * @returns Tracking decision
+     * @private
+     */
+    private evaluatePath(uri: vscode.Uri, fileName: string): TrackingDecision {
+        const filePath = normalizePath(uri.scheme === 'file'
+            ? vscode.workspace.asRelativePath(uri, false)
+            : fileName);
+
+        const excluded = this.findMatch(this.config.excludeGlobs, filePath);
+        if (excluded) {
+            return { tracked: false, reason: `Excluded by pattern "${excluded}"` };
+        }
+
+        if (this.config.respectFilesExclude) {
+            const hidden = this.findMatch(this.getFilesExcludePatterns(uri), filePath);
+            if (hidden) {
+                return { tracked: false, reason: `Hidden by files.exclude pattern "${hidden}"` };
+            }
+        }
+
+        if (this.config.respectGitIgnore && this.gitIgnoreCache.get(uri.toString())) {
+            return { tracked: false, reason: 'Ignored by .gitignore' };
+        }
+
+        let reason = 'Tracking all files';
+        if (!this.config.trackAllFiles) {
+            const extension = this.config.trackedExtensions.find(ext => filePath.endsWith(ext));
+            if (!extension) {
+                return { tracked: false, reason: 'File extension is not in the tracked list' };
+            }
+            reason = `Matches tracked extension "${extension}"`;
+        }
+
+        if (this.config.includeGlobs.length > 0) {
+            const included = this.findMatch(this.config.includeGlobs, filePath);
+            if (!included) {
+                return { tracked: false, reason: 'Does not match any include pattern' };
+            }
+            reason += ` and include pattern "${included}"`;
+        }
+
+        return { tracked: true, reason };
+    }
+
+    /**
+     * Checks a document against every rule, including an up-to-date git check
+     *
+     * @param document - Document to check
+     * @returns Tracking decision
+     */
+    async explain(document: vscode.TextDocument): Promise<TrackingDecision> {
+        await this.refreshGitIgnore(document);
+        return this.evaluate(document);
+    }
+
+    /**
+     * Asks git whether a document is ignored and caches the answer
+     *
+     * @param document - Document to check
+     */
+    async refreshGitIgnore(document: vscode.TextDocument): Promise<void> {
+        if (!this.config.respectGitIgnore || document.uri.scheme !== 'file') {
+            return;
+        }
+
+        const key = document.uri.toString();
+        if (this.gitIgnoreCache.has(key)) {
+            return;
+        }
+
+        const repository = (await getGitApi())?.getRepository(document.uri);
+        if (!repository) {
+            this.gitIgnoreCache.set(key, false);
+            return;
+        }
+
+        try {
+            const ignored = await repository.checkIgnore([document.uri.fsPath]);
+            this.gitIgnoreCache.set(key, ignored.size > 0);
+        } catch {
+            this.gitIgnoreCache.set(key, false);
+        }
+    }
+
+    /**
+     * Forgets cached results for a document (e.g. when it is closed)
+     *
+     * @param uri - Document URI string
+     */
+    forget(uri: string): void {
+        this.gitIgnoreCache.delete(uri);
+    }
+
+    // ========================================
+    // HEURISTICS
+    // ========================================
+
+    /**
+     * Looks for generator banners and minified lines near the top of a document
+     * Banners only count in the comments before the first line of code
+     *
+     * @param document - Document to inspect
+     * @returns Reason the document looks generated, or null
+     * @private
+     */
+    private detectGenerated(document: vscode.TextDocument): string | null {
+        const lineCount = Math.min(document.lineCount, BANNER_SCAN_LINES);
+        const lexer = CommentLexer.forLanguage(document.languageId, document.fileName);
+        let inHeader = true;
+
+        for (let i = 0; i < lineCount; i++) {
+            const text = document.lineAt(i).text;
+
+            if (text.length > MINIFIED_LINE_LENGTH) {
+                return `Looks minified (line ${i + 1} is ${text.length} characters long)`;
+            }
+
+            // Shebangs come before the header comments
+            if (!inHeader || (i === 0 && text.startsWith('#!'))) {
+                continue;
+            }
+
+            if (lexer.scanLine(text)) {
+                inHeader = false;
+                continue;
+            }
+
+            const banner = GENERATED_BANNERS.find(pattern => pattern.test(text));
+            if (banner) {
+                return `Looks generated (line ${i + 1} has a generator banner)`;
+            }
+        }
+
+        return null;
+    }
+
+    // ========================================
+    // GLOB MATCHING
+    // ========================================
+
+    /**
+     * Gets the patterns enabled in the files.exclude setting
+     *
+     * @param uri - File whose folder settings apply
+     * @returns Enabled glob patterns
+     * @private
+     */
+    private getFilesExcludePatterns(uri: vscode.Uri): string[] {
+        const exclude = vscode.workspace
+            .getConfiguration('files', uri)
+            .get<Record<string, unknown>>('exclude', {});
+
+        return Object.entries(exclude)
+            .filter(([, enabled]) => enabled === true)
+            .map(([pattern]) => pattern);
+    }
+
+    /**
+     * Finds the first pattern matching a path
+     *
+     * @param patterns - Glob patterns
+     * @param filePath - Normalized file path
+     * @returns Matching pattern or undefined
+     * @private
+     */
+    private findMatch(patterns: readonly string[], filePath: string): string | undefined {
+        return patterns.find(pattern => this.compileGlob(pattern).test(filePath));
+    }
+
+    /**
+     * Compiles a glob into a regular expression, with caching
+     * Patterns match at any folder boundary, and a matched folder covers its contents
+     *
+     * @param glob - Glob pattern
+     * @returns Compiled expression
+     * @private
+     */
+    private compileGlob(glob: string): RegExp {
+        let compiled = this.globCache.get(glob);
+        if (!compiled) {
+            compiled = globToRegExp(glob);
+            this.globCache.set(glob, compiled);
+        }
+        return compiled;
+    }
+}
+
+/**
+ * Converts a file path to forward slashes
+ *
+ * @param filePath - File system path
+ * @returns Normalized path
+ */
+function normalizePath(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
+
+/**
+ * Converts a glob pattern (supporting **, *, ?, {a,b} and [...]) to a RegExp
+ *
+ * @param glob - Glob pattern
+ * @returns Equivalent regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+    const pattern = normalizePath(glob).replace(/^\.?\//, '');
+    let source = '';
+    let inGroup = false;
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+
+        if (char === '*') {
+            if (pattern[i + 1] === '*') {
+                // "**/" spans any number of folders, a trailing "**" anything at all
+                if (pattern[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i += 1;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            inGroup = true;
+            source += '(?:';
+        } else if (char === '}' && inGroup) {
+            inGroup = false;
+            source += ')';
+        } else if (char === ',' && inGroup) {
+            source += '|';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                source += `[${pattern.slice(i + 1, end).replace(/^!/, '^')}]`;
+                i = end;
+            }
+        } else {
+            source += char.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`(?:^|/)${source}(?:/.*)?$`);
+}
@@ -0,0 +1,218 @@
+/**
+ * WaitingRoom.ts
+ *
+ * Tracks the slow work a developer has to wait for - test, build and other
+ * matching tasks that run to completion, plus debug sessions. While any of them runs the waiting
+ * room is open and games can be played without spending plays.
+ */
+
+import * as vscode from 'vscode';
+import { WaitingRoomConfig } from './types';
+
+/**
+ * Waiting room opening or closing
+ */
+export interface WaitingRoomChange {
+    /** Whether the waiting room is open after the change */
+    open: boolean;
+
+    /** Task or debug session that started or ended */
+    label: string;
+}
+
+/**
+ * Tracks running tasks and debug sessions that make plays free
+ */
+export class WaitingRoom implements vscode.Disposable {
+    /**
+     * Disposables for cleanup
+     */
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Running task executions and debug sessions, with their labels
+     */
+    private active = new Map<vscode.TaskExecution | vscode.DebugSession, string>();
+
+    /**
+     * Event emitter for opening and closing
+     */
+    private onDidChangeEmitter = new vscode.EventEmitter<WaitingRoomChange>();
+
+    /**
+     * Fires when the waiting room opens or closes
+     */
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    /**
+     * Creates a new WaitingRoom instance
+     *
+     * @param config - Waiting room configuration
+     */
+    constructor(private config: WaitingRoomConfig) {
+        this.setupListeners();
+    }
+
+    // ========================================
+    // INITIALIZATION
+    // ========================================
+
+    /**
+     * Sets up task and debug session listeners
+     *
+     * @private
+     */
+    private setupListeners(): void {
+        this.disposables.push(
+            vscode.tasks.onDidStartTaskProcess(event => {
+                this.handleTaskStart(event.execution);
+            }),
+            vscode.tasks.onDidEndTaskProcess(event => {
+                this.leave(event.execution);
+            }),
+            vscode.debug.onDidStartDebugSession(session => {
+                if (this.config.includeDebugSessions) {
+                    this.enter(session, session.name);
+                }
+            }),
+            vscode.debug.onDidTerminateDebugSession(session => {
+                this.leave(session);
+            })
+        );
+    }
+
+    // ========================================
+    // STATE
+    // ========================================
+
+    /**
+     * Opens the waiting room for a matching task
+     * Background tasks such as watchers never finish on their own, so they
+     * would keep plays free for the whole session and are skipped
+     *
+     * @param execution - Task execution that started
+     * @private
+     */
+    private handleTaskStart(execution: vscode.TaskExecution): void {
+        const task = execution.task;
+        if (task.isBackground) {
+            return;
+        }
+
+        if (matchesTask(task, this.config.groups, this.config.namePatterns)) {
+            this.enter(execution, task.name);
+        }
+    }
+
+    /**
+     * Records something the developer is waiting for
+     *
+     * @param key - Task execution or debug session
+     * @param label - Name shown to the user
+     * @private
+     */
+    private enter(key: vscode.TaskExecution | vscode.DebugSession, label: string): void {
+        const wasOpen = this.isOpen();
+        this.active.set(key, label);
+
+        if (!wasOpen && this.isOpen()) {
+            this.onDidChangeEmitter.fire({ open: true, label });
+        }
+    }
+
+    /**
+     * Records that something the developer was waiting for has finished
+     *
+     * @param key - Task execution or debug session
+     * @private
+     */
+    private leave(key: vscode.TaskExecution | vscode.DebugSession): void {
+        const label = this.active.get(key);
+        if (label === undefined) {
+            return;
+        }
+
+        const wasOpen = this.isOpen();
+        this.active.delete(key);
+
+        if (wasOpen && !this.isOpen()) {
+            this.onDidChangeEmitter.fire({ open: false, label });
+        }
+    }
+
+    // ========================================
+    // PUBLIC API
+    // ========================================
+
+    /**
+     * Whether plays are currently free
+     *
+     * @returns True if the mode is enabled and a tracked task or debug session runs
+     */
+    isOpen(): boolean {
+        return this.config.enabled && this.active.size > 0;
+    }
+
+    /**
+     * Gets the names of the tasks and debug sessions being waited for
+     *
+     * @returns Labels of running tasks and debug sessions
+     */
+    getActivity(): string[] {
+        return Array.from(this.active.values());
+    }
+
+    /**
+     * Updates the configuration
+     *
+     * @param config - New waiting room configuration
+     */
+    updateConfig(config: WaitingRoomConfig): void {
+        const wasOpen = this.isOpen();
+        this.config = config;
+
+        if (wasOpen !== this.isOpen()) {
+            this.onDidChangeEmitter.fire({
+                open: this.isOpen(),
+                label: this.getActivity()[0] ?? ''
+            });
+        }
+    }
+
+    // ========================================
+    // CLEANUP
+    // ========================================
+
+    /**
+     * Disposes of all resources
+     */
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.active.clear();
+        this.onDidChangeEmitter.dispose();
+    }
+}
+
+/**
+ * Checks whether a task is in one of the given groups or has a matching name
+ *
+ * @param task - Task to check
+ * @param groups - Task group IDs (e.g. 'test', 'build')
+ * @param namePatterns - Regular expressions for task names
+ * @returns True if the task matches
+ */
+export function matchesTask(task: vscode.Task, groups: string[], namePatterns: string[]): boolean {
+    if (task.group && groups.includes(task.group.id)) {
+        return true;
+    }
+
+    return namePatterns.some(pattern => {
+        try {
+            return new RegExp(pattern).test(task.name);
+        } catch {
+            // Ignore invalid patterns rather than failing every task
+            return false;
+        }
+    });
+}
@@ -37,6 +37,12 @@ export interface IGame {
 
     /** Relative path to the game's CSS file */
     cssPath: string;
+
+    /** Plays a play of this game costs (defaults to 1) */
+    playCost?: number;
+
+    /** Plays a play costs in each mode or difficulty, overriding playCost (e.g. { "hard": 2 }) */
+    modeCosts?: Record<string, number>;
 }
 
 /**
@@ -67,6 +73,74 @@ export interface GlobalPlayState {
     isUnlocked: boolean;
 }
 
+/**
+ * Kinds of change to the global play balance
+ * earn: progress toward an unlock, spend: a play used up, grant: plays given,
+ * refund: plays given back, expire: progress lost, reset: balance set by hand
+ */
+export type PlayTransactionType = 'earn' | 'spend' | 'grant' | 'refund' | 'expire' | 'reset';
+
+/**
+ * A change to the global play balance, before it is recorded in the ledger
+ */
+export interface PlayTransaction {
+    /** Kind of change */
+    type: PlayTransactionType;
+
+    /** What caused the change, e.g. 'code', 'task:test' or 'play:snake' */
+    source: string;
+
+    /** Change in plays remaining */
+    plays: number;
+
+    /** Change in progress toward the next unlock (lines, minutes in time mode) */
+    progress: number;
+
+    /** Whether games are unlocked afterwards, when the change locks or unlocks them */
+    unlocked?: boolean;
+}
+
+/**
+ * A transaction recorded in the play ledger
+ */
+export interface LedgerEntry extends PlayTransaction {
+    /** Sequence number, one higher than the previous entry */
+    id: number;
+
+    /** When the transaction was recorded, the latest one for merged entries */
+    timestamp: number;
+
+    /** Number of earn transactions merged into the entry, when more than one */
+    count?: number;
+}
+
+/**
+ * Append-only record of every change to the global play balance
+ * The global play state is the opening balance with every entry applied
+ */
+export interface PlayLedgerState {
+    /** Balance before the oldest entry kept */
+    opening: GlobalPlayState;
+
+    /** Entries in the order they were recorded, oldest first */
+    entries: LedgerEntry[];
+
+    /** Sequence number of the next entry */
+    nextId: number;
+}
+
+/**
+ * What unlock progress is measured in
+ * lines: meaningful lines written, time: minutes of focused coding
+ */
+export type EarningMode = 'lines' | 'time';
+
+/**
+ * What a play pays for
+ * round: each round of a game, panel: each time a game is opened
+ */
+export type ChargeRule = 'round' | 'panel';
+
 /**
  * Configuration for game unlock mechanics
  */
@@ -74,14 +148,302 @@ export interface UnlockConfig {
     /** Number of free plays before game locks */
     initialPlays: number;
 
+    /**
+     * Whether progress comes from lines written or focused minutes
+     * Rewards from other channels (fixed problems, passing tasks) count as
+     * lines in lines mode and as minutes in time mode
+     */
+    earningMode: EarningMode;
+
     /** Lines of code required to unlock game after lock */
     linesToUnlock: number;
 
+    /** Focused coding minutes required to unlock game after lock (time mode) */
+    minutesToUnlock: number;
+
     /** Number of plays granted when unlocked */
     playsPerUnlock: number;
 
     /** Whether to count only non-comment, non-whitespace lines */
     countMeaningfulLinesOnly: boolean;
+
+    /**
+     * Credit given per line modified in place (0 disables, 1 counts like a new line)
+     * Only lines the document held before this session's edits count, and each only once
+     */
+    modifiedLineWeight: number;
+
+    /**
+     * Whether deleting meaningful lines earns credit instead of cancelling out added lines
+     * Only lines the document held before this session's edits count, and each only once
+     */
+    creditDeletions: boolean;
+
+    /** Credit given per meaningful line deleted when deletions are credited */
+    deletedLineWeight: number;
+
+    /**
+     * Most progress that can be banked toward the next unlock while games are
+     * unlocked, in lines (minutes in time mode); 0 disables banking
+     */
+    bankCap: number;
+
+    /** Whether a play is charged for each round of a game or each time a game is opened */
+    chargePer: ChargeRule;
+}
+
+/**
+ * How a block of inserted text most likely got into the document
+ */
+export enum InsertionKind {
+    /** Typed by hand (or too small to matter) */
+    TYPED = 'typed',
+
+    /** Matches the clipboard contents */
+    PASTE = 'paste',
+
+    /** Short prefix expanded into a multi-line template */
+    SNIPPET = 'snippet',
+
+    /** Multi-line block accepted from an inline or AI completion */
+    COMPLETION = 'completion',
+
+    /** Single insertion above the large-insertion threshold */
+    LARGE_INSERTION = 'largeInsertion'
+}
+
+/**
+ * How much credit an insertion kind earns
+ */
+export interface CreditPolicy {
+    /** full: every line, capped: up to `cap` lines per insertion, partial: `ratio` of lines, none: nothing */
+    mode: 'full' | 'capped' | 'partial' | 'none';
+
+    /** Maximum lines credited per insertion (capped mode) */
+    cap?: number;
+
+    /** Fraction of lines credited (partial mode) */
+    ratio?: number;
+}
+
+/**
+ * Configuration for classifying insertions and limiting their credit
+ */
+export interface InsertionConfig {
+    /** Meaningful lines in one insertion for it to count as large */
+    largeInsertionLines: number;
+
+    /** Longest single-line range a snippet prefix may replace */
+    snippetPrefixMaxLength: number;
+
+    /** Credit policy per insertion kind */
+    policies: Record<InsertionKind, CreditPolicy>;
+}
+
+/**
+ * Configuration for holding credit until a file's new errors are fixed
+ */
+export interface DiagnosticsConfig {
+    /** Whether credited lines wait in escrow until they have no error diagnostics */
+    holdUntilErrorFree: boolean;
+
+    /** Time to let language servers report on new lines before checking them (milliseconds) */
+    settleTime: number;
+}
+
+/**
+ * Severity of a workspace problem, as shown in the Problems panel
+ */
+export type ProblemSeverity = 'error' | 'warning' | 'information' | 'hint';
+
+/**
+ * Configuration for earning unlock progress by fixing problems
+ */
+export interface ProblemCreditConfig {
+    /** Whether fixing problems earns unlock progress (off by default, it changes what users earn) */
+    enabled: boolean;
+
+    /** Unlock progress, in lines, granted per fixed problem of each severity */
+    rates: Record<ProblemSeverity, number>;
+}
+
+/**
+ * Unlock progress earned by fixing problems in one file
+ */
+export interface ProblemCredit {
+    /** File the problems were fixed in */
+    uri: string;
+
+    /** Problems fixed per severity */
+    fixed: Partial<Record<ProblemSeverity, number>>;
+
+    /** Unlock progress earned, in lines */
+    lines: number;
+
+    /** Timestamp of the fix */
+    timestamp: number;
+}
+
+/**
+ * Bookkeeping for problem crediting, kept per workspace
+ */
+export interface ProblemCreditState {
+    /** Fewest problems of each severity seen per file URI; only going below these pays */
+    lowWaterMarks: Record<string, Record<ProblemSeverity, number>>;
+}
+
+/**
+ * Configuration for rewarding tasks that go from failing to passing
+ */
+export interface TaskRewardConfig {
+    /** Whether tasks going green earn rewards */
+    enabled: boolean;
+
+    /** Task groups that are rewarded (e.g. 'test', 'build') */
+    groups: string[];
+
+    /** Regular expressions for names of other tasks that are rewarded */
+    namePatterns: string[];
+
+    /** Unlock progress granted, in lines */
+    progressLines: number;
+
+    /** Plays granted */
+    plays: number;
+}
+
+/**
+ * What documentation files are credited for
+ */
+export type ProseUnit = 'words' | 'sentences';
+
+/**
+ * Configuration for crediting documentation files by the prose written
+ */
+export interface ProseConfig {
+    /** Whether documentation files earn for prose instead of lines */
+    enabled: boolean;
+
+    /** File extensions treated as documentation */
+    extensions: string[];
+
+    /** Whether words or sentences are counted */
+    unit: ProseUnit;
+
+    /** Words worth one line of code */
+    wordsPerLine: number;
+
+    /** Sentences worth one line of code */
+    sentencesPerLine: number;
+}
+
+/**
+ * Configuration for how much play history is kept
+ */
+export interface HistoryConfig {
+    /** Most sessions kept; the oldest are dropped first */
+    maxSessions: number;
+
+    /** Days a session is kept after it ends; 0 keeps sessions regardless of age */
+    maxAgeDays: number;
+}
+
+/**
+ * Configuration for scaling credit by language and file path
+ */
+export interface CreditMultiplierConfig {
+    /** Multipliers by language ID (e.g. { "rust": 1.5, "json": 0.2 }) */
+    languages: Record<string, number>;
+
+    /** Multipliers by glob pattern; the first matching pattern applies (e.g. { "*.json": 0.2 }) */
+    paths: Record<string, number>;
+}
+
+/**
+ * Configuration for measuring focused coding time
+ */
+export interface ActivityConfig {
+    /** Time without edits, selections, scrolling or debugging before the user counts as idle (milliseconds) */
+    idleTimeout: number;
+}
+
+/**
+ * Configuration for free plays while waiting on builds, tests and debug sessions
+ */
+export interface WaitingRoomConfig {
+    /** Whether plays are free while a tracked task or debug session runs */
+    enabled: boolean;
+
+    /** Task groups that open the waiting room (e.g. 'test', 'build') */
+    groups: string[];
+
+    /** Regular expressions for names of other tasks that open the waiting room */
+    namePatterns: string[];
+
+    /** Whether debug sessions open the waiting room */
+    includeDebugSessions: boolean;
+}
+
+/**
+ * Reward granted for a task going green
+ */
+export interface TaskReward {
+    /** Name of the task */
+    taskName: string;
+
+    /** Task group, if the task has one */
+    group?: string;
+
+    /** Unlock progress granted, in lines */
+    lines: number;
+
+    /** Plays granted */
+    plays: number;
+
+    /** Timestamp of the task ending */
+    timestamp: number;
+}
+
+/**
+ * Totals of task rewards across all time
+ */
+export interface TaskRewardStats {
+    /** Times a failing task passed and was rewarded */
+    tasksTurnedGreen: number;
+
+    /** Unlock progress granted, in lines */
+    linesEarned: number;
+
+    /** Plays granted */
+    playsEarned: number;
+}
+
+/**
+ * Result of classifying the insertions behind a code change
+ */
+export interface ChangeClassification {
+    /** Kind that contributed the most meaningful lines */
+    kind: InsertionKind;
+
+    /** Meaningful lines inserted per kind */
+    linesByKind: Partial<Record<InsertionKind, number>>;
+
+    /** Lines held back from credit by the insertion policies */
+    withheldLines: number;
+}
+
+/**
+ * Credit a code change earned, split by kind of edit
+ */
+export interface CreditBreakdown {
+    /** Credit for new lines */
+    added: number;
+
+    /** Credit for lines rewritten in place */
+    modified: number;
+
+    /** Credit for deleted lines (only when deletions are credited) */
+    deleted: number;
 }
 
 /**
@@ -94,12 +456,45 @@ export interface CodeChange {
     /** Number of lines deleted */
     linesDeleted: number;
 
-    /** Net change in lines (added - deleted) */
+    /** Number of lines rewritten in place */
+    linesModified: number;
+
+    /** Number of meaningful lines added */
+    meaningfulLinesAdded: number;
+
+    /** Number of meaningful lines deleted */
+    meaningfulLinesDeleted: number;
+
+    /** Number of meaningful lines rewritten in place */
+    meaningfulLinesModified: number;
+
+    /** Lines credited toward unlocks (added - deleted, plus weighted modifications) */
     netChange: number;
 
     /** Whether the change contains meaningful code */
     isMeaningful: boolean;
 
+    /** How the inserted text was produced, and how much credit that withheld */
+    classification?: ChangeClassification;
+
+    /** Lines withheld because the document already held them this session */
+    repeatedLines?: number;
+
+    /** How the credited lines split into added, modified and deleted lines */
+    credit?: CreditBreakdown;
+
+    /** Credited lines before the language and path multipliers */
+    rawNetChange?: number;
+
+    /** Language and path multiplier applied to the credit, if not 1 */
+    multiplier?: number;
+
+    /** Words and sentences written (documentation mode only) */
+    prose?: { words: number; sentences: number };
+
+    /** Commit that earned the credit (git crediting only) */
+    commit?: string;
+
     /** File language/type (e.g., 'typescript', 'javascript') */
     languageId: string;
 
@@ -107,6 +502,56 @@ export interface CodeChange {
     timestamp: number;
 }
 
+/**
+ * Where credit for written code comes from
+ * keystrokes: edits in the editor, git: meaningful lines in local commits
+ */
+export type CreditSource = 'keystrokes' | 'git';
+
+/**
+ * Bookkeeping for git crediting, kept per workspace
+ */
+export interface GitCreditState {
+    /** Commits made before this time (ms) are never credited */
+    since: number;
+
+    /** Commit hashes that have already been processed */
+    creditedCommits: string[];
+
+    /** Fingerprints of credited lines, so amended or rebased commits are not paid twice */
+    lineFingerprints: string[];
+}
+
+/**
+ * A language profile added or overridden in the configuration
+ * Fields left out keep the built-in profile's values
+ */
+export interface LanguageProfileSetting {
+    /** Language identifier of the profile to add or override */
+    id: string;
+
+    /** Other language identifiers that share this profile */
+    aliases?: string[];
+
+    /** File extensions (with the dot) used when the language ID is unknown */
+    extensions?: string[];
+
+    /** Tokens that start a comment running to the end of the line */
+    lineComments?: string[];
+
+    /** Block comment delimiters */
+    blockComments?: { open: string; close: string; nested?: boolean }[];
+
+    /** String literal delimiters */
+    strings?: { open: string; close: string; multiline?: boolean; escapes?: boolean }[];
+
+    /** String delimiters treated as comments when they open a line */
+    docStrings?: string[];
+
+    /** Regular expressions for trimmed lines that are never meaningful */
+    trivialLinePatterns?: string[];
+}
+
 /**
  * Storage keys for persistent data
  */
@@ -114,15 +559,36 @@ export enum StorageKey {
     /** Prefix for game state storage */
     GAME_STATE_PREFIX = 'codeToPlay.gameState.',
 
-    /** Global play state (shared across all games) */
+    /** Global play state from before the play ledger, read once to open the ledger */
     GLOBAL_PLAY_STATE = 'codeToPlay.globalPlayState',
 
+    /** Ledger of every change to the global play balance */
+    PLAY_LEDGER = 'codeToPlay.playLedger',
+
+    /** Play sessions that have ended, oldest first */
+    PLAY_HISTORY = 'codeToPlay.playHistory',
+
     /** Total lines of code written across all time */
     TOTAL_LINES_WRITTEN = 'codeToPlay.totalLinesWritten',
 
+    /** Totals of task rewards across all time */
+    TASK_REWARD_STATS = 'codeToPlay.taskRewardStats',
+
+    /** Total lines credited after language and path multipliers across all time */
+    TOTAL_WEIGHTED_LINES = 'codeToPlay.totalWeightedLines',
+
+    /** Total minutes of focused coding across all time */
+    TOTAL_ACTIVE_MINUTES = 'codeToPlay.totalActiveMinutes',
+
     /** Configuration settings */
     CONFIG = 'codeToPlay.config',
 
+    /** Commits and lines already credited from git (workspace storage) */
+    GIT_CREDIT_STATE = 'codeToPlay.gitCreditState',
+
+    /** Problem counts already credited per file (workspace storage) */
+    PROBLEM_CREDIT_STATE = 'codeToPlay.problemCreditState',
+
     /** User preferences */
     PREFERENCES = 'codeToPlay.preferences'
 }
@@ -147,7 +613,25 @@ export enum GameEvent {
     CODE_WRITTEN = 'code:written',
 
     /** Progress toward unlock */
-    PROGRESS_UPDATED = 'progress:updated'
+    PROGRESS_UPDATED = 'progress:updated',
+
+    /** Lines waiting for their errors to be fixed changed */
+    CREDIT_PENDING = 'credit:pending',
+
+    /** Problems were fixed */
+    PROBLEMS_FIXED = 'problems:fixed',
+
+    /** A failing test or build task passed */
+    TASK_SUCCEEDED = 'task:succeeded',
+
+    /** A tracked task or debug session started, making plays free */
+    WAITING_ROOM_OPENED = 'waitingRoom:opened',
+
+    /** The last tracked task or debug session ended */
+    WAITING_ROOM_CLOSED = 'waitingRoom:closed',
+
+    /** Minutes of focused coding were recorded */
+    ACTIVE_TIME_RECORDED = 'activity:recorded'
 }
 
 /**
@@ -162,6 +646,95 @@ export interface PlayAttemptResult {
 
     /** Updated game state after attempt */
     gameState?: GameState;
+
+    /** Whether the play is free because a build, test or debug session is running */
+    free?: boolean;
+
+    /** Session opened for the play, when the attempt succeeded */
+    sessionId?: string;
+}
+
+/**
+ * Where a play session is in its lifecycle
+ * requested: allowed but not begun, started: charged and being played,
+ * finished: ended after completing a round, abandoned: ended without one
+ */
+export type PlaySessionStatus = 'requested' | 'started' | 'finished' | 'abandoned';
+
+/**
+ * A single play of a game, from the request to play until it ends
+ */
+export interface PlaySession {
+    /** Unique identifier for the session */
+    id: string;
+
+    /** Game being played */
+    gameId: string;
+
+    /** Where the session is in its lifecycle */
+    status: PlaySessionStatus;
+
+    /** Whether the play is free because a build, test or debug session was running */
+    free: boolean;
+
+    /** When the play was requested */
+    requestedAt: number;
+
+    /** When the play started, once charged */
+    startedAt?: number;
+
+    /** When the session finished or was abandoned */
+    endedAt?: number;
+
+    /** Rounds completed during the session */
+    rounds: number;
+
+    /** Best score of the completed rounds */
+    score?: number;
+
+    /** Mode or difficulty the game was last played in, if the game has modes */
+    mode?: string;
+
+    /** Plays charged for the session so far (0 for free plays) */
+    cost: number;
+}
+
+/**
+ * A play session kept in the play history after it ended
+ */
+export interface PlayHistoryEntry {
+    /** Unique identifier of the session */
+    id: string;
+
+    /** Game that was played */
+    gameId: string;
+
+    /** When the play started, or was requested if it never started */
+    startedAt: number;
+
+    /** When the session ended */
+    endedAt: number;
+
+    /** Time spent playing (milliseconds), 0 if the play never started */
+    duration: number;
+
+    /** Best score of the completed rounds */
+    score?: number;
+
+    /** Rounds completed during the session */
+    rounds: number;
+
+    /** Mode or difficulty the game was played in, if the game has modes */
+    mode?: string;
+
+    /** Whether the play was free */
+    free: boolean;
+
+    /** Plays charged for the session */
+    cost: number;
+
+    /** How the session ended */
+    status: 'finished' | 'abandoned';
 }
 
 /**
@@ -200,8 +773,59 @@ export interface ExtensionConfig {
     /** File extensions to track (if trackAllFiles is false) */
     trackedExtensions: string[];
 
+    /** Glob patterns a file must match to be tracked (empty allows all) */
+    includeGlobs: string[];
+
+    /** Glob patterns for files that are never tracked */
+    excludeGlobs: string[];
+
+    /** Whether files ignored by git are skipped */
+    respectGitIgnore: boolean;
+
+    /** Whether files hidden by the files.exclude setting are skipped */
+    respectFilesExclude: boolean;
+
+    /** Whether generated and minified files are skipped */
+    skipGeneratedFiles: boolean;
+
     /** Minimum time between code changes to count (milliseconds) */
     debounceTime: number;
+
+    /** Whether credit comes from editor keystrokes or local git commits */
+    creditSource: CreditSource;
+
+    /** Approximate memory budget for document snapshots, and separately for high-water marks (bytes) */
+    snapshotBudgetBytes: number;
+
+    /** Language profiles that add to or override the built-in comment syntax */
+    languageProfiles: LanguageProfileSetting[];
+
+    /** Paste, snippet and completion detection */
+    insertion: InsertionConfig;
+
+    /** Diagnostics-aware crediting */
+    diagnostics: DiagnosticsConfig;
+
+    /** Earning unlock progress by fixing problems */
+    problems: ProblemCreditConfig;
+
+    /** Rewards for test and build tasks going green */
+    tasks: TaskRewardConfig;
+
+    /** Free plays while builds, tests and debug sessions run */
+    waitingRoom: WaitingRoomConfig;
+
+    /** Focused coding time measurement */
+    activity: ActivityConfig;
+
+    /** Credit multipliers by language and file path */
+    multipliers: CreditMultiplierConfig;
+
+    /** Crediting documentation files by the prose written */
+    prose: ProseConfig;
+
+    /** How much play history is kept */
+    history: HistoryConfig;
 }
 
 /**
@@ -210,14 +834,98 @@ export interface ExtensionConfig {
 export const DEFAULT_CONFIG: ExtensionConfig = {
     unlock: {
         initialPlays: 5,
+        earningMode: 'lines',
         linesToUnlock: 50,
+        minutesToUnlock: 25,
         playsPerUnlock: 5,
-        countMeaningfulLinesOnly: true
+        countMeaningfulLinesOnly: true,
+        modifiedLineWeight: 0,
+        creditDeletions: false,
+        deletedLineWeight: 0.5,
+        bankCap: 50,
+        chargePer: 'round'
     },
     showUnlockNotifications: true,
     trackAllFiles: false,
     trackedExtensions: TRACKEDEXTENSION,
-    debounceTime: 1000
+    includeGlobs: [],
+    excludeGlobs: [
+        '**/node_modules/**',
+        '**/bower_components/**',
+        '**/vendor/**',
+        '**/dist/**',
+        '**/out/**',
+        '**/build/**',
+        '**/coverage/**',
+        '**/*.min.*',
+        '**/*.map',
+        '**/package-lock.json',
+        '**/npm-shrinkwrap.json',
+        '**/composer.lock',
+        '**/*.lock'
+    ],
+    respectGitIgnore: true,
+    respectFilesExclude: true,
+    skipGeneratedFiles: true,
+    debounceTime: 1000,
+    creditSource: 'keystrokes',
+    snapshotBudgetBytes: 8 * 1024 * 1024,
+    languageProfiles: [],
+    insertion: {
+        largeInsertionLines: 20,
+        snippetPrefixMaxLength: 40,
+        policies: {
+            [InsertionKind.TYPED]: { mode: 'full' },
+            [InsertionKind.PASTE]: { mode: 'capped', cap: 5 },
+            [InsertionKind.SNIPPET]: { mode: 'partial', ratio: 0.5 },
+            [InsertionKind.COMPLETION]: { mode: 'partial', ratio: 0.5 },
+            [InsertionKind.LARGE_INSERTION]: { mode: 'capped', cap: 10 }
+        }
+    },
+    diagnostics: {
+        holdUntilErrorFree: false,
+        settleTime: 3000
+    },
+    problems: {
+        enabled: false,
+        rates: {
+            error: 2,
+            warning: 1,
+            information: 0,
+            hint: 0
+        }
+    },
+    tasks: {
+        enabled: true,
+        groups: ['test', 'build'],
+        namePatterns: [],
+        progressLines: 10,
+        plays: 0
+    },
+    waitingRoom: {
+        enabled: false,
+        groups: ['test', 'build'],
+        namePatterns: [],
+        includeDebugSessions: true
+    },
+    activity: {
+        idleTimeout: 2 * 60 * 1000
+    },
+    multipliers: {
+        languages: {},
+        paths: {}
+    },
+    prose: {
+        enabled: false,
+        extensions: ['.md', '.mdx', '.rst', '.adoc', '.tex', '.txt'],
+        unit: 'words',
+        wordsPerLine: 10,
+        sentencesPerLine: 1
+    },
+    history: {
+        maxSessions: 500,
+        maxAgeDays: 90
+    }
 };
 
 /**
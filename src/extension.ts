@@ -9,7 +9,11 @@ import * as vscode from 'vscode';
 import { StorageManager } from './core/StorageManager';
 import { CodeTracker } from './core/CodeTracker';
 import { GameManager } from './core/GameManager';
+import { ProblemTracker } from './core/ProblemTracker';
+import { WaitingRoom } from './core/WaitingRoom';
+import { ActivityTracker } from './core/ActivityTracker';
 import { createActivityBarView } from './ui/ActivityBarProvider';
+import { createPlayLedgerView } from './ui/PlayLedgerProvider';
 import { createStatusBar } from './ui/StatusBarManager';
 import { createWebviewManager } from './ui/WebViewManager';
 import { AllGames } from './games/registry';
@@ -33,8 +37,17 @@ export function activate(context: vscode.ExtensionContext) {
 	// Code tracker to monitor coding activity
 	const codeTracker = new CodeTracker(storageManager);
 
+	// Problem tracker to credit fixed errors and warnings
+	const problemTracker = new ProblemTracker(storageManager);
+
+	// Waiting room for free plays while builds, tests and debug sessions run
+	const waitingRoom = new WaitingRoom(storageManager.getConfig().waitingRoom);
+
+	// Activity tracker to measure focused coding time
+	const activityTracker = new ActivityTracker(storageManager.getConfig().activity);
+
 	// Game manager to handle game logic
-	const gameManager = new GameManager(storageManager, codeTracker);
+	const gameManager = new GameManager(storageManager, codeTracker, problemTracker, waitingRoom, activityTracker);
 
 	// ========================================
 	// REGISTER GAMES
@@ -55,6 +68,9 @@ export function activate(context: vscode.ExtensionContext) {
 	// Activity bar tree view
 	const treeView = createActivityBarView(context, gameManager, storageManager);
 
+	// Play ledger view
+	createPlayLedgerView(context, storageManager);
+
 	// Status bar item
 	const statusBar = createStatusBar(context, gameManager, storageManager);
 
@@ -129,12 +145,19 @@ export function activate(context: vscode.ExtensionContext) {
 	// Command to view stats
 	const viewStatsCommand = vscode.commands.registerCommand('codeToPlay.viewStats', () => {
 		const totalLines = storageManager.getTotalLinesWritten();
+		const weightedLines = Math.round(storageManager.getTotalWeightedLines());
+		const totalMinutes = storageManager.getTotalActiveMinutes();
+		const taskRewards = storageManager.getTaskRewardStats();
 		const games = gameManager.getAllGames();
 		const unlocked = games.filter(game => gameManager.isGameUnlocked(game.id)).length;
 
 		let stats = `Code to Play Statistics\n\n`;
 		stats += `Total Lines of Code Written: ${totalLines}\n`;
-		stats += `Games Unlocked: ${unlocked} / ${games.length}\n\n`;
+		stats += `Lines Credited After Multipliers: ${weightedLines}\n`;
+		stats += `Focused Coding Time: ${totalMinutes} min\n`;
+		stats += `Tasks Turned Green: ${taskRewards.tasksTurnedGreen} (+${taskRewards.linesEarned} lines, +${taskRewards.playsEarned} plays)\n`;
+		stats += `Games Unlocked: ${unlocked} / ${games.length}\n`;
+		stats += `Time Played: ${Math.round(storageManager.getTotalPlaytime() / 60000)} min\n\n`;
 
 		stats += `Games:\n`;
 		games.forEach(game => {
@@ -145,7 +168,16 @@ export function activate(context: vscode.ExtensionContext) {
 			stats += `${status} ${game.name}\n`;
 			stats += `   Plays Remaining: ${playsRemaining}\n`;
 			stats += `   High Score: ${state.highScore}\n`;
-			stats += `   Total Plays: ${state.totalPlays}\n\n`;
+			stats += `   Total Plays: ${state.totalPlays}\n`;
+			stats += `   Time Played: ${Math.round(storageManager.getTotalPlaytime(game.id) / 60000)} min\n`;
+
+			const recentScores = storageManager.getPlayHistory(game.id, 10)
+				.filter(session => session.score !== undefined)
+				.map(session => session.score);
+			if (recentScores.length > 0) {
+				stats += `   Recent Scores: ${recentScores.join(', ')}\n`;
+			}
+			stats += `\n`;
 		});
 
 		vscode.window.showInformationMessage(stats, { modal: true });
@@ -217,6 +249,42 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	});
 
+	// Command to explain why a file does or does not earn credit
+	const explainTrackingCommand = vscode.commands.registerCommand('codeToPlay.explainTracking', async (uri?: vscode.Uri) => {
+		const document = uri
+			? await vscode.workspace.openTextDocument(uri)
+			: vscode.window.activeTextEditor?.document;
+
+		if (!document) {
+			vscode.window.showWarningMessage('Open a file to see whether Code to Play tracks it.');
+			return;
+		}
+
+		const decision = await codeTracker.explainTracking(document);
+		const fileName = vscode.workspace.asRelativePath(document.uri);
+		const status = decision.tracked ? '✅ Tracked' : '🚫 Not tracked';
+
+		vscode.window.showInformationMessage(`${status}: ${fileName}\n${decision.reason}`);
+	});
+
+	// Command to report how much memory document snapshots and high-water marks use
+	const showTrackingDiagnosticsCommand = vscode.commands.registerCommand('codeToPlay.showTrackingDiagnostics', () => {
+		const stats = codeTracker.getSnapshotStats();
+		const marks = codeTracker.getHighWaterMarkStats();
+		const toKb = (bytes: number) => (bytes / 1024).toFixed(1);
+
+		let report = `Code to Play Tracking Diagnostics\n\n`;
+		report += `Documents tracked: ${stats.documents}\n`;
+		report += `Lines in snapshots: ${stats.lines}\n`;
+		report += `Memory used: ${toKb(stats.bytes)} KB of ${toKb(stats.budgetBytes)} KB\n`;
+		report += `Snapshots evicted: ${stats.evictions}\n`;
+		report += `High-water marks: ${marks.documents} documents, ${toKb(marks.bytes)} KB of ${toKb(marks.budgetBytes)} KB\n`;
+		report += `High-water marks dropped: ${marks.evictions}\n`;
+		report += `Documents awaiting processing: ${codeTracker.getPendingDocumentCount()}`;
+
+		vscode.window.showInformationMessage(report, { modal: true });
+	});
+
 	// ========================================
 	// EVENT HANDLERS
 	// ========================================
@@ -244,7 +312,10 @@ export function activate(context: vscode.ExtensionContext) {
 				const lockedGame = gameManager.getGame(gameId);
 				if (lockedGame) {
 					const config = storageManager.getConfig();
-					vscode.window.showWarningMessage(`🔒 ${lockedGame.name} locked. Write ${config.unlock.linesToUnlock} lines to unlock ${config.unlock.playsPerUnlock} new plays.`);
+					const goal = config.unlock.earningMode === 'time'
+						? `Code for ${config.unlock.minutesToUnlock} minutes`
+						: `Write ${config.unlock.linesToUnlock} lines`;
+					vscode.window.showWarningMessage(`🔒 ${lockedGame.name} locked. ${goal} to unlock ${config.unlock.playsPerUnlock} new plays.`);
 				}
 				break;
 
@@ -254,14 +325,20 @@ export function activate(context: vscode.ExtensionContext) {
 					// 75% progress milestone
 					const progressGame = gameManager.getGame(gameId);
 					if (progressGame) {
+						const unit = storageManager.getConfig().unlock.earningMode === 'time' ? 'minutes' : 'lines';
 						vscode.window.showInformationMessage(
-							`📝 Almost there! ${data.linesRequired - data.linesWritten} more lines to unlock ${progressGame.name}`
+							`📝 Almost there! ${data.linesRequired - data.linesWritten} more ${unit} to unlock ${progressGame.name}`
 						);
 					}
 				}
 
 				break;
 
+			case GameEvent.TASK_SUCCEEDED:
+				// A failing test or build passed - let the user know it paid off
+				statusBar.showMessage(`✅ ${data.taskName} passed: +${data.lines} lines, +${data.plays} plays`);
+				break;
+
 			default:
 				// No action for other events
 				break;
@@ -276,6 +353,9 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(
 		storageManager,
 		codeTracker,
+		problemTracker,
+		waitingRoom,
+		activityTracker,
 		gameManager,
 		treeView,
 		statusBar,
@@ -286,7 +366,9 @@ export function activate(context: vscode.ExtensionContext) {
 		viewStatsCommand,
 		unlockGameCommand,
 		exportDataCommand,
-		importDataCommand
+		importDataCommand,
+		explainTrackingCommand,
+		showTrackingDiagnosticsCommand
 	);
 
 }
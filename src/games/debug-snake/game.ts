@@ -214,6 +214,8 @@ function startGame(): void {
     // Start the game loop
     isRunning = true;
     runGameLoop();
+
+    notifyHost({ command: 'roundStarted' });
 }
 
 /**
@@ -259,6 +261,16 @@ function togglePause(): void {
     }
 }
 
+/**
+ * Pause the game if it is running
+ * Called by the extension host when a build being waited on finishes
+ */
+function pauseGame(): void {
+    if (isRunning && !isPaused) {
+        togglePause();
+    }
+}
+
 /**
  * Restart the game
  * Alias for startGame - used by restart button
@@ -288,6 +300,8 @@ function endGame(): void {
         updateScoreDisplay();
     }
 
+    notifyHost({ command: 'gameOver', score });
+
     // Show game over alert (2 second overlay)
     showGameOverAlert();
 
@@ -609,6 +623,18 @@ function updateSpeedDisplay(): void {
     speedElement.textContent = level.toString();
 }
 
+// ========================================
+// EXTENSION HOST
+// ========================================
+
+/**
+ * Send a message to the extension host
+ * Rounds and scores are reported so plays can be charged and scores kept
+ */
+function notifyHost(message: object): void {
+    (window as any).codeToPlayHost?.postMessage(message);
+}
+
 // ========================================
 // INITIALIZATION
 // Auto-start when page loads
@@ -624,4 +650,5 @@ if (document.readyState === 'loading') {
 // Expose functions to global scope for onclick handlers in HTML
 (window as any).startGame = startGame;
 (window as any).togglePause = togglePause;
+(window as any).pauseGame = pauseGame;
 (window as any).restartGame = restartGame;
\ No newline at end of file
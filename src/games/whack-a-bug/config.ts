@@ -18,5 +18,8 @@ export const WhackABugGame: IGame = {
     isOnline: false,
     htmlPath: 'index.html',
     jsPath: 'game.ts',  // TypeScript file
-    cssPath: 'styles.css'
+    cssPath: 'styles.css',
+    modeCosts: {
+        hard: 2
+    }
 };
\ No newline at end of file
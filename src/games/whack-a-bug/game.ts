@@ -216,6 +216,8 @@ function startGame(): void {
 
     startCountdown();
     scheduleNextBug();
+
+    notifyHost({ command: 'roundStarted', mode: selectedDifficulty });
 }
 
 function stopGame(): void {
@@ -240,6 +242,13 @@ function stopGame(): void {
     });
 }
 
+// Called by the extension host when a build being waited on finishes
+function pauseGame(): void {
+    if (isPlaying) {
+        stopGame();
+    }
+}
+
 function endGame(): void {
     stopGame();
 
@@ -249,6 +258,8 @@ function endGame(): void {
         updateScoreDisplay();
     }
 
+    notifyHost({ command: 'gameOver', score });
+
     showGameOverAlert();
 
     setTimeout(() => {
@@ -399,6 +410,15 @@ function updateTimerDisplay(): void {
     }
 }
 
+// ========================================
+// EXTENSION HOST
+// ========================================
+
+// Rounds and scores are reported so plays can be charged and scores kept
+function notifyHost(message: object): void {
+    (window as any).codeToPlayHost?.postMessage(message);
+}
+
 // ========================================
 // INITIALIZE ON LOAD
 // ========================================
@@ -412,4 +432,5 @@ if (document.readyState === 'loading') {
 (window as any).selectDifficulty = selectDifficulty;
 (window as any).startGameMode = startGameMode;
 (window as any).backToMenu = backToMenu;
-(window as any).restartGame = restartGame;
\ No newline at end of file
+(window as any).restartGame = restartGame;
+(window as any).pauseGame = pauseGame;
\ No newline at end of file
@@ -0,0 +1,77 @@
+/**
+ * ActivityTracker.test.ts
+ *
+ * Unit tests for ActivityTracker
+ * Tests measuring focused coding time with idle and focus detection
+ */
+
+import * as assert from 'assert';
+import { ActivityTracker } from '../core/ActivityTracker';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+suite('ActivityTracker Test Suite', () => {
+    let tracker: ActivityTracker;
+    let minutes: number;
+
+    setup(() => {
+        tracker = new ActivityTracker({ idleTimeout: 2 * MINUTE });
+        (tracker as any).focused = true;
+        minutes = 0;
+
+        tracker.onActiveMinutes(count => {
+            minutes += count;
+        });
+    });
+
+    teardown(() => {
+        tracker.dispose();
+    });
+
+    /**
+     * Records activity at each of the given times
+     */
+    function activeAt(...times: number[]) {
+        for (const time of times) {
+            (tracker as any).recordActivity(time);
+        }
+    }
+
+    test('Steady activity is counted in whole minutes', () => {
+        // Activity every 30 seconds for 2.5 minutes
+        activeAt(0, 30 * SECOND, 60 * SECOND, 90 * SECOND, 120 * SECOND, 150 * SECOND);
+
+        assert.strictEqual(minutes, 2);
+    });
+
+    test('Gaps longer than the idle timeout are not counted', () => {
+        activeAt(0, MINUTE, 10 * MINUTE, 11 * MINUTE);
+
+        assert.strictEqual(minutes, 2);
+    });
+
+    test('Time away from the window is not counted', () => {
+        activeAt(0, 30 * SECOND);
+        (tracker as any).setFocused(false, 60 * SECOND);
+
+        // Events that still reach the window while it is in the background
+        activeAt(70 * SECOND, 80 * SECOND);
+        assert.strictEqual(minutes, 1);
+
+        (tracker as any).setFocused(true, 100 * SECOND);
+        activeAt(130 * SECOND);
+        assert.strictEqual(minutes, 1);
+
+        activeAt(160 * SECOND);
+        assert.strictEqual(minutes, 2);
+    });
+
+    test('Partial minutes carry over', () => {
+        activeAt(0, 40 * SECOND);
+        assert.strictEqual(minutes, 0);
+
+        activeAt(80 * SECOND);
+        assert.strictEqual(minutes, 1);
+    });
+});
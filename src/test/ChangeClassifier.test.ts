@@ -0,0 +1,108 @@
+/**
+ * ChangeClassifier.test.ts
+ *
+ * Unit tests for ChangeClassifier
+ * Tests paste, snippet and completion detection and the credit policies
+ */
+
+import * as assert from 'assert';
+import { ChangeClassifier } from '../core/ChangeClassifier';
+import { DEFAULT_CONFIG, InsertionKind } from '../core/types';
+
+/**
+ * Builds a mock content change
+ */
+function createChange(text: string, rangeLength = 0, isSingleLine = true): any {
+    return { text, rangeLength, range: { isSingleLine } };
+}
+
+/**
+ * Builds a block of distinct code lines
+ */
+function createBlock(lines: number): string {
+    return Array.from({ length: lines }, (_, i) => `const value${i} = ${i};`).join('\n');
+}
+
+suite('ChangeClassifier Test Suite', () => {
+    let classifier: ChangeClassifier;
+
+    setup(() => {
+        classifier = new ChangeClassifier(DEFAULT_CONFIG.insertion);
+    });
+
+    test('Single-line typing is classified as typed with full credit', () => {
+        const result = classifier.classify([createChange('const x = 1;')], 'typescript');
+
+        assert.strictEqual(result.kind, InsertionKind.TYPED);
+        assert.strictEqual(result.withheldLines, 0);
+    });
+
+    test('Pressing enter inserts no meaningful lines', () => {
+        const result = classifier.classify([createChange('\n    ')], 'typescript');
+
+        assert.deepStrictEqual(result.linesByKind, {});
+        assert.strictEqual(result.withheldLines, 0);
+    });
+
+    test('Insertions matching the clipboard are pastes and capped', () => {
+        const block = createBlock(500);
+        const result = classifier.classify([createChange(block)], 'typescript', block);
+
+        assert.strictEqual(result.kind, InsertionKind.PASTE);
+        assert.strictEqual(result.linesByKind[InsertionKind.PASTE], 500);
+        assert.strictEqual(result.withheldLines, 495);
+    });
+
+    test('Clipboard matching ignores re-indentation', () => {
+        const result = classifier.classify(
+            [createChange('    const a = 1;\n    const b = 2;')],
+            'typescript',
+            'const a = 1;\r\nconst b = 2;'
+        );
+
+        assert.strictEqual(result.kind, InsertionKind.PASTE);
+    });
+
+    test('Short prefix replaced by a block is a snippet', () => {
+        const result = classifier.classify([createChange(createBlock(4), 3)], 'typescript');
+
+        assert.strictEqual(result.kind, InsertionKind.SNIPPET);
+        assert.strictEqual(result.withheldLines, 2);
+    });
+
+    test('Multi-line insertion at the cursor is a completion', () => {
+        const result = classifier.classify([createChange(createBlock(6))], 'typescript', 'other text');
+
+        assert.strictEqual(result.kind, InsertionKind.COMPLETION);
+        assert.strictEqual(result.withheldLines, 3);
+    });
+
+    test('Very large insertions are capped', () => {
+        const result = classifier.classify([createChange(createBlock(40))], 'typescript');
+
+        assert.strictEqual(result.kind, InsertionKind.LARGE_INSERTION);
+        assert.strictEqual(result.withheldLines, 30);
+    });
+
+    test('Policies can be changed to give zero credit', () => {
+        classifier.updateConfig({
+            ...DEFAULT_CONFIG.insertion,
+            policies: {
+                ...DEFAULT_CONFIG.insertion.policies,
+                [InsertionKind.PASTE]: { mode: 'none' }
+            }
+        });
+
+        const block = createBlock(3);
+        const result = classifier.classify([createChange(block)], 'typescript', block);
+
+        assert.strictEqual(result.withheldLines, 3);
+    });
+
+    test('Comments in inserted text are not counted', () => {
+        const block = '// one\n// two\nconst x = 1;\nconst y = 2;';
+        const result = classifier.classify([createChange(block)], 'typescript', block);
+
+        assert.strictEqual(result.linesByKind[InsertionKind.PASTE], 2);
+    });
+});
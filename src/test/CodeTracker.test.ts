@@ -6,10 +6,14 @@
  */
 
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { CodeTracker } from '../core/CodeTracker';
 import { StorageManager } from '../core/StorageManager';
 import { DEFAULT_CONFIG } from '../core/types';
+import { globToRegExp } from '../core/TrackingFilter';
 
 // Use mock context from StorageManager tests
 class MockMemento implements vscode.Memento {
@@ -238,6 +242,79 @@ suite('CodeTracker Test Suite', () => {
         assert.strictEqual(change.netChange, 0); // No meaningful change
     });
 
+    test('Calculate line changes credits in-place rewrites as modifications', () => {
+        codeTracker.updateConfig({
+            ...DEFAULT_CONFIG,
+            unlock: { ...DEFAULT_CONFIG.unlock, modifiedLineWeight: 1 }
+        });
+
+        const calculateLineChanges = (codeTracker as any).calculateLineChanges.bind(codeTracker);
+
+        const oldContent = 'function add(a, b) {\n    return a + b;\n}';
+        const newContent = 'function add(a, b) {\n    const sum = a + b;\n    return sum;\n}';
+
+        const change = calculateLineChanges(oldContent, newContent, 'typescript');
+
+        assert.strictEqual(change.meaningfulLinesModified, 1);
+        assert.strictEqual(change.meaningfulLinesAdded, 1);
+        assert.strictEqual(change.meaningfulLinesDeleted, 0);
+        assert.strictEqual(change.netChange, 2);
+        assert.strictEqual(change.isMeaningful, true);
+    });
+
+    test('Calculate line changes does not cancel out delete-one-add-one edits', () => {
+        codeTracker.updateConfig({
+            ...DEFAULT_CONFIG,
+            unlock: { ...DEFAULT_CONFIG.unlock, modifiedLineWeight: 1 }
+        });
+
+        const calculateLineChanges = (codeTracker as any).calculateLineChanges.bind(codeTracker);
+
+        const oldContent = 'const x = 5;\nconst y = 10;';
+        const newContent = 'const x = 5;\nconst z = 15;';
+
+        const change = calculateLineChanges(oldContent, newContent, 'typescript');
+
+        assert.strictEqual(change.linesModified, 1);
+        assert.strictEqual(change.linesAdded, 0);
+        assert.strictEqual(change.linesDeleted, 0);
+        assert.strictEqual(change.netChange, 1);
+    });
+
+    test('Calculate line changes ignores indentation-only edits', () => {
+        const calculateLineChanges = (codeTracker as any).calculateLineChanges.bind(codeTracker);
+
+        const oldContent = 'if (ok) {\nrun();\n}';
+        const newContent = 'if (ok) {\n    run();\n}';
+
+        const change = calculateLineChanges(oldContent, newContent, 'typescript');
+
+        assert.strictEqual(change.linesModified, 0);
+        assert.strictEqual(change.netChange, 0);
+    });
+
+    test('Calculate line changes ignores lines added inside a block comment', () => {
+        const calculateLineChanges = (codeTracker as any).calculateLineChanges.bind(codeTracker);
+
+        const oldContent = '/*\nNotes\n*/\nconst x = 5;';
+        const newContent = '/*\nNotes\nmore notes without a star\n*/\nconst x = 5;';
+
+        const change = calculateLineChanges(oldContent, newContent, 'typescript');
+
+        assert.strictEqual(change.linesAdded, 1);
+        assert.strictEqual(change.isMeaningful, false);
+        assert.strictEqual(change.netChange, 0);
+    });
+
+    test('Modified lines are not credited by default', () => {
+        const calculateLineChanges = (codeTracker as any).calculateLineChanges.bind(codeTracker);
+
+        const change = calculateLineChanges('const x = 5;', 'const x = 6;', 'typescript');
+
+        assert.strictEqual(change.meaningfulLinesModified, 1);
+        assert.strictEqual(change.netChange, 0);
+    });
+
     // ========================================
     // FILE TRACKING TESTS
     // ========================================
@@ -246,8 +323,10 @@ suite('CodeTracker Test Suite', () => {
         const shouldTrack = (codeTracker as any).shouldTrackDocument.bind(codeTracker);
 
         const mockDoc = {
+            uri: vscode.Uri.file('/test/file.ts'),
             fileName: '/test/file.ts',
-            languageId: 'typescript'
+            languageId: 'typescript',
+            lineCount: 0
         };
 
         assert.strictEqual(shouldTrack(mockDoc), true);
@@ -257,8 +336,10 @@ suite('CodeTracker Test Suite', () => {
         const shouldTrack = (codeTracker as any).shouldTrackDocument.bind(codeTracker);
 
         const mockDoc = {
+            uri: vscode.Uri.file('/test/file.js'),
             fileName: '/test/file.js',
-            languageId: 'javascript'
+            languageId: 'javascript',
+            lineCount: 0
         };
 
         assert.strictEqual(shouldTrack(mockDoc), true);
@@ -268,8 +349,10 @@ suite('CodeTracker Test Suite', () => {
         const shouldTrack = (codeTracker as any).shouldTrackDocument.bind(codeTracker);
 
         const mockDoc = {
+            uri: vscode.Uri.file('/test/file.txt'),
             fileName: '/test/file.txt',
-            languageId: 'plaintext'
+            languageId: 'plaintext',
+            lineCount: 0
         };
 
         assert.strictEqual(shouldTrack(mockDoc), false);
@@ -282,13 +365,121 @@ suite('CodeTracker Test Suite', () => {
         const shouldTrack = (codeTracker as any).shouldTrackDocument.bind(codeTracker);
 
         const mockDoc = {
+            uri: vscode.Uri.file('/test/file.txt'),
             fileName: '/test/file.txt',
-            languageId: 'plaintext'
+            languageId: 'plaintext',
+            lineCount: 0
         };
 
         assert.strictEqual(shouldTrack(mockDoc), true);
     });
 
+    /**
+     * Builds a mock file with the given lines of text
+     */
+    function createMockFile(fileName: string, lines: string[] = []) {
+        return {
+            uri: vscode.Uri.file(fileName),
+            fileName,
+            languageId: 'typescript',
+            lineCount: lines.length,
+            lineAt: (index: number) => ({ text: lines[index] })
+        };
+    }
+
+    test('Should not track files under node_modules or dist', () => {
+        const shouldTrack = (codeTracker as any).shouldTrackDocument.bind(codeTracker);
+
+        assert.strictEqual(shouldTrack(createMockFile('/repo/node_modules/pkg/index.js')), false);
+        assert.strictEqual(shouldTrack(createMockFile('/repo/dist/extension.js')), false);
+        assert.strictEqual(shouldTrack(createMockFile('/repo/src/app.min.js')), false);
+        assert.strictEqual(shouldTrack(createMockFile('/repo/src/app.ts')), true);
+    });
+
+    test('Should respect include globs', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, includeGlobs: ['src/**'] });
+        const shouldTrack = (codeTracker as any).shouldTrackDocument.bind(codeTracker);
+
+        assert.strictEqual(shouldTrack(createMockFile('/repo/src/app.ts')), true);
+        assert.strictEqual(shouldTrack(createMockFile('/repo/scripts/tool.ts')), false);
+    });
+
+    test('Folders above the workspace do not exclude files', () => {
+        const workspace = vscode.workspace as any;
+        const asRelativePath = workspace.asRelativePath;
+        workspace.asRelativePath = (uri: vscode.Uri) => uri.fsPath.replace(/^\/home\/dev\/build\/shop\//, '');
+
+        try {
+            const shouldTrack = (codeTracker as any).shouldTrackDocument.bind(codeTracker);
+
+            assert.strictEqual(shouldTrack(createMockFile('/home/dev/build/shop/src/app.ts')), true);
+            assert.strictEqual(shouldTrack(createMockFile('/home/dev/build/shop/build/app.ts')), false);
+        } finally {
+            workspace.asRelativePath = asRelativePath;
+        }
+    });
+
+    test('Should not track generated or minified files', () => {
+        const shouldTrack = (codeTracker as any).shouldTrackDocument.bind(codeTracker);
+
+        const generated = createMockFile('/repo/src/api.ts', [
+            '// Code generated by protoc. DO NOT EDIT.',
+            'export const x = 1;'
+        ]);
+        const minified = createMockFile('/repo/src/bundle.js', ['var a=1;'.repeat(200)]);
+
+        assert.strictEqual(shouldTrack(generated), false);
+        assert.strictEqual(shouldTrack(minified), false);
+    });
+
+    test('Generator banners only count in the comments at the top of a file', () => {
+        const shouldTrack = (codeTracker as any).shouldTrackDocument.bind(codeTracker);
+
+        const annotated = createMockFile('/repo/src/annotated.ts', [
+            '#!/usr/bin/env node',
+            '/**',
+            ' * @generated',
+            ' */',
+            'export const x = 1;'
+        ]);
+        const variable = createMockFile('/repo/src/flags.ts', [
+            'const autoGenerated = true;'
+        ]);
+        const prose = createMockFile('/repo/src/factory.ts', [
+            '// Widgets generated by the factory, do not edit them by hand',
+            'export const widgets = [];'
+        ]);
+        const belowCode = createMockFile('/repo/src/config.ts', [
+            'export const config = {',
+            '    // DO NOT EDIT without updating the schema',
+            '    version: 2',
+            '};'
+        ]);
+
+        assert.strictEqual(shouldTrack(annotated), false);
+        assert.strictEqual(shouldTrack(variable), true);
+        assert.strictEqual(shouldTrack(prose), true);
+        assert.strictEqual(shouldTrack(belowCode), true);
+    });
+
+    test('Explain tracking reports the reason for a decision', async () => {
+        const decision = await codeTracker.explainTracking(
+            createMockFile('/repo/node_modules/pkg/index.js') as any
+        );
+
+        assert.strictEqual(decision.tracked, false);
+        assert.ok(decision.reason.includes('**/node_modules/**'));
+    });
+
+    test('Glob patterns match folders, extensions and alternatives', () => {
+        assert.ok(globToRegExp('**/node_modules/**').test('/a/node_modules/b/c.js'));
+        assert.ok(globToRegExp('*.json').test('/a/b/package.json'));
+        assert.ok(globToRegExp('**/*.{ts,tsx}').test('/a/b.tsx'));
+        assert.ok(globToRegExp('**/.git').test('/repo/.git/config'));
+        assert.ok(!globToRegExp('*.json').test('/a/b/package.jsonc'));
+        assert.ok(!globToRegExp('src/**').test('/repo/scripts/a.ts'));
+    });
+
     // ========================================
     // CONFIGURATION TESTS
     // ========================================
@@ -333,21 +524,690 @@ suite('CodeTracker Test Suite', () => {
             languageId: 'typescript'
         };
 
-        (codeTracker as any).documentCache.set('file:///test1.ts', 'const x = 5;');
-        (codeTracker as any).documentCache.set('file:///test2.ts', 'const y = 10;');
+        (codeTracker as any).snapshots.set('file:///test1.ts', 'const x = 5;', 'typescript');
+        (codeTracker as any).snapshots.set('file:///test2.ts', 'const y = 10;', 'typescript');
 
         assert.strictEqual(codeTracker.getTrackedDocumentCount(), 2);
     });
 
     test('Clear cache removes all documents', () => {
-        (codeTracker as any).documentCache.set('file:///test1.ts', 'const x = 5;');
-        (codeTracker as any).documentCache.set('file:///test2.ts', 'const y = 10;');
+        (codeTracker as any).snapshots.set('file:///test1.ts', 'const x = 5;', 'typescript');
+        (codeTracker as any).snapshots.set('file:///test2.ts', 'const y = 10;', 'typescript');
 
         codeTracker.clearCache();
 
         assert.strictEqual(codeTracker.getTrackedDocumentCount(), 0);
     });
 
+    // ========================================
+    // DEBOUNCE QUEUE TESTS
+    // ========================================
+
+    /**
+     * Builds a mock document whose content can be changed between events
+     */
+    function createMockDocument(uri: string, fileName: string, text: string) {
+        const doc = {
+            uri: { toString: () => uri },
+            fileName,
+            isUntitled: false,
+            isDirty: true,
+            languageId: 'typescript',
+            lineCount: 0,
+            text,
+            getText: () => doc.text
+        };
+        return doc;
+    }
+
+    /**
+     * Builds a change event carrying a single inserted line
+     */
+    function createChangeEvent(document: any, reason?: vscode.TextDocumentChangeReason) {
+        return {
+            document,
+            contentChanges: [{ text: '\n', rangeLength: 0 }],
+            reason
+        };
+    }
+
+    test('Edits in one document do not cancel pending changes in another', (done) => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 20 });
+
+        const docA = createMockDocument('file:///a.ts', '/a.ts', 'const a = 1;');
+        const docB = createMockDocument('file:///b.ts', '/b.ts', 'const b = 1;');
+        (codeTracker as any).snapshots.set('file:///a.ts', docA.text, 'typescript');
+        (codeTracker as any).snapshots.set('file:///b.ts', docB.text, 'typescript');
+
+        const credited: string[] = [];
+        codeTracker.onCodeWritten(() => {
+            credited.push('change');
+            if (credited.length === 2) {
+                assert.strictEqual(codeTracker.getPendingDocumentCount(), 0);
+                done();
+            }
+        });
+
+        const handleDocumentChange = (codeTracker as any).handleDocumentChange.bind(codeTracker);
+
+        docA.text += '\nconst a2 = 2;';
+        handleDocumentChange(createChangeEvent(docA));
+
+        docB.text += '\nconst b2 = 2;';
+        handleDocumentChange(createChangeEvent(docB));
+
+        assert.strictEqual(codeTracker.getPendingDocumentCount(), 2);
+    });
+
+    test('Closing a document flushes its queued changes immediately', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 60000 });
+
+        const doc = createMockDocument('file:///c.ts', '/c.ts', 'const c = 1;');
+        (codeTracker as any).snapshots.set('file:///c.ts', doc.text, 'typescript');
+
+        let creditedLines = 0;
+        codeTracker.onCodeWritten(change => {
+            creditedLines += change.netChange;
+        });
+
+        doc.text += '\nconst c2 = 2;';
+        (codeTracker as any).handleDocumentChange(createChangeEvent(doc));
+        (codeTracker as any).handleDocumentClose(doc);
+
+        assert.strictEqual(creditedLines, 1);
+        assert.strictEqual(codeTracker.getPendingDocumentCount(), 0);
+    });
+
+    // ========================================
+    // EXTERNAL RELOAD TESTS
+    // ========================================
+
+    test('Reloads from disk are not credited and become the new baseline', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 60000 });
+
+        const doc = createMockDocument('file:///d.ts', '/d.ts', 'const d = 1;');
+        (codeTracker as any).snapshots.set('file:///d.ts', doc.text, 'typescript');
+
+        let creditedLines = 0;
+        codeTracker.onCodeWritten(change => {
+            creditedLines += change.netChange;
+        });
+
+        // A branch switch rewrites the file and leaves the document clean
+        doc.isDirty = false;
+        doc.text = Array.from({ length: 50 }, (_, i) => `const v${i} = ${i};`).join('\n');
+        (codeTracker as any).handleDocumentChange(createChangeEvent(doc));
+
+        assert.strictEqual(codeTracker.getPendingDocumentCount(), 0);
+        assert.strictEqual((codeTracker as any).snapshots.get('file:///d.ts').hashes.length, 50);
+
+        // Typing afterwards is credited against the reloaded text
+        doc.isDirty = true;
+        doc.text += '\nconst typed = true;';
+        (codeTracker as any).handleDocumentChange(createChangeEvent(doc));
+        (codeTracker as any).handleDocumentClose(doc);
+
+        assert.strictEqual(creditedLines, 1);
+    });
+
+    test('Typing around a commit is credited', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 60000 });
+
+        const doc = createMockDocument('file:///e.ts', '/e.ts', 'const e = 1;');
+        (codeTracker as any).snapshots.set('file:///e.ts', doc.text, 'typescript');
+
+        let creditedLines = 0;
+        codeTracker.onCodeWritten(change => {
+            creditedLines += change.netChange;
+        });
+
+        // Typing still queued when HEAD moves is credited straight away
+        doc.text += '\nconst before = 2;';
+        (codeTracker as any).handleDocumentChange(createChangeEvent(doc));
+        (codeTracker as any).handleHeadChange();
+        assert.strictEqual(creditedLines, 1);
+        assert.strictEqual(codeTracker.getPendingDocumentCount(), 0);
+
+        // Typing right after the commit does not match disk, so it is not a reload
+        doc.text += '\nconst after = 3;';
+        (codeTracker as any).handleDocumentChange(createChangeEvent(doc));
+        (codeTracker as any).handleDocumentClose(doc);
+
+        assert.strictEqual(creditedLines, 2);
+    });
+
+    test('Changes matching the file on disk right after a git HEAD change are not credited', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 60000 });
+
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'code-to-play-')), 'pulled.ts');
+        const doc: any = createMockDocument('file:///pulled.ts', file, 'const e = 1;');
+        doc.uri = { scheme: 'file', fsPath: file, toString: () => 'file:///pulled.ts' };
+        (codeTracker as any).snapshots.set('file:///pulled.ts', doc.text, 'typescript');
+
+        let creditedLines = 0;
+        codeTracker.onCodeWritten(change => {
+            creditedLines += change.netChange;
+        });
+
+        try {
+            (codeTracker as any).handleHeadChange();
+            doc.text += '\nconst pulled = 2;';
+            fs.writeFileSync(file, doc.text);
+            (codeTracker as any).handleDocumentChange(createChangeEvent(doc));
+            (codeTracker as any).handleDocumentClose(doc);
+
+            assert.strictEqual(creditedLines, 0);
+        } finally {
+            fs.rmSync(path.dirname(file), { recursive: true, force: true });
+        }
+    });
+
+    test('Typing before a reload is credited and the reload is not', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 60000 });
+
+        const doc = createMockDocument('file:///r.ts', '/r.ts', 'const r = 1;');
+
+        let creditedLines = 0;
+        codeTracker.onCodeWritten(change => {
+            creditedLines += change.netChange;
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+
+        // Committing from a terminal moves HEAD, which flushes the typing
+        doc.text += '\nconst typed = 2;';
+        (codeTracker as any).handleDocumentChange(createChangeEvent(doc));
+        (codeTracker as any).handleHeadChange();
+
+        // Typing after HEAD moved is then discarded by a reload that pulls in another line
+        doc.text += '\nconst discarded = 3;';
+        (codeTracker as any).handleDocumentChange(createChangeEvent(doc));
+        doc.text = 'const r = 1;\nconst typed = 2;\nconst pulled = 4;';
+        doc.isDirty = false;
+        (codeTracker as any).handleDocumentChange(createChangeEvent(doc));
+
+        assert.strictEqual(codeTracker.getPendingDocumentCount(), 0);
+        (codeTracker as any).flushDocument('file:///r.ts');
+        assert.strictEqual(creditedLines, 1);
+    });
+
+    // ========================================
+    // DOCUMENT CACHE SEEDING TESTS
+    // ========================================
+
+    test('First edit in a freshly opened file is credited', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 60000 });
+
+        const doc = createMockDocument('file:///f.ts', '/f.ts', 'const f = 1;');
+
+        let creditedLines = 0;
+        codeTracker.onCodeWritten(change => {
+            creditedLines += change.netChange;
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        assert.strictEqual(codeTracker.getTrackedDocumentCount(), 1);
+
+        doc.text += '\nconst f2 = 2;\nconst f3 = 3;';
+        (codeTracker as any).handleDocumentChange(createChangeEvent(doc));
+        (codeTracker as any).handleDocumentClose(doc);
+
+        assert.strictEqual(creditedLines, 2);
+    });
+
+    test('Closing a document evicts its baseline', () => {
+        const doc = createMockDocument('file:///g.ts', '/g.ts', 'const g = 1;');
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        (codeTracker as any).handleDocumentClose(doc);
+
+        assert.strictEqual(codeTracker.getTrackedDocumentCount(), 0);
+    });
+
+    test('Opening an untracked file does not seed the cache', () => {
+        const doc = createMockDocument(
+            'file:///repo/node_modules/h.ts',
+            '/repo/node_modules/h.ts',
+            'const h = 1;'
+        );
+
+        (codeTracker as any).handleDocumentOpen(doc);
+
+        assert.strictEqual(codeTracker.getTrackedDocumentCount(), 0);
+    });
+
+    test('An empty document is a valid baseline', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 60000 });
+
+        const doc = createMockDocument('file:///i.ts', '/i.ts', '');
+
+        let creditedLines = 0;
+        codeTracker.onCodeWritten(change => {
+            creditedLines += change.netChange;
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        doc.text = 'const i = 1;';
+        (codeTracker as any).handleDocumentChange(createChangeEvent(doc));
+        (codeTracker as any).handleDocumentClose(doc);
+
+        assert.strictEqual(creditedLines, 1);
+    });
+
+    // ========================================
+    // UNDO/REDO TESTS
+    // ========================================
+
+    /**
+     * Applies an edit to a document and processes it straight away
+     */
+    function edit(doc: any, text: string, reason?: vscode.TextDocumentChangeReason) {
+        doc.text = text;
+        (codeTracker as any).handleDocumentChange(createChangeEvent(doc, reason));
+        (codeTracker as any).flushDocument(doc.uri.toString());
+    }
+
+    test('Undoing and redoing a block is only credited once', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 60000 });
+
+        const base = 'const j = 1;';
+        const typed = `${base}\nconst j2 = 2;\nconst j3 = 3;`;
+        const doc = createMockDocument('file:///j.ts', '/j.ts', base);
+
+        let creditedLines = 0;
+        codeTracker.onCodeWritten(change => {
+            creditedLines += change.netChange;
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        edit(doc, typed);
+        for (let i = 0; i < 3; i++) {
+            edit(doc, base, vscode.TextDocumentChangeReason.Undo);
+            edit(doc, typed, vscode.TextDocumentChangeReason.Redo);
+        }
+
+        assert.strictEqual(creditedLines, 2);
+    });
+
+    test('Retyping lines that were undone is not credited again', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 60000 });
+
+        const base = 'const k = 1;';
+        const typed = `${base}\nconst k2 = 2;`;
+        const doc = createMockDocument('file:///k.ts', '/k.ts', base);
+
+        let creditedLines = 0;
+        codeTracker.onCodeWritten(change => {
+            creditedLines += change.netChange;
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        edit(doc, typed);
+        edit(doc, base, vscode.TextDocumentChangeReason.Undo);
+        edit(doc, typed);
+        edit(doc, `${typed}\nconst k3 = 3;`);
+
+        assert.strictEqual(creditedLines, 2);
+    });
+
+    test('Cutting and pasting lines back is not credited', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 60000 });
+
+        const block = 'function l() {\n    return compute();\n}';
+        const doc = createMockDocument('file:///l.ts', '/l.ts', `const l = 1;\n${block}`);
+
+        const changes: any[] = [];
+        codeTracker.onCodeWritten(change => {
+            changes.push(change);
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        edit(doc, 'const l = 1;');
+        edit(doc, `${block}\nconst l = 1;`);
+        edit(doc, 'const l = 1;');
+        edit(doc, `const l = 1;\n${block}`);
+
+        assert.strictEqual(changes.length, 0);
+    });
+
+    test('Another copy of a credited line is still credited', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 60000 });
+
+        const doc = createMockDocument('file:///m.ts', '/m.ts', '');
+
+        const changes: any[] = [];
+        codeTracker.onCodeWritten(change => {
+            changes.push(change);
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        edit(doc, 'count++;');
+        edit(doc, 'count++;\ncount++;');
+        edit(doc, 'count++;\ncount++;\nconst m = 1;\nconst m2 = 2;');
+        edit(doc, 'count++;\ncount++;');
+        edit(doc, 'count++;\ncount++;\nconst m = 1;\nconst m3 = 3;');
+
+        assert.deepStrictEqual(changes.map(change => change.netChange), [1, 1, 2, 1]);
+        assert.strictEqual(changes[3].repeatedLines, 1);
+    });
+
+    test('A line typed over several flushes is credited once', () => {
+        codeTracker.updateConfig({
+            ...DEFAULT_CONFIG,
+            debounceTime: 60000,
+            unlock: { ...DEFAULT_CONFIG.unlock, modifiedLineWeight: 1 }
+        });
+
+        const doc = createMockDocument('file:///t.ts', '/t.ts', 'const a = 1;');
+
+        const changes: any[] = [];
+        codeTracker.onCodeWritten(change => {
+            changes.push(change);
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        edit(doc, 'const a = 1;\nconst');
+        edit(doc, 'const a = 1;\nconst total');
+        edit(doc, 'const a = 1;\nconst total = a');
+        edit(doc, 'const a = 1;\nconst total = a + 1;');
+
+        const credited = changes.reduce((sum, change) => sum + change.netChange, 0);
+        assert.strictEqual(credited, 1);
+    });
+
+    // ========================================
+    // DELETION CREDIT TESTS
+    // ========================================
+
+    test('Deleting existing lines is credited when deletions earn credit', () => {
+        codeTracker.updateConfig({
+            ...DEFAULT_CONFIG,
+            debounceTime: 60000,
+            unlock: { ...DEFAULT_CONFIG.unlock, creditDeletions: true, deletedLineWeight: 0.5, modifiedLineWeight: 1 }
+        });
+
+        const doc = createMockDocument('file:///o.ts', '/o.ts', 'const o = 1;\nconst o2 = 2;\nconst o3 = 3;\nconst o4 = 4;');
+
+        const changes: any[] = [];
+        codeTracker.onCodeWritten(change => {
+            changes.push(change);
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        edit(doc, 'const o = 1;\nconst o5 = 5;');
+
+        // One line rewritten in place, two deleted
+        assert.strictEqual(changes.length, 1);
+        assert.strictEqual(changes[0].netChange, 2);
+        assert.deepStrictEqual(changes[0].credit, { added: 0, modified: 1, deleted: 1 });
+    });
+
+    test('Deletions are not credited by default', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 60000 });
+
+        const doc = createMockDocument('file:///p.ts', '/p.ts', 'const p = 1;\nconst p2 = 2;');
+
+        const changes: any[] = [];
+        codeTracker.onCodeWritten(change => {
+            changes.push(change);
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        edit(doc, 'const p = 1;');
+
+        assert.strictEqual(changes.length, 0);
+    });
+
+    test('Deleting lines typed this session or deleted before is not credited', () => {
+        codeTracker.updateConfig({
+            ...DEFAULT_CONFIG,
+            debounceTime: 60000,
+            unlock: { ...DEFAULT_CONFIG.unlock, creditDeletions: true, deletedLineWeight: 1 }
+        });
+
+        const base = 'const q = 1;\nconst q2 = 2;';
+        const doc = createMockDocument('file:///q.ts', '/q.ts', base);
+
+        const changes: any[] = [];
+        codeTracker.onCodeWritten(change => {
+            changes.push(change);
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        edit(doc, `${base}\nconst q3 = 3;`);
+        edit(doc, base);
+        edit(doc, 'const q = 1;');
+        edit(doc, base, vscode.TextDocumentChangeReason.Undo);
+        edit(doc, 'const q = 1;');
+
+        assert.deepStrictEqual(changes.map(change => change.credit), [
+            { added: 1, modified: 0, deleted: 0 },
+            { added: 0, modified: 0, deleted: 1 }
+        ]);
+    });
+
+    // ========================================
+    // DOCUMENTATION MODE TESTS
+    // ========================================
+
+    test('Documentation files earn for words written when documentation mode is on', () => {
+        codeTracker.updateConfig({
+            ...DEFAULT_CONFIG,
+            debounceTime: 60000,
+            prose: { ...DEFAULT_CONFIG.prose, enabled: true, wordsPerLine: 5 }
+        });
+
+        const doc = createMockDocument('file:///r.md', '/r.md', '# Notes');
+
+        const changes: any[] = [];
+        codeTracker.onCodeWritten(change => {
+            changes.push(change);
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        edit(doc, '# Notes\n\nThis long wrapped sentence is only one line but has\nplenty of words.');
+
+        assert.strictEqual(changes.length, 1);
+        assert.strictEqual(changes[0].netChange, 2.6);
+        assert.deepStrictEqual(changes[0].prose, { words: 13, sentences: 1 });
+    });
+
+    test('Pasted documentation is capped like pasted code', () => {
+        codeTracker.updateConfig({
+            ...DEFAULT_CONFIG,
+            debounceTime: 60000,
+            prose: { ...DEFAULT_CONFIG.prose, enabled: true, wordsPerLine: 5 }
+        });
+
+        const doc = createMockDocument('file:///r2.md', '/r2.md', '# Notes');
+        const pasted = Array.from({ length: 50 }, (_, i) => `Step ${i} explains one more thing.`).join('\n');
+
+        const changes: any[] = [];
+        codeTracker.onCodeWritten(change => {
+            changes.push(change);
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        doc.text = `# Notes\n${pasted}`;
+        const pasteChange = { text: pasted, rangeLength: 0, range: { isSingleLine: true } };
+        (codeTracker as any).processDocumentChange(doc, [pasteChange], pasted);
+
+        assert.strictEqual(changes.length, 1);
+        assert.strictEqual(changes[0].netChange, 5);
+        assert.strictEqual(changes[0].classification?.kind, 'paste');
+        assert.strictEqual(changes[0].classification?.withheldLines, 55);
+        assert.strictEqual(changes[0].credit.added, 5);
+    });
+
+    test('Documentation marks are forgotten when the document closes', () => {
+        codeTracker.updateConfig({
+            ...DEFAULT_CONFIG,
+            prose: { ...DEFAULT_CONFIG.prose, enabled: true }
+        });
+
+        const doc = createMockDocument('file:///r3.md', '/r3.md', '# Notes');
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        assert.ok((codeTracker as any).prose.has('file:///r3.md'));
+
+        (codeTracker as any).handleDocumentClose(doc);
+        assert.ok(!(codeTracker as any).prose.has('file:///r3.md'));
+    });
+
+    // ========================================
+    // NOTEBOOK TESTS
+    // ========================================
+
+    /**
+     * Builds a notebook with one code cell and one markdown cell
+     */
+    function createMockNotebook(path: string) {
+        const cellDocument = (fragment: string, text: string, languageId: string) => {
+            const doc = { ...createMockDocument(`vscode-notebook-cell:${path}#${fragment}`, path, text), languageId };
+            doc.uri = { scheme: 'vscode-notebook-cell', toString: () => `vscode-notebook-cell:${path}#${fragment}` } as any;
+            doc.getText = () => doc.text;
+            return doc;
+        };
+
+        const code = cellDocument('a', 'x = 1', 'python');
+        const markdown = cellDocument('b', '# Title', 'markdown');
+        const notebook: any = { uri: vscode.Uri.file(path), isUntitled: false, isDirty: true };
+        const cells = [
+            { kind: vscode.NotebookCellKind.Code, document: code, notebook },
+            { kind: vscode.NotebookCellKind.Markup, document: markdown, notebook }
+        ];
+        notebook.getCells = () => cells;
+
+        return { notebook, cells, code, markdown };
+    }
+
+    /**
+     * Types into a notebook cell, firing the cell's and the notebook's change events
+     */
+    function editCell(
+        notebook: any,
+        cell: any,
+        text: string,
+        inserted: string,
+        reason?: vscode.TextDocumentChangeReason
+    ) {
+        cell.document.text = text;
+        (codeTracker as any).handleDocumentChange({
+            document: cell.document,
+            contentChanges: [{ text: inserted, rangeLength: 0 }],
+            reason
+        });
+        (codeTracker as any).handleNotebookChange({
+            notebook,
+            contentChanges: [],
+            cellChanges: [{ cell, document: cell.document }]
+        });
+    }
+
+    test('Notebook code cells earn lines and markdown cells earn prose', () => {
+        codeTracker.updateConfig({ ...DEFAULT_CONFIG, debounceTime: 60000 });
+
+        const { notebook, cells, code, markdown } = createMockNotebook('/s.ipynb');
+
+        const changes: any[] = [];
+        codeTracker.onCodeWritten(change => {
+            changes.push(change);
+        });
+
+        (codeTracker as any).handleNotebookOpen(notebook);
+
+        editCell(notebook, cells[0], 'x = 1\ny = x * 2', '\ny = x * 2');
+        editCell(
+            notebook,
+            cells[1],
+            '# Title\n\nThis cell explains how the model is trained on the data.',
+            'This cell explains how the model is trained on the data.'
+        );
+        (codeTracker as any).handleNotebookChange({
+            notebook,
+            contentChanges: [],
+            cellChanges: [{ cell: cells[0], document: undefined, outputs: [], executionSummary: { executionOrder: 3 } }]
+        });
+        (codeTracker as any).flushDocument(code.uri.toString());
+        (codeTracker as any).flushDocument(markdown.uri.toString());
+
+        assert.strictEqual(changes.length, 2);
+        assert.strictEqual(changes[0].languageId, 'python');
+        assert.strictEqual(changes[0].netChange, 1);
+        assert.deepStrictEqual(changes[1].prose, { words: 11, sentences: 1 });
+        assert.strictEqual(changes[1].netChange, 1.1);
+    });
+
+    test('Notebook cells keep their content changes and undo reason', () => {
+        codeTracker.updateConfig({
+            ...DEFAULT_CONFIG,
+            debounceTime: 60000,
+            unlock: { ...DEFAULT_CONFIG.unlock, creditDeletions: true, deletedLineWeight: 1 }
+        });
+
+        const { notebook, cells, code } = createMockNotebook('/s2.ipynb');
+        const key = code.uri.toString();
+        code.text = 'x = 1\ny = 2';
+
+        const changes: any[] = [];
+        codeTracker.onCodeWritten(change => {
+            changes.push(change);
+        });
+
+        (codeTracker as any).handleNotebookOpen(notebook);
+
+        editCell(notebook, cells[0], 'x = 1\ny = 2\nz = 3', '\nz = 3');
+        assert.deepStrictEqual(
+            (codeTracker as any).pendingChanges.get(key).changes.map((change: any) => change.text),
+            ['\nz = 3']
+        );
+        (codeTracker as any).flushDocument(key);
+
+        // Undoing past the baseline removes a line without deleting it by hand
+        editCell(notebook, cells[0], 'x = 1', '', vscode.TextDocumentChangeReason.Undo);
+        (codeTracker as any).flushDocument(key);
+
+        assert.strictEqual(changes.length, 1);
+    });
+
+    // ========================================
+    // DIAGNOSTICS ESCROW TESTS
+    // ========================================
+
+    test('Credit waits for errors on new lines when holding is enabled', () => {
+        codeTracker.updateConfig({
+            ...DEFAULT_CONFIG,
+            debounceTime: 60000,
+            diagnostics: { holdUntilErrorFree: true, settleTime: 0 }
+        });
+
+        const doc = createMockDocument('file:///n.ts', '/n.ts', 'const n = 1;');
+        const escrow = (codeTracker as any).escrow;
+        let errors: any[] = [{
+            severity: vscode.DiagnosticSeverity.Error,
+            range: { start: { line: 1 }, end: { line: 1 } }
+        }];
+        escrow.readErrors = () => errors;
+
+        let creditedLines = 0;
+        codeTracker.onCodeWritten(change => {
+            creditedLines += change.netChange;
+        });
+
+        (codeTracker as any).handleDocumentOpen(doc);
+        edit(doc, 'const n = 1;\nconst n2 = missing;');
+        escrow.handleDiagnosticsChange({ uris: [doc.uri] });
+
+        assert.strictEqual(creditedLines, 0);
+        assert.strictEqual(codeTracker.getPendingLines(), 1);
+
+        errors = [];
+        escrow.handleDiagnosticsChange({ uris: [doc.uri] });
+
+        assert.strictEqual(creditedLines, 1);
+        assert.strictEqual(codeTracker.getPendingLines(), 0);
+    });
+
     // ========================================
     // EVENT EMISSION TESTS
     // ========================================
@@ -370,7 +1230,7 @@ suite('CodeTracker Test Suite', () => {
         // (In real use, this would be triggered by VS Code events)
 
         // Set initial cache
-        (codeTracker as any).documentCache.set('test-uri', 'const x = 5;');
+        (codeTracker as any).snapshots.set('test-uri', 'const x = 5;', 'typescript');
 
         // Simulate change
         const mockDoc = {
@@ -381,4 +1241,26 @@ suite('CodeTracker Test Suite', () => {
 
         (codeTracker as any).processDocumentChange(mockDoc);
     });
-});
\ No newline at end of file
+
+    test('Pasted blocks are capped and the classification is recorded', (done) => {
+        const pasted = Array.from({ length: 50 }, (_, i) => `const v${i} = ${i};`).join('\n');
+
+        codeTracker.onCodeWritten((change) => {
+            assert.strictEqual(change.netChange, 5);
+            assert.strictEqual(change.classification?.kind, 'paste');
+            assert.strictEqual(change.classification?.withheldLines, 45);
+            done();
+        });
+
+        (codeTracker as any).snapshots.set('paste-uri', 'const x = 5;', 'typescript');
+
+        const mockDoc = {
+            uri: { toString: () => 'paste-uri' },
+            getText: () => `const x = 5;\n${pasted}`,
+            languageId: 'typescript'
+        };
+        const pasteChange = { text: pasted, rangeLength: 0, range: { isSingleLine: true } };
+
+        (codeTracker as any).processDocumentChange(mockDoc, [pasteChange], pasted);
+    });
+});
@@ -0,0 +1,540 @@
+/**
+ * CommentLexer.test.ts
+ *
+ * Unit tests for the CommentLexer
+ * Runs a table of snippets per language and checks which lines are meaningful
+ */
+
+import * as assert from 'assert';
+import { CommentLexer } from '../core/CommentLexer';
+import { BUILT_IN_PROFILES } from '../core/LanguageProfiles';
+
+/**
+ * A snippet and the expected meaningful flag for each of its lines
+ */
+interface LexerCase {
+    /** Language IDs the snippet applies to */
+    languages: string[];
+
+    /** Source lines paired with whether each should be meaningful */
+    lines: [string, boolean][];
+}
+
+const CASES: LexerCase[] = [
+    // ---------- C-style + JSDoc ----------
+    {
+        languages: ['javascript', 'javascriptreact', 'typescript', 'typescriptreact'],
+        lines: [
+            ['/**', false],
+            [' Describes the function', false],
+            [' @param value - input', false],
+            [' */', false],
+            ['const url = "http://example.com"; // trailing', true],
+            ['const glob = `/* not a comment */`;', true],
+            ['} // end of block', false],
+            ['/* inline */ run();', true]
+        ]
+    },
+    {
+        languages: ['java', 'c', 'cpp', 'csharp', 'go', 'php', 'objective-c'],
+        lines: [
+            ['/*', false],
+            ['block comment body without a star', false],
+            ['*/', false],
+            ['int x = 1; /* trailing */', true],
+            ['// line comment', false],
+            ['char *s = "/*";', true],
+            ['return x;', true]
+        ]
+    },
+    {
+        languages: ['rust', 'swift', 'kotlin', 'scala'],
+        lines: [
+            ['/* outer', false],
+            ['/* inner */', false],
+            ['still inside outer', false],
+            ['*/', false],
+            ['let x = 1;', true],
+            ['// line comment', false]
+        ]
+    },
+    {
+        languages: ['dart'],
+        lines: [
+            ['/* outer', false],
+            ['/* inner */', false],
+            ['*/', false],
+            ["var s = '''", true],
+            ['// inside a string', true],
+            ["''';", true],
+            ['/// doc comment', false]
+        ]
+    },
+    {
+        languages: ['groovy'],
+        lines: [
+            ['// comment', false],
+            ['def s = """', true],
+            ['/* inside a string */', true],
+            ['"""', true],
+            ['/* block */', false]
+        ]
+    },
+    {
+        languages: ['solidity', 'verilog', 'systemverilog'],
+        lines: [
+            ['/*', false],
+            ['block body', false],
+            ['*/', false],
+            ['uint x = 1; // trailing', true],
+            ['// comment', false]
+        ]
+    },
+    {
+        languages: ['jsonc'],
+        lines: [
+            ['// comment', false],
+            ['/* block */', false],
+            ['"url": "http://example.com",', true]
+        ]
+    },
+    {
+        languages: ['pony'],
+        lines: [
+            ['"""', false],
+            ['Docstring body', false],
+            ['"""', false],
+            ['let x = 1', true],
+            ['/* a /* b */ c */', false]
+        ]
+    },
+    {
+        languages: ['prolog'],
+        lines: [
+            ['% comment', false],
+            ['/* block */', false],
+            ["foo(X) :- X = '%'.", true]
+        ]
+    },
+    {
+        languages: ['zig'],
+        lines: [
+            ['// comment', false],
+            ['const x = 1;', true],
+            ['}', false]
+        ]
+    },
+
+    // ---------- Hash-style ----------
+    {
+        languages: ['python'],
+        lines: [
+            ['def greet(name):', true],
+            ['    """Say hello.', false],
+            ['', false],
+            ['    Longer explanation of the function.', false],
+            ['    """', false],
+            ['    message = """', true],
+            ['    Hello there', true],
+            ['    """', true],
+            ['    return message  # done', true],
+            ["    '''single quoted docstring'''", false]
+        ]
+    },
+    {
+        languages: ['gdscript'],
+        lines: [
+            ['# comment', false],
+            ['"""Documentation"""', false],
+            ['var x = 1', true]
+        ]
+    },
+    {
+        languages: ['crystal', 'awk'],
+        lines: [
+            ['# comment', false],
+            ['print "#"', true]
+        ]
+    },
+    {
+        languages: ['elixir'],
+        lines: [
+            ['# comment', false],
+            ['@doc """', true],
+            ['Docs # not a comment', true],
+            ['"""', true],
+            ['def x, do: 1', true]
+        ]
+    },
+    {
+        languages: ['nim'],
+        lines: [
+            ['#[ outer', false],
+            ['#[ inner ]#', false],
+            [']#', false],
+            ['echo "#"', true],
+            ['# comment', false]
+        ]
+    },
+    {
+        languages: ['tcl'],
+        lines: [
+            ['# comment', false],
+            ['set x 1 ;# trailing', true],
+            ['puts "#"', true]
+        ]
+    },
+    {
+        languages: ['ini'],
+        lines: [
+            ['; comment', false],
+            ['# comment', false],
+            ['color = #fff', true],
+            ['[section]', true]
+        ]
+    },
+    {
+        languages: ['ruby'],
+        lines: [
+            ['=begin', false],
+            ['block comment body', false],
+            ['=end', false],
+            ['puts "#{name}"', true],
+            ['# comment', false]
+        ]
+    },
+    {
+        languages: ['shellscript', 'bash', 'zsh', 'sh', 'r', 'yaml'],
+        lines: [
+            ['# comment', false],
+            ['echo "# not a comment"', true],
+            ['value: 1 # trailing', true]
+        ]
+    },
+    {
+        languages: ['powershell'],
+        lines: [
+            ['<#', false],
+            ['block comment body', false],
+            ['#>', false],
+            ['Write-Host "hi"', true]
+        ]
+    },
+    {
+        languages: ['makefile'],
+        lines: [
+            ['# comment', false],
+            ['all: build', true]
+        ]
+    },
+    {
+        languages: ['perl'],
+        lines: [
+            ['=pod', false],
+            ['documentation', false],
+            ['=cut', false],
+            ['print "hi";', true]
+        ]
+    },
+    {
+        languages: ['julia'],
+        lines: [
+            ['#= outer', false],
+            ['#= inner =#', false],
+            ['still inside', false],
+            ['=#', false],
+            ['x = 1', true]
+        ]
+    },
+    {
+        languages: ['toml'],
+        lines: [
+            ['# comment', false],
+            ['description = """', true],
+            ['multi-line value', true],
+            ['"""', true]
+        ]
+    },
+
+    // ---------- HTML / XML ----------
+    {
+        languages: ['html', 'xml', 'markdown', 'mdx', 'xhtml', 'svg', 'wikitext'],
+        lines: [
+            ['<!--', false],
+            ['comment interior', false],
+            ['-->', false],
+            ["<p>Don't stop</p>", true],
+            ['<!-- one line -->', false]
+        ]
+    },
+
+    // ---------- Documentation / text ----------
+    {
+        languages: ['restructuredtext'],
+        lines: [
+            ['.. a comment', false],
+            ['..', false],
+            ['.. code-block:: python', true],
+            ['Some text', true]
+        ]
+    },
+    {
+        languages: ['asciidoc'],
+        lines: [
+            ['// comment', false],
+            ['////', false],
+            ['block comment', false],
+            ['////', false],
+            ['Some text', true]
+        ]
+    },
+    {
+        languages: ['latex', 'tex', 'bibtex'],
+        lines: [
+            ['% comment', false],
+            ['@article{key, % trailing', true]
+        ]
+    },
+    {
+        languages: ['org'],
+        lines: [
+            ['# comment', false],
+            ['#+BEGIN_COMMENT', false],
+            ['hidden', false],
+            ['#+END_COMMENT', false],
+            ['* Heading', true],
+            ['#+TITLE: Notes', true]
+        ]
+    },
+    {
+        languages: ['json'],
+        lines: [
+            ['{', false],
+            ['"key": "// value",', true],
+            ['}', false]
+        ]
+    },
+    {
+        languages: ['csv', 'tsv', 'plaintext'],
+        lines: [
+            ['a,b,c', true],
+            ['', false],
+            ['# not a comment', true]
+        ]
+    },
+
+    // ---------- CSS ----------
+    {
+        languages: ['css', 'postcss'],
+        lines: [
+            ['/*', false],
+            ['theme colours', false],
+            ['*/', false],
+            ['a { color: red; }', true]
+        ]
+    },
+    {
+        languages: ['scss', 'sass', 'less', 'stylus'],
+        lines: [
+            ['// comment', false],
+            ['/* block', false],
+            ['body */', false],
+            ['$main: #333;', true]
+        ]
+    },
+
+    // ---------- Lua ----------
+    {
+        languages: ['lua'],
+        lines: [
+            ['--[[', false],
+            ['block comment body', false],
+            [']]', false],
+            ['-- line comment', false],
+            ['local s = [[', true],
+            ['-- inside a long string', true],
+            [']]', true]
+        ]
+    },
+
+    // ---------- SQL ----------
+    {
+        languages: ['sql', 'mysql', 'postgresql', 'sqlite'],
+        lines: [
+            ['-- comment', false],
+            ['/*', false],
+            ['block body', false],
+            ['*/', false],
+            ["SELECT '--' FROM users;", true]
+        ]
+    },
+
+    // ---------- Ada / Eiffel ----------
+    {
+        languages: ['ada', 'eiffel'],
+        lines: [
+            ['-- comment', false],
+            ['X := 1; -- trailing', true],
+            ['Put_Line ("--");', true]
+        ]
+    },
+
+    // ---------- Haskell / Elm ----------
+    {
+        languages: ['haskell', 'elm'],
+        lines: [
+            ['{- outer', false],
+            ['{- nested -}', false],
+            ['still inside', false],
+            ['-}', false],
+            ['main = print "{-"', true],
+            ['-- comment', false]
+        ]
+    },
+
+    // ---------- ML family ----------
+    {
+        languages: ['fsharp'],
+        lines: [
+            ['// comment', false],
+            ['(* outer', false],
+            ['(* inner *)', false],
+            ['*)', false],
+            ['let x = 1', true]
+        ]
+    },
+    {
+        languages: ['ocaml', 'ocaml.interface'],
+        lines: [
+            ['(* outer', false],
+            ['(* inner *)', false],
+            ['*)', false],
+            ['let x = "(*"', true]
+        ]
+    },
+
+    // ---------- Lisp family ----------
+    {
+        languages: ['lisp', 'commonlisp', 'elisp', 'emacs-lisp', 'scheme', 'racket'],
+        lines: [
+            ['#|', false],
+            ['block body', false],
+            ['|#', false],
+            ['(define x 1) ; trailing', true],
+            ['; comment', false]
+        ]
+    },
+    {
+        languages: ['clojure'],
+        lines: [
+            ['; comment', false],
+            ['(def x ";")', true]
+        ]
+    },
+
+    // ---------- Smalltalk ----------
+    {
+        languages: ['smalltalk'],
+        lines: [
+            ['"a comment"', false],
+            ["x := 'a \"quoted\" string'.", true],
+            ['"multi', false],
+            ['line"', false]
+        ]
+    },
+
+    // ---------- Fortran / COBOL ----------
+    {
+        languages: ['FortranFreeForm', 'fortran', 'fortran90'],
+        lines: [
+            ['! comment', false],
+            ["print *, 'Hi!'", true],
+            ['x = 1 ! trailing', true]
+        ]
+    },
+    {
+        languages: ['FortranFixedForm', 'fortran_fixed-form'],
+        lines: [
+            ['C     comment', false],
+            ['* comment', false],
+            ['      X = 1', true],
+            ['! comment', false],
+            ['      CALL FOO', true]
+        ]
+    },
+    {
+        languages: ['cobol', 'COBOL'],
+        lines: [
+            ['000100* comment', false],
+            ['      * comment', false],
+            ['      / page eject', false],
+            ["DISPLAY 'HELLO'. *> trailing", true],
+            ['*> inline comment', false]
+        ]
+    },
+
+    // ---------- Assembly ----------
+    {
+        languages: ['asm', 'assembly'],
+        lines: [
+            ['; comment', false],
+            ['# comment', false],
+            ['mov eax, 1', true]
+        ]
+    },
+
+    // ---------- MATLAB / Octave ----------
+    {
+        languages: ['matlab', 'octave'],
+        lines: [
+            ['%{', false],
+            ['block body', false],
+            ['%}', false],
+            ['% comment', false],
+            ['x = 1;', true]
+        ]
+    }
+];
+
+suite('CommentLexer Test Suite', () => {
+    for (const testCase of CASES) {
+        for (const languageId of testCase.languages) {
+            test(`Meaningful lines in ${languageId}`, () => {
+                const lexer = CommentLexer.forLanguage(languageId);
+                const flags = lexer.scanLines(testCase.lines.map(([line]) => line));
+
+                testCase.lines.forEach(([line, expected], index) => {
+                    assert.strictEqual(
+                        flags[index],
+                        expected,
+                        `${languageId} line ${index + 1}: ${JSON.stringify(line)}`
+                    );
+                });
+            });
+        }
+    }
+
+    test('Every language with comment syntax has a test case', () => {
+        const covered = new Set(CASES.flatMap(testCase => testCase.languages));
+        const missing = BUILT_IN_PROFILES
+            .flatMap(profile => [profile.id, ...(profile.aliases ?? [])])
+            .filter(id => !covered.has(id));
+
+        assert.deepStrictEqual(missing, []);
+    });
+
+    test('Unknown languages count every non-blank line', () => {
+        const lexer = CommentLexer.forLanguage('plaintext');
+
+        assert.deepStrictEqual(lexer.scanLines(['// text', '', '# text']), [true, false, true]);
+    });
+
+    test('Reset clears an open block comment', () => {
+        const lexer = CommentLexer.forLanguage('typescript');
+
+        lexer.scanLine('/* open');
+        lexer.reset();
+
+        assert.strictEqual(lexer.scanLine('const x = 1;'), true);
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * CreditMultipliers.test.ts
+ *
+ * Unit tests for CreditMultipliers
+ * Tests scaling credit by language and file path
+ */
+
+import * as assert from 'assert';
+import { CreditMultipliers } from '../core/CreditMultipliers';
+import { CodeChange, DEFAULT_CONFIG } from '../core/types';
+
+/**
+ * Builds a credited change worth the given number of lines
+ */
+function createChange(netChange: number, languageId: string): CodeChange {
+    return {
+        linesAdded: netChange,
+        linesDeleted: 0,
+        linesModified: 0,
+        meaningfulLinesAdded: netChange,
+        meaningfulLinesDeleted: 0,
+        meaningfulLinesModified: 0,
+        netChange,
+        isMeaningful: true,
+        credit: { added: netChange, modified: 0, deleted: 0 },
+        languageId,
+        timestamp: Date.now()
+    };
+}
+
+suite('CreditMultipliers Test Suite', () => {
+    const multipliers = new CreditMultipliers({
+        languages: { rust: 1.5, json: 0.2 },
+        paths: { '**/*.test.ts': 1.5, '**/docs/**': 0.5 }
+    });
+
+    test('Nothing is scaled by default', () => {
+        const defaults = new CreditMultipliers(DEFAULT_CONFIG.multipliers);
+        const change = createChange(4, 'typescript');
+
+        defaults.apply(change, '/repo/src/app.ts');
+
+        assert.strictEqual(change.netChange, 4);
+        assert.strictEqual(change.rawNetChange, 4);
+        assert.strictEqual(change.multiplier, undefined);
+    });
+
+    test('Language and path multipliers apply', () => {
+        assert.strictEqual(multipliers.getMultiplier('json', '/repo/package.json'), 0.2);
+        assert.strictEqual(multipliers.getMultiplier('typescript', '/repo/src/app.test.ts'), 1.5);
+        assert.strictEqual(multipliers.getMultiplier('typescript', '/repo/src/app.ts'), 1);
+        assert.strictEqual(multipliers.getMultiplier('rust', 'C:\\repo\\docs\\lib.rs'), 0.75);
+    });
+
+    test('Scaled changes keep their raw credit', () => {
+        const change = createChange(10, 'json');
+
+        multipliers.apply(change, '/repo/config.json');
+
+        assert.strictEqual(change.netChange, 2);
+        assert.strictEqual(change.rawNetChange, 10);
+        assert.strictEqual(change.multiplier, 0.2);
+        assert.deepStrictEqual(change.credit, { added: 2, modified: 0, deleted: 0 });
+    });
+});
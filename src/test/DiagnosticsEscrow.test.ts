@@ -0,0 +1,160 @@
+/**
+ * DiagnosticsEscrow.test.ts
+ *
+ * Unit tests for DiagnosticsEscrow
+ * Tests holding credit for lines with errors and releasing it once fixed
+ */
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DiagnosticsEscrow } from '../core/DiagnosticsEscrow';
+import { CodeChange, DEFAULT_CONFIG } from '../core/types';
+
+/**
+ * Builds a credited change worth the given number of lines
+ */
+function createChange(netChange: number): CodeChange {
+    return {
+        linesAdded: netChange,
+        linesDeleted: 0,
+        linesModified: 0,
+        meaningfulLinesAdded: netChange,
+        meaningfulLinesDeleted: 0,
+        meaningfulLinesModified: 0,
+        netChange,
+        isMeaningful: true,
+        languageId: 'typescript',
+        timestamp: Date.now()
+    };
+}
+
+/**
+ * Builds an error diagnostic on a single line
+ */
+function createError(line: number): any {
+    return {
+        severity: vscode.DiagnosticSeverity.Error,
+        range: { start: { line, character: 0 }, end: { line, character: 1 } }
+    };
+}
+
+/**
+ * Builds a content change replacing the lines between start and end
+ */
+function createEdit(start: number, end: number, text: string): any {
+    return {
+        range: { start: { line: start, character: 0 }, end: { line: end, character: 0 } },
+        text,
+        rangeLength: 0
+    };
+}
+
+suite('DiagnosticsEscrow Test Suite', () => {
+    const uri = vscode.Uri.file('/src/app.ts');
+    const key = uri.toString();
+
+    let escrow: DiagnosticsEscrow;
+    let errors: any[];
+    let released: number;
+
+    setup(() => {
+        escrow = new DiagnosticsEscrow({ holdUntilErrorFree: true, settleTime: 0 });
+        errors = [];
+        released = 0;
+
+        (escrow as any).readErrors = () => errors;
+        escrow.onRelease(change => {
+            released += change.netChange;
+        });
+    });
+
+    teardown(() => {
+        escrow.dispose();
+    });
+
+    /**
+     * Simulates the language server publishing new diagnostics for the file
+     */
+    function publishDiagnostics() {
+        (escrow as any).handleDiagnosticsChange({ uris: [uri] });
+    }
+
+    test('Holding is off by default', () => {
+        assert.strictEqual(DEFAULT_CONFIG.diagnostics.holdUntilErrorFree, false);
+    });
+
+    test('Lines with errors stay pending until the errors are fixed', () => {
+        errors = [createError(3)];
+        escrow.hold(uri, createChange(2), [{ start: 2, end: 4 }]);
+        publishDiagnostics();
+
+        assert.strictEqual(released, 0);
+        assert.strictEqual(escrow.getPendingLines(), 2);
+
+        errors = [];
+        publishDiagnostics();
+
+        assert.strictEqual(released, 2);
+        assert.strictEqual(escrow.getPendingLines(), 0);
+    });
+
+    test('Errors on other lines do not hold credit', () => {
+        errors = [createError(10)];
+        escrow.hold(uri, createChange(2), [{ start: 2, end: 4 }]);
+        publishDiagnostics();
+
+        assert.strictEqual(released, 2);
+    });
+
+    test('Changes are not checked before diagnostics have settled', () => {
+        escrow.updateConfig({ holdUntilErrorFree: true, settleTime: 60000 });
+
+        escrow.hold(uri, createChange(1), [{ start: 0, end: 1 }]);
+        publishDiagnostics();
+
+        assert.strictEqual(released, 0);
+        assert.strictEqual(escrow.getPendingLines(), 1);
+    });
+
+    test('Held lines follow edits made above them', () => {
+        escrow.hold(uri, createChange(1), [{ start: 5, end: 6 }]);
+
+        // Two lines inserted at the top move the held line to 7
+        escrow.shift(key, [createEdit(0, 0, 'a\nb\n')]);
+        errors = [createError(5)];
+        publishDiagnostics();
+        assert.strictEqual(released, 1);
+    });
+
+    test('Held lines that move onto an error stay pending', () => {
+        escrow.hold(uri, createChange(1), [{ start: 5, end: 6 }]);
+
+        escrow.shift(key, [createEdit(0, 0, 'a\nb\n')]);
+        errors = [createError(7)];
+        publishDiagnostics();
+
+        assert.strictEqual(released, 0);
+    });
+
+    test('Closing a file releases clean changes and forfeits the rest', () => {
+        errors = [createError(0)];
+        escrow.hold(uri, createChange(1), [{ start: 0, end: 1 }]);
+        escrow.hold(uri, createChange(3), [{ start: 4, end: 7 }]);
+
+        escrow.settle(key);
+
+        assert.strictEqual(released, 3);
+        assert.strictEqual(escrow.getPendingLines(), 0);
+    });
+
+    test('Turning holding off releases everything', () => {
+        errors = [createError(0)];
+        escrow.hold(uri, createChange(2), [{ start: 0, end: 2 }]);
+        publishDiagnostics();
+
+        escrow.updateConfig({ holdUntilErrorFree: false, settleTime: 0 });
+
+        assert.strictEqual(released, 2);
+        assert.strictEqual(escrow.isEnabled(), false);
+    });
+});
@@ -0,0 +1,694 @@
+/**
+ * GameManager.test.ts
+ *
+ * Unit tests for GameManager
+ * Tests rewards for test and build tasks going green, free waiting room plays,
+ * earning by focused coding time, banking progress while unlocked,
+ * recording every balance change in the play ledger, the play session
+ * lifecycle, the play history and per-game play costs
+ */
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CodeTracker } from '../core/CodeTracker';
+import { GameManager } from '../core/GameManager';
+import { StorageManager } from '../core/StorageManager';
+import { WaitingRoom } from '../core/WaitingRoom';
+import { ActivityTracker } from '../core/ActivityTracker';
+import { DEFAULT_CONFIG, GameEvent, PlayHistoryEntry } from '../core/types';
+
+// Use mock context from StorageManager tests
+class MockMemento implements vscode.Memento {
+    private storage = new Map<string, any>();
+
+    keys(): readonly string[] {
+        return Array.from(this.storage.keys());
+    }
+
+    get<T>(key: string): T | undefined;
+    get<T>(key: string, defaultValue: T): T;
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.storage.get(key) ?? defaultValue;
+    }
+
+    async update(key: string, value: any): Promise<void> {
+        if (value === undefined) {
+            this.storage.delete(key);
+        } else {
+            this.storage.set(key, value);
+        }
+    }
+}
+
+class MockExtensionContext implements vscode.ExtensionContext {
+    subscriptions: vscode.Disposable[] = [];
+    workspaceState: vscode.Memento;
+    globalState: vscode.Memento & { setKeysForSync(keys: readonly string[]): void };
+    secrets: vscode.SecretStorage = {} as any;
+    extensionUri: vscode.Uri = vscode.Uri.file('/test');
+    extensionPath: string = '/test';
+    environmentVariableCollection: vscode.GlobalEnvironmentVariableCollection = {} as any;
+    asAbsolutePath(relativePath: string): string {
+        return `/test/${relativePath}`;
+    }
+    storageUri: vscode.Uri | undefined = vscode.Uri.file('/test/storage');
+    storagePath: string | undefined = '/test/storage';
+    globalStorageUri: vscode.Uri = vscode.Uri.file('/test/global');
+    globalStoragePath: string = '/test/global';
+    logUri: vscode.Uri = vscode.Uri.file('/test/log');
+    logPath: string = '/test/log';
+    extensionMode: vscode.ExtensionMode = vscode.ExtensionMode.Test;
+    extension: vscode.Extension<any> = {} as any;
+    languageModelAccessInformation: vscode.LanguageModelAccessInformation = {} as any;
+
+    constructor() {
+        const memento = new MockMemento();
+        this.workspaceState = memento;
+        this.globalState = Object.assign(memento, {
+            setKeysForSync: (keys: readonly string[]) => { }
+        });
+    }
+}
+
+/**
+ * Builds a task process end event
+ */
+function createTaskEnd(name: string, exitCode: number | undefined, group?: string): any {
+    return {
+        execution: { task: { name, source: 'npm', group: group ? { id: group } : undefined } },
+        exitCode
+    };
+}
+
+suite('GameManager Test Suite', () => {
+    let storageManager: StorageManager;
+    let codeTracker: CodeTracker;
+    let waitingRoom: WaitingRoom;
+    let activityTracker: ActivityTracker;
+    let gameManager: GameManager;
+    let events: GameEvent[];
+
+    setup(async () => {
+        storageManager = new StorageManager(new MockExtensionContext());
+        codeTracker = new CodeTracker(storageManager);
+        waitingRoom = new WaitingRoom({ ...DEFAULT_CONFIG.waitingRoom, enabled: true });
+        activityTracker = new ActivityTracker(DEFAULT_CONFIG.activity);
+        gameManager = new GameManager(storageManager, codeTracker, undefined, waitingRoom, activityTracker);
+        gameManager.registerGame({ id: 'snake', name: 'Snake' } as any);
+        events = [];
+        gameManager.onGameEvent(({ event }) => events.push(event));
+
+        await storageManager.resetGlobalPlayState({ isUnlocked: false, playsRemaining: 0, linesWritten: 0 });
+    });
+
+    teardown(() => {
+        gameManager.dispose();
+        activityTracker.dispose();
+        waitingRoom.dispose();
+        codeTracker.dispose();
+    });
+
+    /**
+     * Feeds task results to the game manager in order
+     */
+    async function runTasks(...taskEnds: any[]) {
+        for (const event of taskEnds) {
+            await (gameManager as any).handleTaskEnd(event);
+        }
+    }
+
+    // ========================================
+    // TASK REWARD TESTS
+    // ========================================
+
+    test('A test task passing after failing earns progress', async () => {
+        await runTasks(createTaskEnd('test', 1, 'test'), createTaskEnd('test', 0, 'test'));
+
+        assert.strictEqual(
+            storageManager.getGlobalPlayState().linesWritten,
+            DEFAULT_CONFIG.tasks.progressLines
+        );
+        assert.ok(events.includes(GameEvent.TASK_SUCCEEDED));
+        assert.strictEqual(storageManager.getTaskRewardStats().tasksTurnedGreen, 1);
+    });
+
+    test('Tasks that were never red are not rewarded', async () => {
+        await runTasks(createTaskEnd('build', 0, 'build'), createTaskEnd('build', 0, 'build'));
+
+        assert.strictEqual(storageManager.getGlobalPlayState().linesWritten, 0);
+        assert.ok(!events.includes(GameEvent.TASK_SUCCEEDED));
+    });
+
+    test('Only rewarded groups and matching names count', async () => {
+        await runTasks(createTaskEnd('watch', 1), createTaskEnd('watch', 0));
+        assert.strictEqual(storageManager.getTaskRewardStats().tasksTurnedGreen, 0);
+
+        await gameManager.updateConfig({
+            ...DEFAULT_CONFIG,
+            tasks: { ...DEFAULT_CONFIG.tasks, namePatterns: ['(', '^lint'] }
+        });
+        await runTasks(createTaskEnd('lint:src', 1), createTaskEnd('lint:src', 0));
+        assert.strictEqual(storageManager.getTaskRewardStats().tasksTurnedGreen, 1);
+    });
+
+    test('Cancelled runs do not count as failures or passes', async () => {
+        await runTasks(createTaskEnd('test', undefined, 'test'), createTaskEnd('test', 0, 'test'));
+        assert.strictEqual(storageManager.getTaskRewardStats().tasksTurnedGreen, 0);
+
+        await runTasks(createTaskEnd('test', 1, 'test'), createTaskEnd('test', undefined, 'test'));
+        await runTasks(createTaskEnd('test', 0, 'test'));
+        assert.strictEqual(storageManager.getTaskRewardStats().tasksTurnedGreen, 1);
+    });
+
+    test('Flipping a task between red and green is rewarded once per cooldown', async () => {
+        for (let i = 0; i < 3; i++) {
+            await runTasks(createTaskEnd('test', 1, 'test'), createTaskEnd('test', 0, 'test'));
+        }
+
+        assert.strictEqual(storageManager.getTaskRewardStats().tasksTurnedGreen, 1);
+    });
+
+    test('Granting plays unlocks games', async () => {
+        await gameManager.updateConfig({
+            ...DEFAULT_CONFIG,
+            tasks: { ...DEFAULT_CONFIG.tasks, progressLines: 0, plays: 2 }
+        });
+
+        await runTasks(createTaskEnd('test', 1, 'test'), createTaskEnd('test', 0, 'test'));
+
+        const state = storageManager.getGlobalPlayState();
+        assert.strictEqual(state.isUnlocked, true);
+        assert.strictEqual(state.playsRemaining, 2);
+        assert.ok(events.includes(GameEvent.UNLOCKED));
+        assert.strictEqual(storageManager.getTaskRewardStats().playsEarned, 2);
+    });
+
+    // ========================================
+    // WAITING ROOM TESTS
+    // ========================================
+
+    test('Locked games are playable for free while a build runs', async () => {
+        assert.strictEqual((await gameManager.attemptPlay('snake')).success, false);
+
+        (waitingRoom as any).enter({}, 'build');
+        const result = await gameManager.attemptPlay('snake');
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(result.free, true);
+        assert.deepStrictEqual(gameManager.getWaitingRoomActivity(), ['build']);
+        assert.ok(events.includes(GameEvent.WAITING_ROOM_OPENED));
+    });
+
+    test('Free plays do not use up plays', async () => {
+        await storageManager.resetGlobalPlayState({ isUnlocked: true, playsRemaining: 1, linesWritten: 0 });
+
+        await gameManager.endPlay('snake', 12, true);
+
+        const state = storageManager.getGlobalPlayState();
+        assert.strictEqual(state.playsRemaining, 1);
+        assert.strictEqual(state.isUnlocked, true);
+        assert.strictEqual(storageManager.getGameState('snake').highScore, 12);
+    });
+
+    test('The end of the build is announced', () => {
+        const build = {};
+        (waitingRoom as any).enter(build, 'build');
+        (waitingRoom as any).leave(build);
+
+        assert.ok(events.includes(GameEvent.WAITING_ROOM_CLOSED));
+        assert.deepStrictEqual(gameManager.getWaitingRoomActivity(), []);
+    });
+
+    // ========================================
+    // LINE TOTAL TESTS
+    // ========================================
+
+    test('Raw and weighted lines are both totalled', async () => {
+        await (gameManager as any).handleCodeWritten({ netChange: 3, rawNetChange: 2 });
+
+        assert.strictEqual(storageManager.getTotalLinesWritten(), 2);
+        assert.strictEqual(storageManager.getTotalWeightedLines(), 3);
+        assert.strictEqual(storageManager.getGlobalPlayState().linesWritten, 3);
+    });
+
+    // ========================================
+    // TIME MODE TESTS
+    // ========================================
+
+    /**
+     * Switches unlock progress to focused minutes
+     */
+    async function useTimeMode() {
+        await gameManager.updateConfig({
+            ...DEFAULT_CONFIG,
+            unlock: { ...DEFAULT_CONFIG.unlock, earningMode: 'time', minutesToUnlock: 10 }
+        });
+    }
+
+    test('Focused minutes earn progress in time mode', async () => {
+        await useTimeMode();
+
+        await (gameManager as any).handleActiveMinutes(4);
+
+        assert.strictEqual(gameManager.getRemainingLinesToUnlock(), 6);
+        assert.strictEqual(gameManager.getUnlockProgress(), 40);
+        assert.strictEqual(storageManager.getTotalActiveMinutes(), 4);
+        assert.ok(events.includes(GameEvent.ACTIVE_TIME_RECORDED));
+
+        const result = await gameManager.attemptPlay('snake');
+        assert.strictEqual(result.reason, 'Games locked. Code for 6 more minutes to unlock.');
+
+        await (gameManager as any).handleActiveMinutes(6);
+        assert.strictEqual(storageManager.getGlobalPlayState().isUnlocked, true);
+    });
+
+    test('Lines written do not earn progress in time mode', async () => {
+        await useTimeMode();
+
+        await (gameManager as any).handleCodeWritten({ netChange: 8 });
+
+        assert.strictEqual(storageManager.getGlobalPlayState().linesWritten, 0);
+        assert.strictEqual(storageManager.getTotalLinesWritten(), 8);
+    });
+
+    test('Focused minutes are only totalled in lines mode', async () => {
+        await (gameManager as any).handleActiveMinutes(3);
+
+        assert.strictEqual(storageManager.getGlobalPlayState().linesWritten, 0);
+        assert.strictEqual(storageManager.getTotalActiveMinutes(), 3);
+        assert.ok(!events.includes(GameEvent.ACTIVE_TIME_RECORDED));
+    });
+
+    // ========================================
+    // BANKING TESTS
+    // ========================================
+
+    /**
+     * Unlocks games with the given number of plays and an empty bank
+     */
+    async function unlockWith(playsRemaining: number) {
+        await storageManager.resetGlobalPlayState({ isUnlocked: true, playsRemaining, linesWritten: 0 });
+    }
+
+    test('Lines written while unlocked are banked', async () => {
+        await unlockWith(2);
+
+        await (gameManager as any).handleCodeWritten({ netChange: 12 });
+
+        assert.strictEqual(storageManager.getGlobalPlayState().linesWritten, 12);
+        assert.strictEqual(gameManager.getBankedProgress(), 12);
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 2);
+    });
+
+    test('The bank stops at its cap', async () => {
+        await gameManager.updateConfig({
+            ...DEFAULT_CONFIG,
+            unlock: { ...DEFAULT_CONFIG.unlock, bankCap: 20 }
+        });
+        await unlockWith(2);
+
+        await (gameManager as any).handleCodeWritten({ netChange: 15 });
+        await (gameManager as any).handleCodeWritten({ netChange: 15 });
+
+        assert.strictEqual(gameManager.getBankedProgress(), 20);
+    });
+
+    test('A zero cap throws lines away while unlocked', async () => {
+        await gameManager.updateConfig({
+            ...DEFAULT_CONFIG,
+            unlock: { ...DEFAULT_CONFIG.unlock, bankCap: 0 }
+        });
+        await unlockWith(1);
+
+        await (gameManager as any).handleCodeWritten({ netChange: 30 });
+        await gameManager.endPlay('snake');
+
+        assert.strictEqual(storageManager.getGlobalPlayState().linesWritten, 0);
+        assert.strictEqual(storageManager.getGlobalPlayState().isUnlocked, false);
+    });
+
+    test('Banked lines carry over when plays run out', async () => {
+        await unlockWith(1);
+        await (gameManager as any).handleCodeWritten({ netChange: 30 });
+
+        await gameManager.endPlay('snake');
+
+        const globalState = storageManager.getGlobalPlayState();
+        assert.strictEqual(globalState.isUnlocked, false);
+        assert.strictEqual(globalState.linesWritten, 30);
+        assert.strictEqual(gameManager.getRemainingLinesToUnlock(), 20);
+        assert.strictEqual(gameManager.getBankedProgress(), 0);
+    });
+
+    test('A full bank unlocks the next plays straight away', async () => {
+        await unlockWith(1);
+        await (gameManager as any).handleCodeWritten({ netChange: 50 });
+
+        await gameManager.endPlay('snake');
+
+        const globalState = storageManager.getGlobalPlayState();
+        assert.strictEqual(globalState.isUnlocked, true);
+        assert.strictEqual(globalState.playsRemaining, DEFAULT_CONFIG.unlock.playsPerUnlock);
+        assert.strictEqual(globalState.linesWritten, 0);
+        assert.ok(events.includes(GameEvent.LOCKED));
+        assert.ok(events.includes(GameEvent.UNLOCKED));
+    });
+
+    test('Lines beyond the unlock target start the bank', async () => {
+        await (gameManager as any).handleCodeWritten({ netChange: 45 });
+        await (gameManager as any).handleCodeWritten({ netChange: 12 });
+
+        const globalState = storageManager.getGlobalPlayState();
+        assert.strictEqual(globalState.isUnlocked, true);
+        assert.strictEqual(globalState.linesWritten, 7);
+    });
+
+    // ========================================
+    // LEDGER TESTS
+    // ========================================
+
+    test('Every change to the balance is recorded with its source', async () => {
+        await (gameManager as any).handleCodeWritten({ netChange: 60 });
+        await gameManager.endPlay('snake');
+
+        // The first entry is the reset made by setup
+        const entries = storageManager.getPlayLedger().entries.slice(1);
+        assert.deepStrictEqual(
+            entries.map(entry => [entry.type, entry.source, entry.plays, entry.progress]),
+            [
+                ['earn', 'code', 0, 60],
+                ['grant', 'unlock', 5, -50],
+                ['spend', 'play:snake', -1, 0]
+            ]
+        );
+    });
+
+    test('Banked progress over a lowered cap expires at lock', async () => {
+        await unlockWith(1);
+        await (gameManager as any).handleCodeWritten({ netChange: 30 });
+        await gameManager.updateConfig({
+            ...DEFAULT_CONFIG,
+            unlock: { ...DEFAULT_CONFIG.unlock, bankCap: 10 }
+        });
+
+        await gameManager.endPlay('snake');
+
+        const expired = storageManager.getPlayLedger().entries.filter(entry => entry.type === 'expire');
+        assert.deepStrictEqual(expired.map(entry => [entry.source, entry.progress]), [['bank-cap', -20]]);
+        assert.strictEqual(storageManager.getGlobalPlayState().linesWritten, 10);
+    });
+
+    // ========================================
+    // SESSION TESTS
+    // ========================================
+
+    test('A session is charged once when it starts', async () => {
+        await unlockWith(3);
+
+        const { sessionId } = await gameManager.requestPlay('snake');
+        assert.ok(sessionId);
+        assert.strictEqual(gameManager.getSession(sessionId!)?.status, 'requested');
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 3);
+
+        assert.strictEqual(await gameManager.startSession(sessionId!), true);
+        assert.strictEqual(await gameManager.startSession(sessionId!), false);
+
+        assert.strictEqual(gameManager.getSession(sessionId!)?.status, 'started');
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 2);
+        assert.ok(events.includes(GameEvent.PLAY_STARTED));
+    });
+
+    test('Game over and closing the panel only charge one play', async () => {
+        await unlockWith(3);
+        const { sessionId } = await gameManager.requestPlay('snake');
+        await gameManager.startSession(sessionId!);
+
+        await gameManager.completeRound(sessionId!, 7);
+        await gameManager.endSession(sessionId!);
+
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 2);
+        assert.strictEqual(storageManager.getGameState('snake').totalPlays, 1);
+        assert.strictEqual(storageManager.getGameState('snake').highScore, 7);
+        assert.strictEqual(gameManager.getSession(sessionId!), undefined);
+    });
+
+    test('Each new round is charged by default', async () => {
+        await unlockWith(3);
+        const { sessionId } = await gameManager.requestPlay('snake');
+        await gameManager.startSession(sessionId!);
+
+        // The game reports the round the panel opened with
+        const first = await gameManager.startRound('snake', sessionId!);
+        assert.strictEqual(first.sessionId, sessionId);
+
+        await gameManager.completeRound(sessionId!, 4);
+        const replay = await gameManager.startRound('snake', sessionId!);
+
+        assert.strictEqual(replay.success, true);
+        assert.notStrictEqual(replay.sessionId, sessionId);
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 1);
+    });
+
+    test('Rounds are free after the first when plays are charged per panel', async () => {
+        await gameManager.updateConfig({
+            ...DEFAULT_CONFIG,
+            unlock: { ...DEFAULT_CONFIG.unlock, chargePer: 'panel' }
+        });
+        await unlockWith(3);
+        const { sessionId } = await gameManager.requestPlay('snake');
+        await gameManager.startSession(sessionId!);
+
+        await gameManager.completeRound(sessionId!, 4);
+        const replay = await gameManager.startRound('snake', sessionId!);
+        await gameManager.completeRound(replay.sessionId!, 9);
+        await gameManager.endSession(sessionId!);
+
+        assert.strictEqual(replay.sessionId, sessionId);
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 2);
+        assert.strictEqual(storageManager.getGameState('snake').totalPlays, 1);
+        assert.strictEqual(storageManager.getGameState('snake').highScore, 9);
+    });
+
+    test('A round is refused when no plays are left', async () => {
+        await unlockWith(1);
+        const { sessionId } = await gameManager.requestPlay('snake');
+        await gameManager.startSession(sessionId!);
+        await gameManager.completeRound(sessionId!, 3);
+
+        const replay = await gameManager.startRound('snake', sessionId!);
+
+        assert.strictEqual(replay.success, false);
+        assert.strictEqual(replay.sessionId, undefined);
+    });
+
+    test('Closing a game before it starts is abandoned without charge', async () => {
+        await unlockWith(2);
+        const ended: any[] = [];
+        gameManager.onGameEvent(({ event, data }) => {
+            if (event === GameEvent.PLAY_ENDED) {
+                ended.push(data);
+            }
+        });
+
+        const { sessionId } = await gameManager.requestPlay('snake');
+        await gameManager.endSession(sessionId!);
+
+        assert.strictEqual(ended.length, 1);
+        assert.strictEqual(ended[0].status, 'abandoned');
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 2);
+        assert.strictEqual(storageManager.getGameState('snake').totalPlays, 0);
+    });
+
+    test('A panel closed before its first round costs nothing by default', async () => {
+        await unlockWith(2);
+        const { sessionId } = await gameManager.requestPlay('snake');
+        await gameManager.openPanel(sessionId!);
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 2);
+
+        await gameManager.endSession(sessionId!);
+
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 2);
+        assert.strictEqual(storageManager.getPlayHistory('snake')[0].cost, 0);
+
+        // The first round is what pays for the play
+        const played = await gameManager.requestPlay('snake');
+        await gameManager.openPanel(played.sessionId!);
+        await gameManager.startRound('snake', played.sessionId!);
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 1);
+    });
+
+    test('Opening a panel is charged when plays are charged per panel', async () => {
+        await gameManager.updateConfig({
+            ...DEFAULT_CONFIG,
+            unlock: { ...DEFAULT_CONFIG.unlock, chargePer: 'panel' }
+        });
+        await unlockWith(2);
+        const { sessionId } = await gameManager.requestPlay('snake');
+
+        await gameManager.openPanel(sessionId!);
+
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 1);
+    });
+
+    // ========================================
+    // HISTORY TESTS
+    // ========================================
+
+    /**
+     * Builds an ended session for the play history
+     */
+    function historyEntry(id: string, gameId: string, endedAt: number): PlayHistoryEntry {
+        return { id, gameId, startedAt: endedAt - 1000, endedAt, duration: 1000, rounds: 1, free: false, cost: 1, status: 'finished' };
+    }
+
+    test('Ended sessions are kept in the play history', async () => {
+        await unlockWith(3);
+        const { sessionId } = await gameManager.requestPlay('snake');
+        await gameManager.startSession(sessionId!);
+        await gameManager.startRound('snake', sessionId!, 'hard');
+        await gameManager.completeRound(sessionId!, 11);
+
+        const abandoned = await gameManager.requestPlay('snake');
+        await gameManager.endSession(abandoned.sessionId!);
+
+        const [latest, played] = storageManager.getPlayHistory('snake');
+        assert.strictEqual(latest.status, 'abandoned');
+        assert.strictEqual(latest.duration, 0);
+        assert.strictEqual(played.id, sessionId);
+        assert.strictEqual(played.status, 'finished');
+        assert.strictEqual(played.score, 11);
+        assert.strictEqual(played.mode, 'hard');
+        assert.strictEqual(played.rounds, 1);
+        assert.ok(played.duration >= 0 && played.endedAt >= played.startedAt);
+    });
+
+    test('Play history can be queried by game and date range', async () => {
+        await storageManager.addPlayHistory(historyEntry('a', 'snake', Date.UTC(2026, 0, 1)));
+        await storageManager.addPlayHistory(historyEntry('b', 'whack-a-bug', Date.UTC(2026, 0, 2)));
+        await storageManager.addPlayHistory(historyEntry('c', 'snake', Date.UTC(2026, 0, 3)));
+
+        assert.deepStrictEqual(storageManager.getPlayHistory('snake').map(entry => entry.id), ['c', 'a']);
+        assert.deepStrictEqual(storageManager.getPlayHistory(undefined, 2).map(entry => entry.id), ['c', 'b']);
+        assert.deepStrictEqual(
+            storageManager.getPlayHistoryBetween(new Date(Date.UTC(2026, 0, 1)), new Date(Date.UTC(2026, 0, 2))).map(entry => entry.id),
+            ['b', 'a']
+        );
+        assert.strictEqual(storageManager.getTotalPlaytime('snake'), 2000);
+    });
+
+    test('Play history keeps only recent sessions', async () => {
+        await gameManager.updateConfig({ ...DEFAULT_CONFIG, history: { maxSessions: 2, maxAgeDays: 30 } });
+        const day = 24 * 60 * 60 * 1000;
+
+        await storageManager.addPlayHistory(historyEntry('old', 'snake', 0));
+        await storageManager.addPlayHistory(historyEntry('a', 'snake', 40 * day));
+        await storageManager.addPlayHistory(historyEntry('b', 'snake', 41 * day));
+        await storageManager.addPlayHistory(historyEntry('c', 'snake', 42 * day));
+
+        assert.deepStrictEqual(storageManager.getPlayHistory().map(entry => entry.id), ['c', 'b']);
+    });
+
+    // ========================================
+    // PLAY COST TESTS
+    // ========================================
+
+    /**
+     * Registers a game that costs more in hard mode
+     */
+    function registerPricedGame() {
+        gameManager.registerGame({ id: 'whack', name: 'Whack', playCost: 1, modeCosts: { hard: 3 } } as any);
+    }
+
+    test('Games cost their play cost, modes can cost more', () => {
+        registerPricedGame();
+
+        assert.strictEqual(gameManager.getPlayCost('snake'), 1);
+        assert.strictEqual(gameManager.getPlayCost('whack'), 1);
+        assert.strictEqual(gameManager.getPlayCost('whack', 'easy'), 1);
+        assert.strictEqual(gameManager.getPlayCost('whack', 'hard'), 3);
+    });
+
+    test('A play needs enough plays to pay for it', async () => {
+        registerPricedGame();
+        await unlockWith(2);
+
+        const result = await gameManager.attemptPlay('whack', 'hard');
+
+        assert.strictEqual(result.success, false);
+        assert.strictEqual(result.reason, 'Whack costs 3 plays and you have 2 plays left.');
+        assert.strictEqual((await gameManager.attemptPlay('whack')).success, true);
+    });
+
+    test('Starting a pricier mode charges the difference', async () => {
+        registerPricedGame();
+        await unlockWith(5);
+        const { sessionId } = await gameManager.requestPlay('whack');
+        await gameManager.startSession(sessionId!);
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 4);
+
+        await gameManager.startRound('whack', sessionId!, 'hard');
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 2);
+        assert.strictEqual(gameManager.getSession(sessionId!)?.cost, 3);
+
+        // Switching back before finishing a round gives the difference back
+        await gameManager.startRound('whack', sessionId!, 'easy');
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 4);
+        assert.ok(storageManager.getPlayLedger().entries.some(entry => entry.type === 'refund' && entry.plays === 2));
+    });
+
+    test('Spending the last plays on a pricier game locks games', async () => {
+        registerPricedGame();
+        await unlockWith(3);
+
+        const { sessionId } = await gameManager.requestPlay('whack', 'hard');
+        await gameManager.startSession(sessionId!);
+
+        const state = storageManager.getGlobalPlayState();
+        assert.strictEqual(state.playsRemaining, 0);
+        assert.strictEqual(state.isUnlocked, false);
+        assert.ok(events.includes(GameEvent.LOCKED));
+    });
+
+    test('The first round is priced for the mode the player picks', async () => {
+        registerPricedGame();
+        await unlockWith(2);
+        const { sessionId } = await gameManager.requestPlay('whack');
+        await gameManager.openPanel(sessionId!);
+
+        const denied = await gameManager.startRound('whack', sessionId!, 'hard');
+
+        assert.strictEqual(denied.success, false);
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 2);
+    });
+
+    test('A pricier mode refused after paying for the panel is refunded', async () => {
+        await gameManager.updateConfig({
+            ...DEFAULT_CONFIG,
+            unlock: { ...DEFAULT_CONFIG.unlock, chargePer: 'panel' }
+        });
+        registerPricedGame();
+        await unlockWith(1);
+        const { sessionId } = await gameManager.requestPlay('whack');
+        await gameManager.openPanel(sessionId!);
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 0);
+
+        const denied = await gameManager.startRound('whack', sessionId!, 'hard');
+
+        assert.strictEqual(denied.success, false);
+        assert.deepStrictEqual(storageManager.getGlobalPlayState(), { isUnlocked: true, playsRemaining: 1, linesWritten: 0 });
+
+        // Picking an affordable mode pays for the panel again
+        await gameManager.startRound('whack', sessionId!, 'easy');
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 0);
+    });
+
+    test('Whole plays are charged for the mode played', async () => {
+        registerPricedGame();
+        await unlockWith(5);
+
+        await gameManager.endPlay('whack', 8, false, 'hard');
+
+        assert.strictEqual(storageManager.getGlobalPlayState().playsRemaining, 2);
+        assert.strictEqual(storageManager.getPlayHistory('whack')[0].mode, 'hard');
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * GitCreditSource.test.ts
+ *
+ * Unit tests for git-based crediting
+ * Tests diff parsing, comment filtering and de-duplication of amended commits
+ */
+
+import * as assert from 'assert';
+import { creditFile, parseCommitDiff } from '../core/GitCreditSource';
+
+const DIFF = [
+    'diff --git a/src/app.ts b/src/app.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/app.ts',
+    '+++ b/src/app.ts',
+    '@@ -2 +2,2 @@ function main() {',
+    '-    return 1;',
+    '+    // compute the answer',
+    '+    return 42;',
+    '@@ -10,0 +12 @@',
+    '+export default main;',
+    'diff --git a/old.ts b/old.ts',
+    'deleted file mode 100644',
+    'index 3333333..0000000',
+    '--- a/old.ts',
+    '+++ /dev/null',
+    '@@ -1,2 +0,0 @@',
+    '-const a = 1;',
+    '-const b = 2;'
+].join('\n');
+
+suite('GitCreditSource Test Suite', () => {
+    test('Diff parsing collects added line numbers per file', () => {
+        const files = parseCommitDiff(DIFF);
+
+        assert.strictEqual(files.length, 1);
+        assert.strictEqual(files[0].path, 'src/app.ts');
+        assert.deepStrictEqual(files[0].addedLines, [2, 3, 12]);
+        assert.strictEqual(files[0].deletedCount, 1);
+    });
+
+    test('Diff parsing reads paths with spaces and quoted paths', () => {
+        const diff = [
+            'diff --git a/my file.ts b/my file.ts',
+            'new file mode 100644',
+            '--- /dev/null',
+            '+++ b/my file.ts\t',
+            '@@ -0,0 +1 @@',
+            '+const x = 1;',
+            'diff --git "a/say \\"hi\\".ts" "b/say \\"hi\\".ts"',
+            'new file mode 100644',
+            '--- /dev/null',
+            '+++ "b/say \\"hi\\"\\303\\251.ts"',
+            '@@ -0,0 +1 @@',
+            '+const y = 2;'
+        ].join('\n');
+
+        const files = parseCommitDiff(diff);
+
+        assert.deepStrictEqual(files.map(file => file.path), ['my file.ts', 'say "hi"é.ts']);
+        assert.deepStrictEqual(files[0].addedLines, [1]);
+    });
+
+    test('Only meaningful added lines are credited', () => {
+        const file = { path: 'src/app.ts', addedLines: [1, 2, 3, 4], deletedCount: 0 };
+        const content = [
+            '/**',
+            ' * Adds numbers',
+            ' */',
+            'export const add = (a: number, b: number) => a + b;'
+        ];
+
+        const change = creditFile(file, content, new Set());
+
+        assert.strictEqual(change.languageId, 'typescript');
+        assert.strictEqual(change.meaningfulLinesAdded, 1);
+        assert.strictEqual(change.netChange, 1);
+    });
+
+    test('Amended commits are not credited twice', () => {
+        const fingerprints = new Set<string>();
+        const original = ['const a = 1;', 'const b = 2;'];
+        const amended = ['const a = 1;', 'const b = 2;', 'const c = 3;'];
+
+        const first = creditFile({ path: 'a.ts', addedLines: [1, 2], deletedCount: 0 }, original, fingerprints);
+        const second = creditFile({ path: 'a.ts', addedLines: [1, 2, 3], deletedCount: 0 }, amended, fingerprints);
+
+        assert.strictEqual(first.netChange, 2);
+        assert.strictEqual(second.meaningfulLinesAdded, 3);
+        assert.strictEqual(second.netChange, 1);
+    });
+
+    test('Repeated identical lines are credited separately', () => {
+        const fingerprints = new Set<string>();
+        const content = ['x++;', 'x++;'];
+
+        creditFile({ path: 'a.ts', addedLines: [1], deletedCount: 0 }, content.slice(0, 1), fingerprints);
+        const change = creditFile({ path: 'a.ts', addedLines: [2], deletedCount: 0 }, content, fingerprints);
+
+        assert.strictEqual(change.netChange, 1);
+    });
+});
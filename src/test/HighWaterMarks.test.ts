@@ -0,0 +1,65 @@
+/**
+ * HighWaterMarks.test.ts
+ *
+ * Unit tests for HighWaterMarks
+ * Tests paying for lines once, memory accounting and dropping marks over budget
+ */
+
+import * as assert from 'assert';
+import { HighWaterMarks } from '../core/HighWaterMarks';
+import { createSnapshot } from '../core/SnapshotStore';
+
+/**
+ * Builds a snapshot with the given number of distinct lines
+ */
+function createLines(lines: number, offset = 0) {
+    const text = Array.from({ length: lines }, (_, i) => `const value${i + offset} = ${i};`).join('\n');
+    return createSnapshot(text, 'typescript');
+}
+
+suite('HighWaterMarks Test Suite', () => {
+    test('Lines are only fresh the first time a document holds them', () => {
+        const marks = new HighWaterMarks(1024 * 1024);
+
+        marks.advance('a', createLines(2), true);
+
+        assert.strictEqual(marks.advance('a', createLines(3)), 1);
+        assert.strictEqual(marks.advance('a', createLines(2)), 0);
+        assert.strictEqual(marks.advance('a', createLines(3)), 0);
+    });
+
+    test('Memory use is tracked as marks are added and removed', () => {
+        const marks = new HighWaterMarks(1024 * 1024);
+
+        marks.advance('a', createLines(100), true);
+        marks.advance('b', createLines(10), true);
+        const withBoth = marks.getStats();
+
+        marks.delete('a');
+        const withOne = marks.getStats();
+
+        assert.strictEqual(withBoth.documents, 2);
+        assert.ok(withOne.bytes < withBoth.bytes);
+        assert.strictEqual(withOne.documents, 1);
+        assert.ok(!marks.has('a'));
+
+        marks.clear();
+        assert.strictEqual(marks.getStats().bytes, 0);
+    });
+
+    test('Least recently used marks are dropped over budget', () => {
+        const marks = new HighWaterMarks(5000);
+
+        marks.advance('a', createLines(200), true);
+        marks.advance('b', createLines(200), true);
+        marks.advance('a', createLines(200, 1));
+        marks.advance('c', createLines(200), true);
+
+        const stats = marks.getStats();
+        assert.ok(marks.has('a'));
+        assert.ok(!marks.has('b'));
+        assert.ok(marks.has('c'));
+        assert.ok(stats.evictions >= 1);
+        assert.ok(stats.bytes <= stats.budgetBytes);
+    });
+});
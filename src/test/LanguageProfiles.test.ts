@@ -0,0 +1,80 @@
+/**
+ * LanguageProfiles.test.ts
+ *
+ * Unit tests for the language profile registry
+ * Tests extension coverage, fallbacks and user overrides
+ */
+
+import * as assert from 'assert';
+import { LanguageProfileRegistry } from '../core/LanguageProfiles';
+import { CommentLexer } from '../core/CommentLexer';
+import { TRACKEDEXTENSION } from '../constants/TrackedExtensions';
+
+suite('LanguageProfiles Test Suite', () => {
+    test('Every tracked extension has a built-in profile', () => {
+        const registry = new LanguageProfileRegistry();
+        const missing = TRACKEDEXTENSION.filter(ext => !registry.getProfileForPath(`file${ext}`));
+
+        assert.deepStrictEqual(missing, []);
+    });
+
+    test('Aliases resolve to the same profile', () => {
+        const registry = new LanguageProfileRegistry();
+
+        assert.strictEqual(registry.getProfile('bash'), registry.getProfile('shellscript'));
+        assert.strictEqual(registry.getProfile('fortran')?.id, 'FortranFreeForm');
+    });
+
+    test('Plain text documents fall back to their file extension', () => {
+        const registry = new LanguageProfileRegistry();
+
+        assert.strictEqual(registry.resolve('plaintext', '/src/main.nim')?.id, 'nim');
+        assert.strictEqual(registry.resolve('plaintext', '/notes.txt')?.id, 'plaintext');
+        assert.strictEqual(registry.resolve('typescript', '/src/main.nim')?.id, 'typescript');
+        assert.strictEqual(registry.resolve('unknown', '/a.module.scss')?.id, 'scss');
+    });
+
+    test('Settings override only the fields they set', () => {
+        const registry = new LanguageProfileRegistry([
+            { id: 'python', lineComments: ['#', '//'] }
+        ]);
+        const python = registry.getProfile('python')!;
+
+        assert.deepStrictEqual(python.lineComments, ['#', '//']);
+        assert.deepStrictEqual(python.docStrings, ['"""', "'''"]);
+        assert.ok(python.extensions.includes('.py'));
+    });
+
+    test('Settings can add new languages', () => {
+        const registry = new LanguageProfileRegistry([
+            {
+                id: 'mylang',
+                extensions: ['.my'],
+                lineComments: ['!!'],
+                trivialLinePatterns: ['^end$']
+            }
+        ]);
+        const lexer = new CommentLexer(registry.resolve('plaintext', 'main.my'));
+
+        assert.deepStrictEqual(
+            lexer.scanLines(['!! comment', 'print 1 !! trailing', 'end']),
+            [false, true, false]
+        );
+    });
+
+    test('Invalid trivial line patterns are skipped', () => {
+        const registry = new LanguageProfileRegistry([
+            { id: 'mylang', trivialLinePatterns: ['(', '^skip$'] }
+        ]);
+
+        assert.strictEqual(registry.getProfile('mylang')?.trivialLinePatterns?.length, 1);
+    });
+
+    test('Reconfiguring drops earlier settings', () => {
+        const registry = new LanguageProfileRegistry([{ id: 'mylang', extensions: ['.my'] }]);
+        registry.configure([]);
+
+        assert.strictEqual(registry.getProfile('mylang'), undefined);
+        assert.strictEqual(registry.getProfileForPath('main.my'), undefined);
+    });
+});
@@ -0,0 +1,89 @@
+/**
+ * PlayLedger.test.ts
+ *
+ * Unit tests for PlayLedger
+ * Tests replaying transactions into the play state and folding old entries
+ */
+
+import * as assert from 'assert';
+import {
+    appendTransaction,
+    openLedger,
+    projectLedger,
+    replayLedger,
+    transactionBetween
+} from '../core/PlayLedger';
+import { GlobalPlayState, PlayLedgerState } from '../core/types';
+
+const LOCKED: GlobalPlayState = { isUnlocked: false, playsRemaining: 0, linesWritten: 0 };
+
+suite('PlayLedger Test Suite', () => {
+    test('The play state is the opening balance with every entry applied', () => {
+        let ledger = openLedger(LOCKED);
+        ledger = appendTransaction(ledger, { type: 'earn', source: 'code', plays: 0, progress: 30 }, 1);
+        ledger = appendTransaction(ledger, { type: 'grant', source: 'unlock', plays: 5, progress: -30, unlocked: true }, 2);
+        ledger = appendTransaction(ledger, { type: 'spend', source: 'play:snake', plays: -1, progress: 0 }, 3);
+
+        assert.deepStrictEqual(projectLedger(ledger), { isUnlocked: true, playsRemaining: 4, linesWritten: 0 });
+        assert.deepStrictEqual(ledger.entries.map(entry => entry.id), [1, 2, 3]);
+        assert.deepStrictEqual(replayLedger(ledger).map(state => state.playsRemaining), [0, 5, 4]);
+    });
+
+    test('Appending leaves the original ledger untouched', () => {
+        const ledger = openLedger(LOCKED);
+        appendTransaction(ledger, { type: 'earn', source: 'code', plays: 0, progress: 3 });
+
+        assert.strictEqual(ledger.entries.length, 0);
+        assert.deepStrictEqual(projectLedger(ledger), LOCKED);
+    });
+
+    test('Fractional progress does not drift', () => {
+        let ledger = openLedger(LOCKED);
+        for (let i = 0; i < 10; i++) {
+            ledger = appendTransaction(ledger, { type: 'earn', source: 'code', plays: 0, progress: 0.1 });
+        }
+
+        assert.strictEqual(projectLedger(ledger).linesWritten, 1);
+    });
+
+    test('Old entries are folded into the opening balance', () => {
+        let ledger: PlayLedgerState = openLedger(LOCKED);
+        for (let i = 0; i < 1005; i++) {
+            ledger = appendTransaction(ledger, { type: 'earn', source: i % 2 ? 'code' : 'task:test', plays: 0, progress: 1 });
+        }
+
+        assert.strictEqual(ledger.entries.length, 1000);
+        assert.strictEqual(ledger.entries[0].id, 6);
+        assert.strictEqual(ledger.opening.linesWritten, 5);
+        assert.strictEqual(projectLedger(ledger).linesWritten, 1005);
+    });
+
+    test('Earnings in a row are merged until the balance changes otherwise', () => {
+        let ledger = openLedger(LOCKED);
+        for (let i = 0; i < 30; i++) {
+            ledger = appendTransaction(ledger, { type: 'earn', source: 'code', plays: 0, progress: 1 }, i);
+        }
+        ledger = appendTransaction(ledger, { type: 'grant', source: 'unlock', plays: 5, progress: -30, unlocked: true }, 30);
+        ledger = appendTransaction(ledger, { type: 'earn', source: 'code', plays: 0, progress: 2 }, 31);
+        ledger = appendTransaction(ledger, { type: 'earn', source: 'task:test', plays: 0, progress: 5 }, 32);
+
+        assert.deepStrictEqual(ledger.entries.map(entry => [entry.id, entry.progress, entry.count]), [
+            [1, 30, 30],
+            [2, -30, undefined],
+            [3, 2, undefined],
+            [4, 5, undefined]
+        ]);
+        assert.strictEqual(ledger.entries[0].timestamp, 29);
+        assert.deepStrictEqual(projectLedger(ledger), { isUnlocked: true, playsRemaining: 5, linesWritten: 7 });
+    });
+
+    test('A transaction can take one balance to another', () => {
+        const from: GlobalPlayState = { isUnlocked: true, playsRemaining: 2, linesWritten: 12 };
+        const to: GlobalPlayState = { isUnlocked: false, playsRemaining: 0, linesWritten: 0 };
+
+        const ledger = appendTransaction(openLedger(from), transactionBetween(from, to, 'reset', 'admin'));
+
+        assert.deepStrictEqual(projectLedger(ledger), to);
+        assert.strictEqual(ledger.entries[0].type, 'reset');
+    });
+});
@@ -0,0 +1,192 @@
+/**
+ * ProblemTracker.test.ts
+ *
+ * Unit tests for ProblemTracker
+ * Tests crediting fixed problems and the guards against farming them
+ */
+
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ProblemTracker } from '../core/ProblemTracker';
+import { DEFAULT_CONFIG, ExtensionConfig, ProblemCredit, ProblemCreditState } from '../core/types';
+
+/**
+ * Minimal storage manager keeping problem credit state in memory
+ */
+class MockStorageManager {
+    config: ExtensionConfig = {
+        ...DEFAULT_CONFIG,
+        problems: { ...DEFAULT_CONFIG.problems, enabled: true }
+    };
+    state: ProblemCreditState | undefined;
+
+    getConfig() {
+        return this.config;
+    }
+
+    getProblemCreditState() {
+        return this.state;
+    }
+
+    async saveProblemCreditState(state: ProblemCreditState) {
+        this.state = JSON.parse(JSON.stringify(state));
+    }
+}
+
+suite('ProblemTracker Test Suite', () => {
+    const uri = vscode.Uri.file('/src/app.ts');
+
+    let storage: MockStorageManager;
+    let trackers: ProblemTracker[];
+    let diagnostics: any[];
+    let edited: boolean;
+
+    setup(() => {
+        storage = new MockStorageManager();
+        trackers = [];
+        diagnostics = [];
+        edited = true;
+    });
+
+    teardown(() => {
+        trackers.forEach(tracker => tracker.dispose());
+    });
+
+    /**
+     * Creates a tracker reading the test's diagnostics and recording its credits
+     * Unless it tracks edits itself, every change counts as coming from an edit
+     */
+    function createTracker(credits: ProblemCredit[] = [], trackEdits = false) {
+        const tracker = new ProblemTracker(storage as any);
+        (tracker as any).readDiagnostics = () => diagnostics;
+        if (trackEdits) {
+            (tracker as any).isOpen = () => true;
+        } else {
+            (tracker as any).isFixFromEdit = () => edited;
+        }
+        tracker.onCredit(credit => credits.push(credit));
+        trackers.push(tracker);
+        return tracker;
+    }
+
+    /**
+     * Sets the file's problems and notifies the tracker
+     */
+    function publish(tracker: ProblemTracker, errors: number, warnings = 0) {
+        diagnostics = [
+            ...Array.from({ length: errors }, () => ({ severity: vscode.DiagnosticSeverity.Error })),
+            ...Array.from({ length: warnings }, () => ({ severity: vscode.DiagnosticSeverity.Warning }))
+        ];
+        (tracker as any).handleDiagnosticsChange({ uris: [uri] });
+    }
+
+    test('The first problems seen in a file are its baseline', () => {
+        const credits: ProblemCredit[] = [];
+        const tracker = createTracker(credits);
+
+        publish(tracker, 3, 2);
+
+        assert.strictEqual(credits.length, 0);
+        assert.deepStrictEqual(storage.state?.lowWaterMarks[uri.toString()], {
+            error: 3, warning: 2, information: 0, hint: 0
+        });
+    });
+
+    test('Fixing problems earns progress at each severity rate', () => {
+        const credits: ProblemCredit[] = [];
+        const tracker = createTracker(credits);
+
+        publish(tracker, 3, 2);
+        publish(tracker, 2, 1);
+
+        assert.strictEqual(credits.length, 1);
+        assert.deepStrictEqual(credits[0].fixed, { error: 1, warning: 1 });
+        assert.strictEqual(
+            credits[0].lines,
+            DEFAULT_CONFIG.problems.rates.error + DEFAULT_CONFIG.problems.rates.warning
+        );
+    });
+
+    test('Adding a problem and fixing it again is not credited', () => {
+        const credits: ProblemCredit[] = [];
+        const tracker = createTracker(credits);
+
+        publish(tracker, 2);
+        for (let i = 0; i < 3; i++) {
+            publish(tracker, 3);
+            publish(tracker, 2);
+        }
+
+        assert.strictEqual(credits.length, 0);
+    });
+
+    test('Problems vanishing without an edit are not credited', () => {
+        const credits: ProblemCredit[] = [];
+        const tracker = createTracker(credits);
+
+        publish(tracker, 2);
+
+        // A closed file or restarting language server clears its problems
+        edited = false;
+        publish(tracker, 0);
+        assert.strictEqual(credits.length, 0);
+
+        // Once they come back, fixing them still pays
+        publish(tracker, 2);
+        edited = true;
+        publish(tracker, 1);
+        assert.strictEqual(credits.length, 1);
+    });
+
+    test('Only fixes in the edited file are credited', () => {
+        const credits: ProblemCredit[] = [];
+        const tracker = createTracker(credits, true);
+
+        publish(tracker, 2);
+        (tracker as any).recordEdit('file:///src/other.ts');
+        publish(tracker, 1);
+        assert.strictEqual(credits.length, 0);
+
+        (tracker as any).recordEdit(uri.toString());
+        publish(tracker, 0);
+        assert.strictEqual(credits.length, 1);
+    });
+
+    test('Problems in a file first seen after editing it are not credited', () => {
+        const credits: ProblemCredit[] = [];
+        const tracker = createTracker(credits, true);
+
+        // A new file is typed with errors before any diagnostics arrive
+        (tracker as any).recordEdit(uri.toString());
+        publish(tracker, 3);
+        (tracker as any).recordEdit(uri.toString());
+        publish(tracker, 0);
+
+        assert.strictEqual(credits.length, 0);
+    });
+
+    test('Low-water marks carry over to the next session', () => {
+        const credits: ProblemCredit[] = [];
+        const first = createTracker();
+        publish(first, 1);
+
+        // Problems added while the extension was not running are not paid for
+        const second = createTracker(credits);
+        publish(second, 4);
+        publish(second, 1);
+
+        assert.strictEqual(credits.length, 0);
+    });
+
+    test('Nothing is credited when problem crediting is disabled, as it is by default', () => {
+        storage.config = DEFAULT_CONFIG;
+        const credits: ProblemCredit[] = [];
+        const tracker = createTracker(credits);
+
+        publish(tracker, 2);
+        publish(tracker, 0);
+
+        assert.strictEqual(credits.length, 0);
+        assert.strictEqual(storage.state, undefined);
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * ProseTracker.test.ts
+ *
+ * Unit tests for ProseTracker
+ * Tests counting prose in documentation files and crediting new writing
+ */
+
+import * as assert from 'assert';
+import { countProse, ProseTracker } from '../core/ProseTracker';
+import { DEFAULT_CONFIG } from '../core/types';
+
+suite('ProseTracker Test Suite', () => {
+    const key = 'file:///docs/guide.md';
+
+    let tracker: ProseTracker;
+
+    setup(() => {
+        tracker = new ProseTracker({ ...DEFAULT_CONFIG.prose, enabled: true });
+    });
+
+    // ========================================
+    // COUNTING TESTS
+    // ========================================
+
+    test('Words and sentences are counted in paragraphs, headings and lists', () => {
+        const count = countProse([
+            '# Getting started',
+            '',
+            'Install the extension. Then open a folder!',
+            'It tracks what you write.',
+            '',
+            '- Write code',
+            '- Play games'
+        ].join('\n'));
+
+        assert.strictEqual(count.words, 18);
+        assert.strictEqual(count.sentences, 6);
+        assert.strictEqual(count.codeLines, 0);
+    });
+
+    test('Front matter and tables of contents are ignored', () => {
+        const count = countProse([
+            '---',
+            'title: Guide to everything',
+            'tags: [docs, guide]',
+            '---',
+            '<!-- toc -->',
+            '- [Intro](#intro)',
+            '- [Usage](#usage)',
+            '<!-- tocstop -->',
+            '- [Setup](#setup)',
+            '[[_TOC_]]',
+            'Read the [manual](https://example.com/manual/page).'
+        ].join('\n'));
+
+        assert.strictEqual(count.words, 3);
+        assert.strictEqual(count.sentences, 1);
+    });
+
+    test('Fenced code counts as code lines, not words', () => {
+        const count = countProse([
+            'Call it like this:',
+            '```ts',
+            'const result = compute(1, 2);',
+            '',
+            'console.log(result);',
+            '```',
+            '~~~',
+            'npm install',
+            '~~~'
+        ].join('\n'));
+
+        assert.strictEqual(count.words, 4);
+        assert.strictEqual(count.codeLines, 3);
+    });
+
+    // ========================================
+    // CREDIT TESTS
+    // ========================================
+
+    test('Only prose files are handled, and only when enabled', () => {
+        assert.ok(tracker.handles('/repo/docs/GUIDE.MD'));
+        assert.ok(tracker.handles('/repo/notes.txt'));
+        assert.ok(!tracker.handles('/repo/src/app.ts'));
+
+        const disabled = new ProseTracker(DEFAULT_CONFIG.prose);
+        assert.ok(!disabled.handles('/repo/docs/guide.md'));
+    });
+
+    test('New words are credited at the configured ratio', () => {
+        tracker.seed(key, 'Existing text stays unpaid.');
+
+        const change = tracker.measure(
+            key,
+            'Existing text stays unpaid.\n\nTwenty new words follow here so that the writer earns exactly two lines of credit for this short paragraph today.',
+            'markdown'
+        );
+
+        assert.strictEqual(change.prose?.words, 20);
+        assert.strictEqual(change.netChange, 2);
+    });
+
+    test('Sentences can be counted instead of words', () => {
+        tracker.updateConfig({ ...DEFAULT_CONFIG.prose, enabled: true, unit: 'sentences', sentencesPerLine: 2 });
+        tracker.seed(key, '');
+
+        const change = tracker.measure(key, 'One. Two. Three? Four!', 'markdown');
+
+        assert.strictEqual(change.prose?.sentences, 4);
+        assert.strictEqual(change.netChange, 2);
+    });
+
+    test('Deleting and retyping prose is not credited again', () => {
+        const text = 'one two three four five six seven eight nine ten';
+        tracker.seed(key, '');
+
+        assert.strictEqual(tracker.measure(key, text, 'markdown').netChange, 1);
+        assert.strictEqual(tracker.measure(key, '', 'markdown').netChange, 0);
+        assert.strictEqual(tracker.measure(key, text, 'markdown').netChange, 0);
+    });
+});
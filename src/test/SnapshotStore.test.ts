@@ -0,0 +1,74 @@
+/**
+ * SnapshotStore.test.ts
+ *
+ * Unit tests for SnapshotStore
+ * Tests compact snapshots, LRU eviction and memory accounting
+ */
+
+import * as assert from 'assert';
+import { createSnapshot, SnapshotStore } from '../core/SnapshotStore';
+
+/**
+ * Builds document text with the given number of distinct lines
+ */
+function createText(lines: number): string {
+    return Array.from({ length: lines }, (_, i) => `const value${i} = ${i};`).join('\n');
+}
+
+suite('SnapshotStore Test Suite', () => {
+    test('Snapshots hash trimmed lines and flag meaningful ones', () => {
+        const snapshot = createSnapshot('const a = 1;\n    const a = 1;\n// note\n', 'typescript');
+
+        assert.strictEqual(snapshot.hashes.length, 4);
+        assert.strictEqual(snapshot.hashes[0], snapshot.hashes[1]);
+        assert.notStrictEqual(snapshot.hashes[0], snapshot.hashes[2]);
+        assert.deepStrictEqual(Array.from(snapshot.flags), [1, 1, 0, 0]);
+    });
+
+    test('Block comments are flagged using the whole document', () => {
+        const snapshot = createSnapshot('/*\nconst hidden = 1;\n*/\nconst shown = 2;', 'typescript');
+
+        assert.deepStrictEqual(Array.from(snapshot.flags), [0, 0, 0, 1]);
+    });
+
+    test('Memory use is tracked as snapshots are added and removed', () => {
+        const store = new SnapshotStore(1024 * 1024);
+
+        store.set('a', createText(100), 'typescript');
+        store.set('b', createText(10), 'typescript');
+        const withBoth = store.getStats();
+
+        store.delete('a');
+        const withOne = store.getStats();
+
+        assert.strictEqual(withBoth.documents, 2);
+        assert.strictEqual(withBoth.lines, 110);
+        assert.ok(withOne.bytes < withBoth.bytes);
+        assert.strictEqual(withOne.lines, 10);
+
+        store.clear();
+        assert.strictEqual(store.getStats().bytes, 0);
+    });
+
+    test('Least recently used snapshots are evicted over budget', () => {
+        const store = new SnapshotStore(2500);
+
+        store.set('a', createText(200), 'typescript');
+        store.set('b', createText(200), 'typescript');
+        store.get('a');
+        store.set('c', createText(200), 'typescript');
+
+        assert.ok(store.has('a'));
+        assert.ok(!store.has('b'));
+        assert.ok(store.has('c'));
+        assert.strictEqual(store.getStats().evictions, 1);
+    });
+
+    test('The newest snapshot is kept even when it exceeds the budget', () => {
+        const store = new SnapshotStore(100);
+
+        store.set('big', createText(1000), 'typescript');
+
+        assert.strictEqual(store.size, 1);
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * WaitingRoom.test.ts
+ *
+ * Unit tests for WaitingRoom
+ * Tests which tasks open the waiting room and when it opens and closes
+ */
+
+import * as assert from 'assert';
+import { matchesTask, WaitingRoom, WaitingRoomChange } from '../core/WaitingRoom';
+import { DEFAULT_CONFIG } from '../core/types';
+
+/**
+ * Builds a task with an optional group
+ */
+function createTask(name: string, group?: string, isBackground: boolean = false): any {
+    return { name, source: 'npm', group: group ? { id: group } : undefined, isBackground };
+}
+
+suite('WaitingRoom Test Suite', () => {
+    let room: WaitingRoom;
+    let changes: WaitingRoomChange[];
+
+    setup(() => {
+        room = new WaitingRoom({ ...DEFAULT_CONFIG.waitingRoom, enabled: true });
+        changes = [];
+        room.onDidChange(change => changes.push(change));
+    });
+
+    teardown(() => {
+        room.dispose();
+    });
+
+    test('Tasks match by group or name pattern', () => {
+        assert.ok(matchesTask(createTask('jest', 'test'), ['test'], []));
+        assert.ok(matchesTask(createTask('compile'), [], ['^comp']));
+        assert.ok(!matchesTask(createTask('watch', 'build'), ['test'], ['(']));
+    });
+
+    test('Overlapping tasks open and close the room once', () => {
+        const build = {};
+        const debug = {};
+
+        (room as any).enter(build, 'build');
+        (room as any).enter(debug, 'Launch');
+        assert.ok(room.isOpen());
+        assert.deepStrictEqual(room.getActivity(), ['build', 'Launch']);
+
+        (room as any).leave(build);
+        assert.ok(room.isOpen());
+
+        (room as any).leave(debug);
+        assert.ok(!room.isOpen());
+        assert.deepStrictEqual(changes, [
+            { open: true, label: 'build' },
+            { open: false, label: 'Launch' }
+        ]);
+    });
+
+    test('Background tasks do not open the room', () => {
+        (room as any).handleTaskStart({ task: createTask('npm: watch', 'build', true) });
+        assert.ok(!room.isOpen());
+
+        (room as any).handleTaskStart({ task: createTask('npm: compile', 'build') });
+        assert.ok(room.isOpen());
+        assert.deepStrictEqual(room.getActivity(), ['npm: compile']);
+    });
+
+    test('Untracked executions ending do not close the room', () => {
+        (room as any).enter({}, 'build');
+        (room as any).leave({});
+
+        assert.ok(room.isOpen());
+        assert.strictEqual(changes.length, 1);
+    });
+
+    test('The room stays closed while the mode is disabled', () => {
+        room.updateConfig({ ...DEFAULT_CONFIG.waitingRoom, enabled: false });
+        (room as any).enter({}, 'build');
+
+        assert.ok(!room.isOpen());
+        assert.strictEqual(changes.length, 0);
+    });
+});
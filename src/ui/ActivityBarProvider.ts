@@ -18,6 +18,9 @@ class GameTreeItem extends vscode.TreeItem {
         public readonly game: IGame,
         public readonly state: GameState,
         public readonly globalState: any,
+        public readonly cost: number,
+        public readonly freeFor: string[],
+        public readonly unlockGoal: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState
     ) {
         super(game.name, collapsibleState);
@@ -28,7 +31,7 @@ class GameTreeItem extends vscode.TreeItem {
         this.contextValue = this.getContextValue();
 
         // Make playable games clickable
-        if (globalState.isUnlocked && globalState.playsRemaining > 0) {
+        if (this.isPlayable()) {
             this.command = {
                 command: 'codeToPlay.playGame',
                 title: 'Play Game',
@@ -51,14 +54,21 @@ class GameTreeItem extends vscode.TreeItem {
             ``,
         ];
 
+        if (this.isFree()) {
+            lines.push(`🆓 Free while ${this.freeFor.join(', ')} runs`);
+        }
+
         if (this.globalState.isUnlocked) {
             lines.push(`✅ Unlocked`);
             lines.push(`🎯 Plays remaining: ${this.globalState.playsRemaining}`);
+            lines.push(`💰 Costs ${this.cost} ${this.cost === 1 ? 'play' : 'plays'}`);
+
+            for (const [mode, cost] of Object.entries(this.game.modeCosts ?? {})) {
+                lines.push(`   ${mode}: ${cost} ${cost === 1 ? 'play' : 'plays'}`);
+            }
         } else {
-            const manager = (this as any).manager;
-            const remaining = manager?.getRemainingLinesToUnlock() || 0;
             lines.push(`🔒 Locked`);
-            lines.push(`📝 Write ${remaining} more lines to unlock`);
+            lines.push(`📝 ${this.unlockGoal}`);
         }
 
         if (this.state.highScore > 0) {
@@ -79,9 +89,14 @@ class GameTreeItem extends vscode.TreeItem {
      * @private
      */
     private createDescription(): string {
+        if (this.isFree()) {
+            return '🆓 Free';
+        }
+
         if (this.globalState.isUnlocked) {
             if (this.globalState.playsRemaining > 0) {
-                return `${this.globalState.playsRemaining} plays`;
+                const cost = this.cost === 1 ? '' : ` · costs ${this.cost}`;
+                return `${this.globalState.playsRemaining} plays${cost}`;
             } else {
                 return 'No plays';
             }
@@ -97,8 +112,13 @@ class GameTreeItem extends vscode.TreeItem {
      * @private
      */
     private getIcon(): vscode.ThemeIcon | vscode.Uri | { light: vscode.Uri; dark: vscode.Uri } | undefined {
+        if (this.isFree()) {
+            return new vscode.ThemeIcon('play-circle',
+                new vscode.ThemeColor('terminal.ansiGreen'));
+        }
+
         if (this.globalState.isUnlocked) {
-            if (this.globalState.playsRemaining > 0) {
+            if (this.isPlayable()) {
                 return new vscode.ThemeIcon('play-circle',
                     new vscode.ThemeColor('terminal.ansiGreen'));
             } else {
@@ -118,14 +138,36 @@ class GameTreeItem extends vscode.TreeItem {
      * @private
      */
     private getContextValue(): string {
-        if (this.globalState.isUnlocked && this.globalState.playsRemaining > 0) {
+        if (this.isPlayable()) {
             return 'gameUnlocked';
-        } else if (this.globalState.isUnlocked && this.globalState.playsRemaining === 0) {
+        } else if (this.globalState.isUnlocked) {
             return 'gameNoPlays';
         } else {
             return 'gameLocked';
         }
     }
+
+    /**
+     * Checks whether the game can be played right now
+     * 
+     * @returns True if plays are free or games are unlocked and the game's cost can be paid
+     * @private
+     */
+    private isPlayable(): boolean {
+        return this.isFree() || (this.globalState.isUnlocked
+            && this.globalState.playsRemaining > 0
+            && this.globalState.playsRemaining >= this.cost);
+    }
+
+    /**
+     * Checks whether the waiting room makes plays free
+     * 
+     * @returns True if a build, test or debug session is running
+     * @private
+     */
+    private isFree(): boolean {
+        return this.freeFor.length > 0;
+    }
 }
 
 /**
@@ -166,7 +208,8 @@ export class ActivityBarProvider implements vscode.TreeDataProvider<GameTreeItem
      * @private
      */
     private setupEventListeners(): void {
-        // Refresh when games are unlocked/locked
+        // Refresh when games are unlocked/locked and when the waiting
+        // room opens or closes, which makes plays free or charged again
         this.gameManager.onGameEvent((event) => {
             this.refresh();
         });
@@ -244,7 +287,15 @@ export class ActivityBarProvider implements vscode.TreeDataProvider<GameTreeItem
         // Tooltip
         headerItem.tooltip = globalState.isUnlocked
             ? `✅ You have ${globalState.playsRemaining} plays available`
-            : `🔒 Write ${this.gameManager.getRemainingLinesToUnlock()} more lines to unlock`;
+            : `🔒 ${this.describeUnlockGoal()}`;
+
+        // Banked balance toward the next batch of plays
+        const bankCap = this.storageManager.getConfig().unlock.bankCap;
+        if (globalState.isUnlocked && bankCap > 0) {
+            const banked = Math.floor(this.gameManager.getBankedProgress());
+            headerItem.description = `🏦 ${banked} / ${bankCap} banked`;
+            headerItem.tooltip += `\n🏦 ${banked} of up to ${bankCap} banked toward your next plays`;
+        }
 
         // Not clickable
         headerItem.command = undefined;
@@ -307,6 +358,8 @@ export class ActivityBarProvider implements vscode.TreeDataProvider<GameTreeItem
     private getGameTreeItems(): GameTreeItem[] {
         const games = this.gameManager.getAllGames();
         const globalState = this.storageManager.getGlobalPlayState();
+        const freeFor = this.gameManager.getWaitingRoomActivity();
+        const unlockGoal = this.describeUnlockGoal();
         const items: GameTreeItem[] = [];
 
         for (const game of games) {
@@ -315,12 +368,12 @@ export class ActivityBarProvider implements vscode.TreeDataProvider<GameTreeItem
                 game,
                 state,
                 globalState,
+                this.gameManager.getPlayCost(game.id),
+                freeFor,
+                unlockGoal,
                 vscode.TreeItemCollapsibleState.None
             );
 
-            // Store manager reference for tooltip (bit of a hack)
-            (item as any).manager = this.gameManager;
-
             items.push(item);
         }
 
@@ -330,6 +383,19 @@ export class ActivityBarProvider implements vscode.TreeDataProvider<GameTreeItem
         return items;
     }
 
+    /**
+     * Describes what is left to unlock games in the current earning mode
+     * 
+     * @returns Lines left to write, or focused minutes in time mode
+     * @private
+     */
+    private describeUnlockGoal(): string {
+        const remaining = this.gameManager.getRemainingLinesToUnlock();
+        return this.storageManager.getConfig().unlock.earningMode === 'time'
+            ? `Code for ${remaining} more minutes to unlock`
+            : `Write ${remaining} more lines to unlock`;
+    }
+
     // ========================================
     // PUBLIC API
     // ========================================
@@ -0,0 +1,219 @@
+/**
+ * PlayLedgerProvider.ts
+ *
+ * Provides the "Play Ledger" tree view, listing every change to the global
+ * play balance newest first with its source, time and the balance after it.
+ */
+
+import * as vscode from 'vscode';
+import { GlobalPlayState, LedgerEntry, PlayTransactionType } from '../core/types';
+import { StorageManager } from '../core/StorageManager';
+import { replayLedger } from '../core/PlayLedger';
+
+/**
+ * Icon and verb shown for each kind of transaction
+ */
+const TRANSACTION_STYLES: Record<PlayTransactionType, { icon: string; color: string; verb: string; sign: number }> = {
+    earn: { icon: 'add', color: 'terminal.ansiGreen', verb: 'Earned', sign: 1 },
+    spend: { icon: 'play', color: 'terminal.ansiYellow', verb: 'Spent', sign: -1 },
+    grant: { icon: 'gift', color: 'terminal.ansiGreen', verb: 'Granted', sign: 1 },
+    refund: { icon: 'reply', color: 'terminal.ansiBlue', verb: 'Refunded', sign: 1 },
+    expire: { icon: 'trash', color: 'terminal.ansiRed', verb: 'Expired', sign: -1 },
+    reset: { icon: 'debug-restart', color: 'terminal.ansiMagenta', verb: 'Reset', sign: 0 }
+};
+
+/**
+ * Represents a single ledger entry in the tree view
+ */
+class LedgerTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly entry: LedgerEntry,
+        public readonly balance: GlobalPlayState,
+        private readonly unit: string
+    ) {
+        super(describeEntry(entry, unit), vscode.TreeItemCollapsibleState.None);
+
+        const style = TRANSACTION_STYLES[entry.type];
+        this.iconPath = new vscode.ThemeIcon(style.icon, new vscode.ThemeColor(style.color));
+        const count = entry.count && entry.count > 1 ? ` ×${entry.count}` : '';
+        this.description = `${entry.source}${count} · ${new Date(entry.timestamp).toLocaleString()}`;
+        this.tooltip = this.createTooltip();
+        this.contextValue = 'ledgerEntry';
+    }
+
+    /**
+     * Creates tooltip text with the full transaction and the balance after it
+     *
+     * @returns Formatted tooltip string
+     * @private
+     */
+    private createTooltip(): string {
+        const lines = [
+            `📒 #${this.entry.id} ${this.entry.type}`,
+            ``,
+            `Source: ${this.entry.source}`,
+            `Time: ${new Date(this.entry.timestamp).toLocaleString()}`,
+            ...(this.entry.count && this.entry.count > 1 ? [`Transactions: ${this.entry.count}`] : []),
+            `Plays: ${formatDelta(this.entry.plays)}`,
+            `Progress: ${formatDelta(this.entry.progress)} ${this.unit}`
+        ];
+
+        if (this.entry.unlocked !== undefined) {
+            lines.push(this.entry.unlocked ? `🔓 Unlocked games` : `🔒 Locked games`);
+        }
+
+        lines.push(
+            ``,
+            `Balance after: ${this.balance.playsRemaining} plays, ${formatAmount(this.balance.linesWritten)} ${this.unit}, ${this.balance.isUnlocked ? 'unlocked' : 'locked'}`
+        );
+
+        return lines.join('\n');
+    }
+}
+
+/**
+ * Provides tree data for the play ledger view
+ */
+export class PlayLedgerProvider implements vscode.TreeDataProvider<LedgerTreeItem> {
+    /**
+     * Event emitter for tree data changes
+     */
+    private _onDidChangeTreeData = new vscode.EventEmitter<LedgerTreeItem | undefined | null | void>();
+
+    /**
+     * Public event that fires when tree data changes
+     */
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    /**
+     * Disposables for cleanup
+     */
+    private disposables: vscode.Disposable[] = [];
+
+    /**
+     * Creates a new PlayLedgerProvider instance
+     *
+     * @param storageManager - Storage manager holding the ledger
+     */
+    constructor(private storageManager: StorageManager) {
+        this.disposables.push(
+            this.storageManager.onDidChangePlayLedger(() => this.refresh())
+        );
+    }
+
+    /**
+     * Gets tree item representation for a ledger entry
+     * Required by TreeDataProvider interface
+     *
+     * @param element - Ledger tree item
+     * @returns The tree item itself
+     */
+    getTreeItem(element: LedgerTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    /**
+     * Gets children for a tree element
+     * Required by TreeDataProvider interface
+     *
+     * @param element - Parent element (undefined for root)
+     * @returns Ledger entries, newest first
+     */
+    getChildren(element?: LedgerTreeItem): Thenable<LedgerTreeItem[]> {
+        if (element) {
+            return Promise.resolve([]);
+        }
+
+        const ledger = this.storageManager.getPlayLedger();
+        const balances = replayLedger(ledger);
+        const unit = this.storageManager.getConfig().unlock.earningMode === 'time' ? 'minutes' : 'lines';
+
+        const items = ledger.entries.map((entry, index) => new LedgerTreeItem(entry, balances[index], unit));
+        return Promise.resolve(items.reverse());
+    }
+
+    /**
+     * Refreshes the tree view
+     */
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Disposes of resources
+     */
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this._onDidChangeTreeData.dispose();
+    }
+}
+
+/**
+ * Describes a ledger entry in a few words
+ * Amounts going the way the verb says are shown plain, others with their sign
+ *
+ * @param entry - Ledger entry
+ * @param unit - Unit of unlock progress
+ * @returns Label such as "Earned 12 lines" or "Granted 5 plays, -8 lines"
+ */
+function describeEntry(entry: LedgerEntry, unit: string): string {
+    const style = TRANSACTION_STYLES[entry.type];
+    const format = (delta: number) => Math.sign(delta) === style.sign
+        ? formatAmount(Math.abs(delta))
+        : formatDelta(delta);
+    const parts: string[] = [];
+
+    if (entry.plays !== 0) {
+        parts.push(`${format(entry.plays)} ${Math.abs(entry.plays) === 1 ? 'play' : 'plays'}`);
+    }
+    if (entry.progress !== 0) {
+        parts.push(`${format(entry.progress)} ${unit}`);
+    }
+
+    return parts.length > 0 ? `${style.verb} ${parts.join(', ')}` : style.verb;
+}
+
+/**
+ * Formats an amount of progress, keeping at most one decimal
+ *
+ * @param amount - Amount to format
+ * @returns Formatted amount
+ */
+function formatAmount(amount: number): string {
+    return String(Math.round(amount * 10) / 10);
+}
+
+/**
+ * Formats a change with its sign
+ *
+ * @param delta - Change to format
+ * @returns Formatted change, e.g. "+3" or "-1"
+ */
+function formatDelta(delta: number): string {
+    return delta > 0 ? `+${formatAmount(delta)}` : formatAmount(delta);
+}
+
+/**
+ * Creates and registers the play ledger view
+ * Call this from extension.ts during activation
+ *
+ * @param context - Extension context
+ * @param storageManager - Storage manager instance
+ * @returns The tree view instance
+ */
+export function createPlayLedgerView(
+    context: vscode.ExtensionContext,
+    storageManager: StorageManager
+): vscode.TreeView<LedgerTreeItem> {
+    const provider = new PlayLedgerProvider(storageManager);
+
+    const treeView = vscode.window.createTreeView('codeToPlayLedger', {
+        treeDataProvider: provider,
+        showCollapseAll: false
+    });
+
+    context.subscriptions.push(treeView, provider);
+
+    return treeView;
+}
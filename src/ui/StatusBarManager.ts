@@ -78,6 +78,12 @@ export class StatusBarManager {
 
                 case GameEvent.CODE_WRITTEN:
                 case GameEvent.PROGRESS_UPDATED:
+                case GameEvent.CREDIT_PENDING:
+                case GameEvent.PROBLEMS_FIXED:
+                case GameEvent.TASK_SUCCEEDED:
+                case GameEvent.WAITING_ROOM_OPENED:
+                case GameEvent.WAITING_ROOM_CLOSED:
+                case GameEvent.ACTIVE_TIME_RECORDED:
                     this.update();
                     break;
             }
@@ -129,13 +135,71 @@ export class StatusBarManager {
         const globalState = this.storageManager.getGlobalPlayState();
 
         if (globalState.isUnlocked) {
-            this.showUnlockedStatus(globalState.playsRemaining);
+            this.showUnlockedStatus(globalState.playsRemaining, this.gameManager.getBankedProgress());
+        } else if (this.storageManager.getConfig().unlock.earningMode === 'time') {
+            this.showLockedTimeStatus(
+                this.gameManager.getRemainingLinesToUnlock(),
+                this.gameManager.getUnlockProgress()
+            );
         } else {
             this.showLockedStatus(
                 this.gameManager.getRemainingLinesToUnlock(),
                 this.gameManager.getUnlockProgress()
             );
         }
+
+        this.showWaitingRoom(this.gameManager.getWaitingRoomActivity());
+
+        // Held lines only matter while lines earn progress
+        if (this.storageManager.getConfig().unlock.earningMode === 'lines') {
+            this.showPendingLines(this.gameManager.getPendingLines());
+        }
+    }
+
+    /**
+     * Shows that plays are free while a build, test or debug session runs
+     * 
+     * @param activity - Names of the running tasks and debug sessions, empty if none
+     * @private
+     */
+    private showWaitingRoom(activity: string[]): void {
+        if (activity.length === 0) {
+            return;
+        }
+
+        this.statusBarItem.text = `$(watch) Code to Play: free play`;
+        this.statusBarItem.tooltip = [
+            `🎮 Code to Play`,
+            ``,
+            `⏳ Waiting for ${activity.join(', ')}`,
+            `🆓 Plays are free until it finishes`,
+            ``,
+            `Click to view all games`
+        ].join('\n');
+        this.statusBarItem.backgroundColor = undefined;
+    }
+
+    /**
+     * Adds lines held until their errors are fixed to the current status
+     * 
+     * @param pendingLines - Held line credit
+     * @private
+     */
+    private showPendingLines(pendingLines: number): void {
+        if (pendingLines <= 0) {
+            return;
+        }
+
+        const pending = Math.ceil(pendingLines);
+        const credited = Math.floor(this.storageManager.getGlobalPlayState().linesWritten);
+
+        this.statusBarItem.text += ` $(bug) ${pending} pending`;
+        this.statusBarItem.tooltip = [
+            this.statusBarItem.tooltip,
+            ``,
+            `✅ Credited: ${credited} lines`,
+            `🐞 Pending: ${pending} lines, paid out once their errors are fixed`
+        ].join('\n');
     }
 
     /**
@@ -153,13 +217,15 @@ export class StatusBarManager {
      * Shows status for unlocked games
      * 
      * @param playsRemaining - Number of plays remaining
+     * @param banked - Progress banked toward the next unlock
      * @private
      */
-    private showUnlockedStatus(playsRemaining: number): void {
+    private showUnlockedStatus(playsRemaining: number, banked: number): void {
         if (playsRemaining > 0) {
             // Games ready to play
-            this.statusBarItem.text = `$(game) Code to Play (${playsRemaining})`;
-            this.statusBarItem.tooltip = this.createUnlockedTooltip(playsRemaining);
+            const bankText = banked > 0 ? ` $(save) ${Math.floor(banked)}` : '';
+            this.statusBarItem.text = `$(game) Code to Play (${playsRemaining})${bankText}`;
+            this.statusBarItem.tooltip = this.createUnlockedTooltip(playsRemaining, banked);
             this.statusBarItem.backgroundColor = undefined; // Transparent background
         } else {
             // No plays remaining
@@ -191,6 +257,27 @@ export class StatusBarManager {
         this.statusBarItem.backgroundColor = undefined; // Transparent background
     }
 
+    /**
+     * Shows status for locked games when focused minutes earn progress
+     * 
+     * @param minutesRemaining - Focused minutes needed to unlock
+     * @param progress - Progress percentage (0-100)
+     * @private
+     */
+    private showLockedTimeStatus(
+        minutesRemaining: number,
+        progress: number
+    ): void {
+        const progressBar = this.createProgressBar(progress);
+
+        this.statusBarItem.text = `$(clock) Code to Play: ${minutesRemaining} min ${progressBar}`;
+        this.statusBarItem.tooltip = this.createLockedTimeTooltip(
+            minutesRemaining,
+            progress
+        );
+        this.statusBarItem.backgroundColor = undefined; // Transparent background
+    }
+
     // ========================================
     // TOOLTIP CREATION
     // ========================================
@@ -199,22 +286,39 @@ export class StatusBarManager {
      * Creates tooltip for unlocked games
      * 
      * @param playsRemaining - Number of plays remaining
+     * @param banked - Progress banked toward the next unlock
      * @returns Formatted tooltip
      * @private
      */
-    private createUnlockedTooltip(playsRemaining: number): string {
+    private createUnlockedTooltip(playsRemaining: number, banked: number): string {
         const config = this.storageManager.getConfig();
+        const unit = config.unlock.earningMode === 'time' ? 'minutes' : 'lines';
+        const target = config.unlock.earningMode === 'time'
+            ? config.unlock.minutesToUnlock
+            : config.unlock.linesToUnlock;
+        const stillNeeded = Math.max(0, Math.ceil(target - banked));
 
-        return [
+        const lines = [
             `🎮 Code to Play`,
             ``,
             `✅ Unlocked and ready to play!`,
             `🎯 Plays remaining: ${playsRemaining}`,
-            ``,
-            `📝 Write ${config.unlock.linesToUnlock} more lines after plays run out to unlock ${config.unlock.playsPerUnlock} new plays`,
+            ``
+        ];
+
+        if (config.unlock.bankCap > 0) {
+            lines.push(`🏦 Banked: ${Math.floor(banked)} / ${config.unlock.bankCap} ${unit} toward your next plays`);
+        }
+
+        lines.push(
+            config.unlock.earningMode === 'time'
+                ? `⏱️ Code for ${stillNeeded} more minutes to unlock ${config.unlock.playsPerUnlock} new plays after these run out`
+                : `📝 Write ${stillNeeded} more lines to unlock ${config.unlock.playsPerUnlock} new plays after these run out`,
             ``,
             `Click to view all games`
-        ].join('\n');
+        );
+
+        return lines.join('\n');
     }
 
     /**
@@ -230,7 +334,9 @@ export class StatusBarManager {
             `🎮 Code to Play`,
             ``,
             `⚠️ No plays remaining`,
-            `📝 Write ${config.unlock.linesToUnlock} lines of code to unlock ${config.unlock.playsPerUnlock} new plays`,
+            config.unlock.earningMode === 'time'
+                ? `⏱️ Code for ${config.unlock.minutesToUnlock} minutes to unlock ${config.unlock.playsPerUnlock} new plays`
+                : `📝 Write ${config.unlock.linesToUnlock} lines of code to unlock ${config.unlock.playsPerUnlock} new plays`,
             ``,
             `Click to view all games`
         ].join('\n');
@@ -266,6 +372,37 @@ export class StatusBarManager {
         ].join('\n');
     }
 
+    /**
+     * Creates tooltip for locked games when focused minutes earn progress
+     * 
+     * @param minutesRemaining - Focused minutes needed to unlock
+     * @param progress - Progress percentage
+     * @returns Formatted tooltip
+     * @private
+     */
+    private createLockedTimeTooltip(
+        minutesRemaining: number,
+        progress: number
+    ): string {
+        const config = this.storageManager.getConfig();
+        const totalMinutes = this.storageManager.getTotalActiveMinutes();
+
+        return [
+            `🎮 Code to Play`,
+            ``,
+            `🔒 Locked`,
+            `📊 Progress: ${Math.floor(progress)}%`,
+            `⏱️ Code for ${minutesRemaining} more minutes to unlock`,
+            `💤 Time stops after ${Math.round(config.activity.idleTimeout / 60000)} min without activity`,
+            ``,
+            `When unlocked, you'll get ${config.unlock.playsPerUnlock} plays`,
+            ``,
+            `📈 Total focused minutes: ${totalMinutes}`,
+            ``,
+            `Click to view all games`
+        ].join('\n');
+    }
+
     // ========================================
     // UTILITY METHODS
     // ========================================
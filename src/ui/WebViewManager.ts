@@ -8,7 +8,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { IGame } from '../core/types';
+import { GameEvent, IGame } from '../core/types';
 import { GameManager } from '../core/GameManager';
 
 /**
@@ -20,6 +20,11 @@ export class WebviewManager {
      */
     private activePanels = new Map<string, vscode.WebviewPanel>();
 
+    /**
+     * Current play session of each open panel, by game ID
+     */
+    private panelSessions = new Map<string, string>();
+
     /**
      * Extension context for accessing resources
      */
@@ -36,6 +41,17 @@ export class WebviewManager {
         private gameManager: GameManager
     ) {
         this.context = context;
+
+        // Tell free games when the build they were filling in for finishes
+        this.gameManager.onGameEvent(({ event, data }) => {
+            if (event === GameEvent.WAITING_ROOM_CLOSED) {
+                this.panelSessions.forEach((sessionId, gameId) => {
+                    if (this.gameManager.getSession(sessionId)?.free) {
+                        this.postMessage(gameId, { command: 'waitingRoomClosed', label: data.label });
+                    }
+                });
+            }
+        });
     }
 
     // ========================================
@@ -57,26 +73,27 @@ export class WebviewManager {
             return null;
         }
 
-        // Check for attempt to play
-        const playResult = await this.gameManager.attemptPlay(gameId);
-
-        if (!playResult.success) {
-            vscode.window.showWarningMessage(playResult.reason || 'Cannot play game');
-            return null;
-        }
-
-        // Reuse existing panel if available
+        // Reuse existing panel if available, it already has a play
         const existingPanel = this.activePanels.get(gameId);
         if (existingPanel) {
             existingPanel.reveal();
             return existingPanel;
         }
 
+        // Request a play session
+        const playResult = await this.gameManager.requestPlay(gameId);
+
+        if (!playResult.success || !playResult.sessionId) {
+            vscode.window.showWarningMessage(playResult.reason || 'Cannot play game');
+            return null;
+        }
+
         // Create new panel
-        const panel = this.createWebviewPanel(game);
+        const panel = this.createWebviewPanel(game, this.getPanelTitle(game, playResult.sessionId));
 
         // Store panel
         this.activePanels.set(gameId, panel);
+        this.panelSessions.set(gameId, playResult.sessionId);
 
         // Setup panel event handlers
         this.setupPanelHandlers(gameId, panel);
@@ -84,6 +101,9 @@ export class WebviewManager {
         // Load game content
         await this.loadGameContent(panel, game);
 
+        // Charged now when plays are per panel, otherwise with the first round
+        await this.gameManager.openPanel(playResult.sessionId);
+
         return panel;
     }
 
@@ -91,13 +111,14 @@ export class WebviewManager {
      * Creates a new webview panel
      * 
      * @param game - Game to create panel for
+     * @param title - Panel title
      * @returns The webview panel
      * @private
      */
-    private createWebviewPanel(game: IGame): vscode.WebviewPanel {
+    private createWebviewPanel(game: IGame, title: string): vscode.WebviewPanel {
         const panel = vscode.window.createWebviewPanel(
             `codeToPlay.${game.id}`,
-            `🎮 ${game.name}`,
+            title,
             vscode.ViewColumn.One,
             {
                 enableScripts: true,
@@ -112,6 +133,26 @@ export class WebviewManager {
         return panel;
     }
 
+    /**
+     * Gets a panel title showing what the play costs
+     * 
+     * @param game - Game being played
+     * @param sessionId - ID of the panel's play session
+     * @returns Title such as "🎮 Whack-a-Bug · 2 plays"
+     * @private
+     */
+    private getPanelTitle(game: IGame, sessionId: string): string {
+        const session = this.gameManager.getSession(sessionId);
+        if (!session) {
+            return `🎮 ${game.name}`;
+        }
+
+        const cost = session.free
+            ? 'free'
+            : `${session.cost} ${session.cost === 1 ? 'play' : 'plays'}`;
+        return `🎮 ${game.name} · ${cost}`;
+    }
+
     /**
      * Sets up event handlers for a webview panel
      * 
@@ -122,8 +163,13 @@ export class WebviewManager {
     private setupPanelHandlers(gameId: string, panel: vscode.WebviewPanel): void {
         // Handle panel disposal (when closed)
         panel.onDidDispose(() => {
+            const sessionId = this.panelSessions.get(gameId);
+            this.panelSessions.delete(gameId);
             this.activePanels.delete(gameId);
-            this.gameManager.endPlay(gameId);
+
+            if (sessionId) {
+                this.gameManager.endSession(sessionId);
+            }
         });
 
         // Handle messages from webview
@@ -180,8 +226,8 @@ export class WebviewManager {
             // Inject CSS with fonts
             const styleTag = this.createStyleTag(css, fontUris);
 
-            // Inject JavaScript
-            const scriptTag = this.createScriptTag(js);
+            // Inject JavaScript, after the host bridge games can rely on
+            const scriptTag = this.createScriptTag(this.getHostScript()) + this.createScriptTag(js);
 
             // Inject common styles
             const commonCss = this.getCommonStyles(fontUris);
@@ -292,10 +338,91 @@ export class WebviewManager {
                 h1, h2, h3, h4, h5, h6 {
                     font-family: 'Press Start 2P', cursive;
                 }
+
+                /* Shown when the build a free play was waiting on finishes */
+                .ctp-back-to-work {
+                    position: fixed;
+                    inset: 0;
+                    z-index: 1000;
+                    display: flex;
+                    flex-direction: column;
+                    align-items: center;
+                    justify-content: center;
+                    gap: 16px;
+                    text-align: center;
+                    color: #ffffff;
+                    background: rgba(0, 0, 0, 0.85);
+                }
+
+                .ctp-back-to-work button {
+                    padding: 8px 16px;
+                    font-family: 'Orbitron', sans-serif;
+                    cursor: pointer;
+                }
             </style>
         `;
     }
 
+    /**
+     * Gets the script that connects games to the extension host
+     * Exposes the VS Code API as window.codeToPlayHost and, when a free play's
+     * build finishes or a new round is refused a play, pauses the game through
+     * window.pauseGame and shows an overlay
+     * 
+     * @returns JavaScript source
+     * @private
+     */
+    private getHostScript(): string {
+        return `
+            (function () {
+                const host = acquireVsCodeApi();
+                window.codeToPlayHost = host;
+
+                function showBackToWork(heading, text) {
+                    if (typeof window.pauseGame === 'function') {
+                        window.pauseGame();
+                    }
+
+                    if (document.getElementById('ctpBackToWork')) {
+                        return;
+                    }
+
+                    const overlay = document.createElement('div');
+                    overlay.id = 'ctpBackToWork';
+                    overlay.className = 'ctp-back-to-work';
+
+                    const title = document.createElement('h2');
+                    title.textContent = heading;
+
+                    const detail = document.createElement('p');
+                    detail.textContent = text;
+
+                    const button = document.createElement('button');
+                    button.textContent = 'Back to work';
+                    button.addEventListener('click', function () {
+                        host.postMessage({ command: 'backToWork' });
+                    });
+
+                    overlay.append(title, detail, button);
+                    document.body.appendChild(overlay);
+                }
+
+                window.addEventListener('message', function (event) {
+                    const message = event.data;
+                    if (message && message.command === 'waitingRoomClosed') {
+                        showBackToWork(
+                            'Build finished \u2014 back to work',
+                            message.label ? message.label + ' has finished.' : ''
+                        );
+                    }
+                    if (message && message.command === 'playDenied') {
+                        showBackToWork('Out of plays \u2014 back to work', message.reason || '');
+                    }
+                });
+            })();
+        `;
+    }
+
     /**
      * Creates a style tag with CSS content
      * 
@@ -413,6 +540,10 @@ export class WebviewManager {
      */
     private async handleWebviewMessage(gameId: string, message: any): Promise<void> {
         switch (message.command) {
+            case 'roundStarted':
+                await this.handleRoundStarted(gameId, message.mode);
+                break;
+
             case 'gameOver':
                 await this.handleGameOver(gameId, message.score);
                 break;
@@ -425,6 +556,10 @@ export class WebviewManager {
                 console.error(`[${gameId}]`, message.error);
                 break;
 
+            case 'backToWork':
+                this.closeGame(gameId);
+                break;
+
             case 'ready':
                 // Game loaded and ready
                 console.log(`Game ${gameId} ready`);
@@ -435,6 +570,36 @@ export class WebviewManager {
         }
     }
 
+    /**
+     * Handles a new round starting in a webview
+     * Stops the round if it needs a play and none is available
+     * 
+     * @param gameId - ID of the game
+     * @param mode - Mode or difficulty of the round, if the game has modes
+     * @private
+     */
+    private async handleRoundStarted(gameId: string, mode?: string): Promise<void> {
+        const sessionId = this.panelSessions.get(gameId);
+        if (!sessionId) {
+            return;
+        }
+
+        const result = await this.gameManager.startRound(gameId, sessionId, mode);
+
+        if (result.success && result.sessionId) {
+            this.panelSessions.set(gameId, result.sessionId);
+
+            // The round's mode may have changed what the play costs
+            const panel = this.activePanels.get(gameId);
+            const game = this.gameManager.getGame(gameId);
+            if (panel && game) {
+                panel.title = this.getPanelTitle(game, result.sessionId);
+            }
+        } else {
+            this.postMessage(gameId, { command: 'playDenied', reason: result.reason });
+        }
+    }
+
     /**
      * Handles game over event from webview
      * 
@@ -443,7 +608,10 @@ export class WebviewManager {
      * @private
      */
     private async handleGameOver(gameId: string, score?: number): Promise<void> {
-        await this.gameManager.endPlay(gameId, score);
+        const sessionId = this.panelSessions.get(gameId);
+        if (sessionId) {
+            await this.gameManager.completeRound(sessionId, score);
+        }
 
         // Show congratulatory message if high score
         const state = this.gameManager.getGame(gameId);
@@ -546,7 +714,26 @@ export function createWebviewManager(
     // Register play game command
     const playCommand = vscode.commands.registerCommand(
         'codeToPlay.playGame',
-        async (gameId: string) => {
+        async (gameId?: string) => {
+            if (!gameId) {
+                // Run from the command palette - ask which game to play
+                const items = gameManager.getAllGames().map(game => ({
+                    label: game.name,
+                    description: game.description,
+                    gameId: game.id
+                }));
+
+                const selected = await vscode.window.showQuickPick(items, {
+                    placeHolder: 'Select a game to play'
+                });
+
+                if (!selected) {
+                    return;
+                }
+
+                gameId = selected.gameId;
+            }
+
             await webviewManager.openGame(gameId);
         }
     );